@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
 import { 
   PieChart, Pie, Cell, ResponsiveContainer, 
   Tooltip
@@ -8,223 +9,783 @@ import {
   PlusIcon, 
   TrashIcon, 
   PencilIcon,
-  SparklesIcon,
   XMarkIcon,
   WalletIcon,
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon,
   AdjustmentsHorizontalIcon,
   ArrowDownTrayIcon,
-  DocumentArrowUpIcon,
   ArrowUpTrayIcon,
   CircleStackIcon,
   FunnelIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  ArrowPathIcon,
+  BoltIcon,
+  ArrowsRightLeftIcon,
+  BuildingLibraryIcon,
+  CurrencyEuroIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ClockIcon,
+  LockClosedIcon,
+  MagnifyingGlassIcon,
+  BarsArrowDownIcon,
+  BarsArrowUpIcon,
+  CreditCardIcon,
+  ArrowsUpDownIcon,
+  UserGroupIcon
 } from '@heroicons/react/24/outline';
-import { Transaction, TransactionType, FinancialStats } from './types';
-import { getFinancialInsights } from './services/geminiService';
-
-const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#2dd4bf', '#fb7185', '#a855f7'];
+import { Transaction, TransactionType, FinancialStats, Category, RecurringRule, Budget, ImportProfile, CategorizationRule, CategoryChange, Account, ExchangeRate, TransactionFilters, FilterPreset, SavingsGoal, AiSettings, ParsedEntry, TransactionSort, SortField, AppData, LoadResult, SaveState, AuditEntry, TrackedData, EncryptedPayload, Changeset, SyncConflict, SyncState, SyncedData, Member, Settlement, Money } from './types';
+import { DEFAULT_AI_SETTINGS, getFinancialInsights, PROVIDER_LABELS } from './services/insightService';
+import { askFinances } from './services/assistantService';
+import { EntryContext, parseQuickEntry, suggestCategories } from './services/quickEntryService';
+import { materializeRecurringRules, applyToFutureOccurrences } from './services/recurringService';
+import { computeBudgetStatuses } from './services/budgetService';
+import { findDuplicatePairs, HIGH_CONFIDENCE } from './services/duplicateService';
+import { findMatchingRule, suggestRuleFromCorrection } from './services/categorizationService';
+import { computeAccountBalances, DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID, migrateToAccounts, TRANSFER_CATEGORY_ID } from './services/accountService';
+import { convertAmount, convertTransactions, findMissingCurrencies, formatMoney, REFERENCE_CURRENCY, SUPPORTED_CURRENCIES, transactionCurrency } from './services/currencyService';
+import { toMonthKey, todayISO } from './services/dateUtils';
+import { countActiveFilters, DEFAULT_SORT, EMPTY_FILTERS, filterTransactions, parseQuery, QUERY_HELP, SORT_LABELS, sortTransactions } from './services/queryService';
+import { createDefaultCategories, createElectronBackend, createEmptyData, createLocalStorageBackend, loadAppData, reencryptBackups, saveAppData } from './services/storageService';
+import { decryptJson, deriveVaultKey, encryptJson, isEncryptedPayload, unlockPayload, VaultKey, verifyPassphrase } from './services/cryptoService';
+import { createAutosaver } from './services/autosaveService';
+import { categoryLines, narrowToCategories, parseTags, primaryCategory, validateSplits } from './services/splitService';
+import { categoryName, categoryUsage, CATEGORY_COLORS, findDuplicateCategories, mergeCategories, orderCategories, renameCategory, replaceCategoryReferences, replaceFilterCategory, rollupTransactions } from './services/categoryService';
+import { appendAuditEntry, applyChanges, createAuditEntry, diffTrackedData, invertChanges, MAX_UNDO_STEPS } from './services/historyService';
+import { buildBackupRecords, buildExportRows, buildPrintableReport, createBrowserFileSaver, createElectronFileSaver, EXPORT_HEADER, exportFileName, MIME_TYPES, PdfReportGranularity, SheetFormat, toCsv } from './services/exportService';
+import { createXlsx } from './services/xlsxService';
+import { computeGoalsProgress } from './services/goalService';
+import { buildForecast } from './services/forecastService';
+import { categorizeSubscription, detectSubscriptions, SUBSCRIPTION_TAG, subscriptionQuery, tagSubscription } from './services/subscriptionService';
+import { computeMemberBalances, createSettlementTransfer, narrowToMember, settleUp } from './services/householdService';
+import { fromMoney, parseMoney, sumMoney, toMoney, validateAmountInput } from './services/moneyService';
+import { buildChangeset, createElectronSyncFolder, createSyncState, isChangeset, mergeChangeset, recordChanges, resolveConflict, syncFileName } from './services/syncService';
+import RecurringRulesModal from './components/RecurringRulesModal';
+import CategoryModal from './components/CategoryModal';
+import BudgetPanel from './components/BudgetPanel';
+import ImportModal from './components/ImportModal';
+import CategorizationRulesModal from './components/CategorizationRulesModal';
+import AccountsModal from './components/AccountsModal';
+import ExchangeRatesModal from './components/ExchangeRatesModal';
+import ReportsPanel from './components/ReportsPanel';
+import AuditLogModal from './components/AuditLogModal';
+import LockScreen from './components/LockScreen';
+import VaultModal from './components/VaultModal';
+import FilterModal from './components/FilterModal';
+import SplitEditor from './components/SplitEditor';
+import VirtualList from './components/VirtualList';
+import ExportModal from './components/ExportModal';
+import GoalsPanel from './components/GoalsPanel';
+import GoalsModal from './components/GoalsModal';
+import ForecastPanel from './components/ForecastPanel';
+import SubscriptionsModal from './components/SubscriptionsModal';
+import SyncModal from './components/SyncModal';
+import HouseholdModal from './components/HouseholdModal';
+import QuickEntry from './components/QuickEntry';
+import AiSettingsModal from './components/AiSettingsModal';
+import InsightsPanel from './components/InsightsPanel';
 
 const electronAPI = (window as any).electronAPI;
 
+const storage = electronAPI ? createElectronBackend(electronAPI) : createLocalStorageBackend();
+
+const fileSaver = electronAPI ? createElectronFileSaver(electronAPI) : createBrowserFileSaver();
+
+const syncFolder = electronAPI ? createElectronSyncFolder(electronAPI) : null;
+
+const AUTO_LOCK_MINUTES = 5;
+
 const App: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
-  const [categories, setCategories] = useState<string[]>(['Salário', 'Supermercado', 'Renda', 'Lazer', 'Transporte', 'Serviços', 'Saúde', 'Outros']);
-  const [insights, setInsights] = useState<string | null>(null);
-  const [loadingInsights, setLoadingInsights] = useState(false);
+  const [categories, setCategories] = useState<Category[]>(createDefaultCategories);
+  // Mostrar os gráficos agrupados pelas categorias de topo
+  const [rollupCategories, setRollupCategories] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(DEFAULT_AI_SETTINGS);
+  const [lowBalanceThreshold, setLowBalanceThreshold] = useState<Money>(0 as Money);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
   const [isDataQualityModalOpen, setIsDataQualityModalOpen] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success'>('idle');
+  const [isRecurringModalOpen, setIsRecurringModalOpen] = useState(false);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [recurringEditScope, setRecurringEditScope] = useState<'single' | 'future'>('single');
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [budgetMonth, setBudgetMonth] = useState(toMonthKey(todayISO()));
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([]);
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState(false);
+  const [ruleSuggestion, setRuleSuggestion] = useState<CategorizationRule | null>(null);
+  const categoryTouched = useRef(false);
+  const entryFormRef = useRef<HTMLFormElement>(null);
+  const [accounts, setAccounts] = useState<Account[]>(DEFAULT_ACCOUNTS);
+  const [isAccountsModalOpen, setIsAccountsModalOpen] = useState(false);
+  const [formType, setFormType] = useState<TransactionType>(TransactionType.EXPENSE);
+  const [isSplitForm, setIsSplitForm] = useState(false);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(REFERENCE_CURRENCY);
+  const [isRatesModalOpen, setIsRatesModalOpen] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>({ dirty: false, saving: false, lastSavedAt: null, error: null });
+  // Chave do cofre só em memória; null quando os dados não estão cifrados
+  const vaultRef = useRef<VaultKey | null>(null);
+  const [isVaultEnabled, setIsVaultEnabled] = useState(false);
+  const [lockedPayload, setLockedPayload] = useState<EncryptedPayload | null>(null);
+  const [isVaultModalOpen, setIsVaultModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const autosaver = useMemo(() => createAutosaver<AppData>(data => saveAppData(storage, data, vaultRef.current), setSaveState), []);
+  // Evita regravar (e rodar as cópias de segurança) logo após abrir sem alterações
+  const skipNextSave = useRef(false);
+  const [storageIssue, setStorageIssue] = useState<LoadResult | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [undoStack, setUndoStack] = useState<AuditEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<AuditEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<AuditEntry | null>(null);
+  const [isAuditModalOpen, setIsAuditModalOpen] = useState(false);
 
-  const [filters, setFilters] = useState({
-    category: 'all',
-    startDate: '',
-    endDate: '',
-    type: 'all' as TransactionType | 'all'
-  });
+  const [filters, setFilters] = useState<TransactionFilters>(EMPTY_FILTERS);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [isGoalsModalOpen, setIsGoalsModalOpen] = useState(false);
+  const [isSubscriptionsModalOpen, setIsSubscriptionsModalOpen] = useState(false);
+  const [sync, setSync] = useState<SyncState>(() => createSyncState());
+  const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isHouseholdModalOpen, setIsHouseholdModalOpen] = useState(false);
+  // Chaves dos ficheiros cifrados por outros dispositivos, para não pedir a frase-passe a cada sincronização
+  const syncKeys = useRef<VaultKey[]>([]);
+  const [sort, setSort] = useState<TransactionSort>(DEFAULT_SORT);
 
-  const [incomeFile, setIncomeFile] = useState<File | null>(null);
-  const [expenseFile, setExpenseFile] = useState<File | null>(null);
-  const incomeInputRef = useRef<HTMLInputElement>(null);
-  const expenseInputRef = useRef<HTMLInputElement>(null);
+  const applyAppData = (data: AppData): boolean => {
+    setCategories(data.categories);
+    setBudgets(data.budgets);
+    setImportProfiles(data.importProfiles);
+    setCategorizationRules(data.categorizationRules);
+    setAccounts(data.accounts);
+    setExchangeRates(data.exchangeRates);
+    setBaseCurrency(data.baseCurrency);
+    setFilterPresets(data.filterPresets);
+    setGoals(data.goals);
+    setAiSettings(data.aiSettings);
+    setLowBalanceThreshold(data.lowBalanceThreshold);
+    setMembers(data.members);
+    // Gera as ocorrências recorrentes vencidas desde a última abertura. O estado ainda não está
+    // carregado, por isso o passo vai diretamente para o histórico e para a sincronização
+    const { generated, rules } = materializeRecurringRules(data.recurringRules);
+    const changes = generated.length > 0
+      ? diffTrackedData(data, { recurringRules: rules, transactions: [...data.transactions, ...generated] })
+      : [];
+    setRecurringRules(rules);
+    setTransactions(migrateToAccounts([...data.transactions, ...generated]));
+    setAuditLog(changes.length > 0 ? appendAuditEntry(data.auditLog, createAuditEntry('Gerar movimentos recorrentes', changes)) : data.auditLog);
+    setSync(recordChanges(data.sync, changes));
+    return generated.length > 0;
+  };
+
+  const openData = async () => {
+    const result = await loadAppData(storage, vaultRef.current);
+    // Dados cifrados: mostra o ecrã de bloqueio antes de carregar o que quer que seja
+    if (result.status === 'locked') {
+      setLockedPayload(result.locked!);
+      return;
+    }
+    setLockedPayload(null);
+    if (result.message) setStorageIssue(result);
+    // Dados ilegíveis: não carrega nada para não gravar por cima do ficheiro
+    if (!result.data) return;
+    const changed = applyAppData(result.data);
+    skipNextSave.current = result.status === 'ok' && !changed;
+    setIsLoaded(true);
+  };
 
   useEffect(() => {
-    const init = async () => {
-      const savedCats = localStorage.getItem('fintrack_categories');
-      if (savedCats) setCategories(JSON.parse(savedCats));
-
-      if (electronAPI) {
-        try {
-          const incomes = await electronAPI.readJson('incomes.json');
-          const expenses = await electronAPI.readJson('expenses.json');
-          const mappedIncomes = (Array.isArray(incomes) ? incomes : []).map((t: any) => ({ ...t, type: TransactionType.INCOME, id: t.id || Math.random().toString(36).substr(2, 9) }));
-          const mappedExpenses = (Array.isArray(expenses) ? expenses : []).map((t: any) => ({ ...t, type: TransactionType.EXPENSE, id: t.id || Math.random().toString(36).substr(2, 9) }));
-          setTransactions([...mappedIncomes, ...mappedExpenses]);
-        } catch (e) { console.error("Erro ao carregar ficheiros:", e); }
-      } else {
-        const local = localStorage.getItem('fintrack_transactions');
-        if (local) setTransactions(JSON.parse(local));
-      }
-      setIsLoaded(true);
-    };
-    init();
+    openData();
   }, []);
 
+  const handleUnlock = async (passphrase: string): Promise<boolean> => {
+    const unlocked = await unlockPayload(passphrase, lockedPayload!);
+    if (!unlocked) return false;
+    vaultRef.current = unlocked.vault;
+    setIsVaultEnabled(true);
+    await openData();
+    return true;
+  };
+
+  const handleLock = async () => {
+    if (!vaultRef.current || !await autosaver.flush()) return;
+    vaultRef.current = null;
+    setIsLoaded(false);
+    setIsVaultEnabled(false);
+    setIsVaultModalOpen(false);
+    // Retira os dados da memória até voltar a desbloquear
+    applyAppData(createEmptyData());
+    setUndoStack([]);
+    setRedoStack([]);
+    setUndoToast(null);
+    await openData();
+  };
+
+  // Grava já com a nova chave (ou em claro) e converte as cópias de segurança
+  const switchVault = async (next: VaultKey | null): Promise<string | null> => {
+    const previous = vaultRef.current;
+    vaultRef.current = next;
+    autosaver.schedule(appData);
+    if (!await autosaver.flush()) {
+      vaultRef.current = previous;
+      return 'Não foi possível gravar os dados.';
+    }
+    setIsVaultEnabled(!!next);
+    const skipped = await reencryptBackups(storage, previous, next);
+    return skipped > 0 ? `Dados gravados, mas ${skipped} cópias de segurança antigas não puderam ser convertidas.` : null;
+  };
+
+  const handleEnableVault = async (passphrase: string) => switchVault(await deriveVaultKey(passphrase));
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    if (!await verifyPassphrase(current, vaultRef.current!)) return 'Frase-passe atual incorreta.';
+    return switchVault(await deriveVaultKey(next));
+  };
+
+  const handleDisableVault = async (current: string) => {
+    if (!await verifyPassphrase(current, vaultRef.current!)) return 'Frase-passe atual incorreta.';
+    return switchVault(null);
+  };
+
+  // Bloqueio automático após inatividade
+  const lockRef = useRef(handleLock);
+  lockRef.current = handleLock;
+  useEffect(() => {
+    if (!isVaultEnabled || !isLoaded) return;
+    let timer = setTimeout(() => lockRef.current(), AUTO_LOCK_MINUTES * 60000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => lockRef.current(), AUTO_LOCK_MINUTES * 60000);
+    };
+    const events = ['mousemove', 'keydown', 'click', 'touchstart', 'scroll'];
+    events.forEach(e => window.addEventListener(e, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(e => window.removeEventListener(e, resetTimer));
+    };
+  }, [isVaultEnabled, isLoaded]);
+
+  const appData: AppData = useMemo(() => ({
+    transactions, categories, budgets, recurringRules, importProfiles, categorizationRules, accounts, exchangeRates, baseCurrency, auditLog, filterPresets, goals, aiSettings, lowBalanceThreshold, sync, members
+  }), [transactions, categories, budgets, recurringRules, importProfiles, categorizationRules, accounts, exchangeRates, baseCurrency, auditLog, filterPresets, goals, aiSettings, lowBalanceThreshold, sync, members]);
+
   useEffect(() => {
     if (!isLoaded) return;
-    localStorage.setItem('fintrack_transactions', JSON.stringify(transactions));
-  }, [transactions, isLoaded]);
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    autosaver.schedule(appData);
+  }, [appData, isLoaded]);
 
-  const handleManualSave = async () => {
-    if (!electronAPI) {
-      alert("A gravação em ficheiro só está disponível na versão desktop.");
+  // No desktop o processo principal pergunta antes de fechar com alterações por gravar
+  useEffect(() => {
+    electronAPI?.setDirty(saveState.dirty);
+  }, [saveState.dirty]);
+
+  useEffect(() => {
+    if (electronAPI) {
+      electronAPI.onFlushRequest(() => autosaver.flush());
       return;
     }
+    const guard = (e: BeforeUnloadEvent) => {
+      if (!autosaver.isDirty()) return;
+      autosaver.flush();
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', guard);
+    return () => window.removeEventListener('beforeunload', guard);
+  }, [autosaver]);
 
-    setSaveStatus('saving');
-    const incomes = transactions.filter(t => t.type === TransactionType.INCOME);
-    const expenses = transactions.filter(t => t.type === TransactionType.EXPENSE);
-    
-    try {
-      await electronAPI.writeJson('incomes.json', incomes);
-      await electronAPI.writeJson('expenses.json', expenses);
-      setSaveStatus('success');
-      setTimeout(() => setSaveStatus('idle'), 2000);
-    } catch (error) {
-      console.error("Erro ao gravar:", error);
-      setSaveStatus('idle');
+  // Valores na moeda base, usando a cotação em vigor na data de cada movimento
+  const convertedTransactions = useMemo(
+    () => convertTransactions(transactions, accounts, baseCurrency, exchangeRates),
+    [transactions, accounts, baseCurrency, exchangeRates]
+  );
+
+  const missingCurrencies = useMemo(() => {
+    const used = [...accounts.map(a => a.currency), ...transactions.map(t => transactionCurrency(t, accounts))];
+    return findMissingCurrencies(used, baseCurrency, exchangeRates);
+  }, [accounts, transactions, baseCurrency, exchangeRates]);
+
+  // Todas as alterações a movimentos e categorias passam por aqui, para ficarem
+  // no registo de alterações e poderem ser anuladas. As alterações recebidas de outro
+  // dispositivo (fromSync) já trazem a data original e não voltam a ser registadas para sincronizar
+  const trackedData: TrackedData = { transactions, categories, budgets, recurringRules, categorizationRules, goals, filterPresets };
+
+  const commitChange = (action: string, next: Partial<TrackedData>, options: { undoToast?: boolean; fromSync?: boolean } = {}) => {
+    const changes = diffTrackedData(trackedData, next);
+    if (changes.length === 0) return;
+    if (next.transactions) setTransactions(next.transactions);
+    if (next.categories) setCategories(next.categories);
+    if (next.budgets) setBudgets(next.budgets);
+    if (next.recurringRules) setRecurringRules(next.recurringRules);
+    if (next.categorizationRules) setCategorizationRules(next.categorizationRules);
+    if (next.goals) setGoals(next.goals);
+    if (next.filterPresets) setFilterPresets(next.filterPresets);
+    const entry = createAuditEntry(action, changes);
+    setAuditLog(p => appendAuditEntry(p, entry));
+    if (!options.fromSync) setSync(s => recordChanges(s, changes));
+    setUndoStack(p => [...p, entry].slice(-MAX_UNDO_STEPS));
+    setRedoStack([]);
+    // O aviso anula sempre o último passo, por isso só fica visível para esse
+    setUndoToast(options.undoToast ? entry : null);
+  };
+
+  // Contas e membros não entram no histórico, mas as alterações a eles também se sincronizam
+  const updateAccounts = (next: Account[], options: { fromSync?: boolean } = {}) => {
+    setAccounts(next);
+    if (!options.fromSync) setSync(s => recordChanges(s, [{ entity: 'accounts', before: accounts, after: next }]));
+  };
+
+  const updateMembers = (next: Member[], options: { fromSync?: boolean } = {}) => {
+    setMembers(next);
+    if (!options.fromSync) setSync(s => recordChanges(s, [{ entity: 'members', before: members, after: next }]));
+  };
+
+  const syncedData: SyncedData = { transactions, categories, accounts, recurringRules, categorizationRules, members };
+
+  const commitSyncedData = (action: string, next: Partial<SyncedData>, options: { fromSync?: boolean } = {}) => {
+    const { accounts: nextAccounts, members: nextMembers, ...tracked } = next;
+    commitChange(action, tracked, options);
+    if (nextAccounts) updateAccounts(nextAccounts, options);
+    if (nextMembers) updateMembers(nextMembers, options);
+  };
+
+  const replayEntry = (entry: AuditEntry, direction: 'undo' | 'redo') => {
+    const changes = direction === 'undo' ? invertChanges(entry.changes) : entry.changes;
+    const next = applyChanges(trackedData, changes);
+    setTransactions(next.transactions);
+    setCategories(next.categories);
+    setBudgets(next.budgets);
+    setRecurringRules(next.recurringRules);
+    setCategorizationRules(next.categorizationRules);
+    setGoals(next.goals);
+    setFilterPresets(next.filterPresets);
+    setSync(s => recordChanges(s, changes));
+    setAuditLog(p => appendAuditEntry(p, createAuditEntry(`${direction === 'undo' ? 'Anular' : 'Refazer'}: ${entry.action}`, changes)));
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    replayEntry(entry, 'undo');
+    setUndoStack(p => p.slice(0, -1));
+    setRedoStack(p => [...p, entry]);
+    setUndoToast(null);
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    replayEntry(entry, 'redo');
+    setRedoStack(p => p.slice(0, -1));
+    setUndoStack(p => [...p, entry]);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (ou Ctrl+Y); nos campos de texto fica o comportamento nativo
+  const historyHandlers = useRef({ undo: handleUndo, redo: handleRedo });
+  historyHandlers.current = { undo: handleUndo, redo: handleRedo };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyHandlers.current.undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        historyHandlers.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  const handleDeleteTransactions = (ids: Set<string>, action: string) => {
+    commitChange(action, { transactions: transactions.filter(t => !ids.has(t.id)) }, { undoToast: true });
+  };
+
+  // Fundir arrasta consigo movimentos, orçamentos, regras, objetivos e filtros,
+  // tudo no mesmo passo do histórico
+  const handleMergeCategory = (sourceId: string, targetId: string) => {
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) return;
+    commitChange(`Fundir categoria "${source.name}" em "${target.name}"`, {
+      ...replaceCategoryReferences(trackedData, sourceId, targetId),
+      categories: mergeCategories(categories, sourceId, targetId)
+    });
+    setFilters(f => replaceFilterCategory(f, sourceId, targetId));
+  };
+
+  // As referências usam o identificador: mudar o nome só altera a lista de categorias
+  const handleRenameCategory = (id: string, name: string) => {
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    commitChange(`Mudar o nome da categoria "${category.name}" para "${name}"`, { categories: renameCategory(categories, id, name) });
+  };
+
+  // Só se apagam categorias sem uso; os filtros deixam simplesmente de as ter
+  const handleCategoriesChange = (next: Category[]) => {
+    const removed = categories.filter(c => !next.some(n => n.id === c.id)).map(c => c.id);
+    const dropRemoved = (f: TransactionFilters) => removed.reduce((acc, id) => replaceFilterCategory(acc, id), f);
+    commitChange('Alterar categorias', {
+      categories: next,
+      ...(removed.length > 0 && { filterPresets: filterPresets.map(p => ({ ...p, filters: dropRemoved(p.filters) })) })
+    });
+    if (removed.length > 0) setFilters(dropRemoved);
+  };
+
+  const handleApplyCategoryChanges = (changes: CategoryChange[]) => {
+    const byId = new Map(changes.map(c => [c.transaction.id, c.to]));
+    commitChange('Reaplicar regras de categorização', { transactions: transactions.map(t => byId.has(t.id) ? { ...t, categoryId: byId.get(t.id)! } : t) });
+  };
+
+  // A regra e as ocorrências geradas ficam no mesmo passo, para que anular reponha também o cursor
+  const handleSaveRecurringRule = (rule: RecurringRule) => {
+    const { generated, rules } = materializeRecurringRules([rule]);
+    const exists = recurringRules.some(r => r.id === rule.id);
+    commitChange(`${exists ? 'Editar' : 'Nova'} regra recorrente "${rule.description || categoryName(categories, rule.categoryId)}"`, {
+      recurringRules: exists ? recurringRules.map(r => r.id === rule.id ? rules[0] : r) : [...recurringRules, rules[0]],
+      ...(generated.length > 0 ? { transactions: [...generated, ...transactions] } : {})
+    });
+  };
+
+  const handleDeleteRecurringRule = (id: string) => {
+    const rule = recurringRules.find(r => r.id === id);
+    // Os movimentos já gerados mantêm-se, mas deixam de estar ligados à regra
+    commitChange(`Apagar regra recorrente "${rule?.description || (rule && categoryName(categories, rule.categoryId))}"`, {
+      recurringRules: recurringRules.filter(r => r.id !== id),
+      transactions: transactions.map(t => t.recurringRuleId === id ? { ...t, recurringRuleId: undefined } : t)
+    });
+  };
+
+  const handleManualSave = async () => {
+    autosaver.schedule(appData);
+    if (!await autosaver.flush()) {
       alert("Erro ao gravar os dados nos ficheiros.");
     }
   };
 
+  const saveLabel = saveState.error
+    ? 'Erro ao gravar'
+    : saveState.saving
+      ? 'A gravar...'
+      : saveState.dirty
+        ? 'Alterações por gravar'
+        : saveState.lastSavedAt
+          ? `Gravado às ${new Date(saveState.lastSavedAt).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit' })}`
+          : 'Sem alterações';
+
+  // Com um membro filtrado, os gráficos mostram só a parte dele nas despesas partilhadas
+  const chartTransactions = useMemo(
+    () => {
+      const own = narrowToMember(convertedTransactions, filters.member);
+      return rollupCategories ? rollupTransactions(own, categories) : own;
+    },
+    [convertedTransactions, categories, rollupCategories, filters.member]
+  );
+
   const stats: FinancialStats = useMemo(() => {
-    const totalIncome = transactions.filter(t => t.type === TransactionType.INCOME).reduce((s, t) => s + t.amount, 0);
-    const totalExpenses = transactions.filter(t => t.type === TransactionType.EXPENSE).reduce((s, t) => s + t.amount, 0);
-    const expenseMap: Record<string, number> = {};
-    transactions.filter(t => t.type === TransactionType.EXPENSE).forEach(t => {
-      expenseMap[t.category] = (expenseMap[t.category] || 0) + t.amount;
+    const transactions = chartTransactions;
+    const totalOf = (type: TransactionType) => sumMoney(transactions.filter(t => t.type === type).map(t => t.amount));
+    const income = totalOf(TransactionType.INCOME);
+    const expenses = totalOf(TransactionType.EXPENSE);
+    const expenseMap: Record<string, Money> = {};
+    transactions.filter(t => t.type === TransactionType.EXPENSE).flatMap(categoryLines).forEach(l => {
+      expenseMap[l.categoryId] = sumMoney([expenseMap[l.categoryId] || 0 as Money, l.amount]);
     });
     const expenseByCategory = Object.entries(expenseMap)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
+      .sort((a, b) => b[1] - a[1])
       .slice(0, 10)
-      .map((item, index) => ({ ...item, color: COLORS[index % COLORS.length] }));
+      .map(([id, value], index) => ({
+        name: categoryName(categories, id),
+        value,
+        color: categories.find(c => c.id === id)?.color || CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+      }));
 
-    const categoryBalancesMap: Record<string, number> = {};
-    transactions.forEach(t => {
-      const amount = t.type === TransactionType.INCOME ? t.amount : -t.amount;
-      categoryBalancesMap[t.category] = (categoryBalancesMap[t.category] || 0) + amount;
+    const categoryBalancesMap: Record<string, Money> = {};
+    transactions.filter(t => t.type !== TransactionType.TRANSFER).forEach(t => {
+      categoryLines(t).forEach(l => {
+        const amount = t.type === TransactionType.INCOME ? l.amount : -l.amount as Money;
+        categoryBalancesMap[l.categoryId] = sumMoney([categoryBalancesMap[l.categoryId] || 0 as Money, amount]);
+      });
     });
 
     const categoryBalances = Object.entries(categoryBalancesMap)
-      .map(([name, balance]) => ({ name, balance }))
+      .map(([id, balance]) => ({ name: categoryName(categories, id), balance }))
       .sort((a, b) => b.balance - a.balance);
 
-    return { totalIncome, totalExpenses, balance: totalIncome - totalExpenses, expenseByCategory, categoryBalances };
-  }, [transactions]);
-
-  const duplicateTransactions = useMemo(() => {
-    const seen = new Map<string, string[]>();
-    const duplicates: Transaction[] = [];
-    
-    transactions.forEach(t => {
-      const key = `${t.date}-${t.amount}-${t.category}-${t.description}`;
-      if (seen.has(key)) {
-        duplicates.push(t);
-        seen.get(key)?.push(t.id);
-      } else {
-        seen.set(key, [t.id]);
-      }
-    });
-    return duplicates;
-  }, [transactions]);
-
-  const duplicateCategories = useMemo(() => {
-    const counts = new Map<string, number>();
-    categories.forEach(c => {
-      const normalized = c.toLowerCase().trim();
-      counts.set(normalized, (counts.get(normalized) || 0) + 1);
+    return { totalIncome: income, totalExpenses: expenses, balance: sumMoney([income, -expenses as Money]), expenseByCategory, categoryBalances };
+  }, [chartTransactions, categories]);
+
+  // O gráfico trabalha em unidades da moeda
+  const expenseChartData = useMemo(() => stats.expenseByCategory.map(c => ({ ...c, value: fromMoney(c.value) })), [stats]);
+
+  const accountBalances = useMemo(() => computeAccountBalances(accounts, transactions, exchangeRates), [accounts, transactions, exchangeRates]);
+
+  const currentBalance = useMemo(() => {
+    const today = todayISO();
+    const selected = accountBalances.filter(b => filters.account === 'all' || b.account.id === filters.account);
+    return sumMoney(selected.map(b => convertAmount(b.balance, b.account.currency, baseCurrency, today, exchangeRates)));
+  }, [accountBalances, filters.account, baseCurrency, exchangeRates]);
+
+  // Parte do saldo atual da conta filtrada; as regras passam para a moeda base
+  const forecast = useMemo(() => {
+    const today = todayISO();
+    const rules = recurringRules.map(r => {
+      const currency = accounts.find(a => a.id === (r.accountId || DEFAULT_ACCOUNT_ID))?.currency || baseCurrency;
+      return { ...r, amount: convertAmount(r.amount, currency, baseCurrency, today, exchangeRates) };
     });
-    return Array.from(counts.entries())
-      .filter(([_, count]) => count > 1)
-      .map(([name]) => categories.find(c => c.toLowerCase().trim() === name) || name);
-  }, [categories]);
+    return buildForecast({ transactions: convertedTransactions, rules, balance: currentBalance, account: filters.account, threshold: lowBalanceThreshold, today });
+  }, [convertedTransactions, recurringRules, accounts, baseCurrency, exchangeRates, currentBalance, filters.account, lowBalanceThreshold]);
 
-  const sortedTransactions = useMemo(() => {
-    let filtered = [...transactions];
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name || '—';
 
-    if (filters.category !== 'all') {
-      filtered = filtered.filter(t => t.category === filters.category);
-    }
-    if (filters.type !== 'all') {
-      filtered = filtered.filter(t => t.type === filters.type);
+  const budgetStatuses = useMemo(
+    () => computeBudgetStatuses(budgets, convertedTransactions, budgetMonth),
+    [budgets, convertedTransactions, budgetMonth]
+  );
+
+  // Os objetivos estão na moeda base, tal como os movimentos convertidos
+  const goalsProgress = useMemo(() => computeGoalsProgress(goals, convertedTransactions), [goals, convertedTransactions]);
+
+  // Na moeda base, como os acertos de contas que daqui resultam
+  const memberBalances = useMemo(() => computeMemberBalances(members, convertedTransactions), [members, convertedTransactions]);
+  const settlements = useMemo(() => settleUp(memberBalances), [memberBalances]);
+
+  const memberName = (id?: string) => members.find(m => m.id === id)?.name || '—';
+
+  const duplicatePairs = useMemo(() => findDuplicatePairs(transactions, categories), [transactions, categories]);
+
+  // Valores na moeda base, para que o custo anual se possa somar
+  const subscriptions = useMemo(() => detectSubscriptions(convertedTransactions), [convertedTransactions]);
+
+  const duplicateCategories = useMemo(() => findDuplicateCategories(categories), [categories]);
+
+  // Pela ordem do agrupamento, para as listas de escolha
+  const categoryList = useMemo(() => orderCategories(categories), [categories]);
+
+  const sortedTransactions = useMemo(
+    () => sortTransactions(filterTransactions(transactions, filters, accounts, categories), sort, categories),
+    [transactions, filters, accounts, categories, sort]
+  );
+
+  // Nos relatórios, um movimento dividido só conta com as partes das categorias filtradas
+  const reportTransactions = useMemo(
+    () => {
+      const filtered = narrowToMember(narrowToCategories(filterTransactions(convertedTransactions, filters, accounts, categories), filters.categoryIds), filters.member);
+      return rollupCategories ? rollupTransactions(filtered, categories) : filtered;
+    },
+    [convertedTransactions, filters, accounts, rollupCategories, categories]
+  );
+
+  const allTags = useMemo(
+    () => [...new Set(transactions.flatMap(t => t.tags || []))].sort((a, b) => a.localeCompare(b, 'pt')),
+    [transactions]
+  );
+
+  const activeFilterCount = countActiveFilters(filters);
+  // Filtros da pesquisa com valores ilegíveis (ex.: "valor>1.000"), que ficam de fora
+  const ignoredSearchFilters = useMemo(() => parseQuery(filters.search).ignored, [filters.search]);
+
+  // Ligações das análises e do assistente para os movimentos correspondentes
+  const showTransactions = (next: TransactionFilters) => {
+    setFilters(next);
+    document.getElementById('historico')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const entryContext = (): EntryContext => ({ categories: categoryList, rules: categorizationRules, history: transactions, today: todayISO() });
+
+  // Preenche o formulário de registo com o que a entrada rápida reconheceu
+  const applyParsedEntry = (entry: ParsedEntry) => {
+    // O seletor de categoria só existe depois de o tipo deixar de ser transferência
+    flushSync(() => {
+      setFormType(entry.type);
+      setIsSplitForm(false);
+    });
+    const form = entryFormRef.current;
+    if (!form) return;
+    const setField = (name: string, value: string | null) => {
+      const field = form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+      if (field && value) field.value = value;
+    };
+    setField('amount', entry.amount !== null ? String(fromMoney(entry.amount)) : null);
+    setField('date', entry.date);
+    setField('currency', entry.currency);
+    setField('description', entry.description);
+    if (entry.categoryId) {
+      setField('categoryId', entry.categoryId);
+      categoryTouched.current = true;
     }
-    if (filters.startDate) {
-      filtered = filtered.filter(t => t.date >= filters.startDate);
+  };
+
+  const exportData = async () => {
+    // Com o cofre ativo, a exportação também sai cifrada
+    const records = buildBackupRecords(transactions, categories);
+    const dataStr = JSON.stringify(vaultRef.current ? await encryptJson(records, vaultRef.current) : records, null, 2);
+    return fileSaver.save(exportFileName('backup', 'json'), dataStr, MIME_TYPES.json);
+  };
+
+  // Exporta o histórico tal como está filtrado e ordenado
+  const exportSheet = (format: SheetFormat) => {
+    const rows = buildExportRows(sortedTransactions, accounts, categories, baseCurrency, exchangeRates);
+    const data = format === 'csv' ? toCsv(EXPORT_HEADER, rows) : createXlsx('Movimentos', EXPORT_HEADER, rows);
+    return fileSaver.save(exportFileName('movimentos', format), data, MIME_TYPES[format]);
+  };
+
+  const exportPdf = (granularity: PdfReportGranularity, period: string) =>
+    fileSaver.savePdf(
+      buildPrintableReport(convertedTransactions, categories, granularity, period, baseCurrency),
+      exportFileName(`relatorio_${period}`, 'pdf')
+    );
+
+  const transactionYears = useMemo(
+    () => [...new Set(transactions.map(t => t.date.slice(0, 4)))].sort().reverse(),
+    [transactions]
+  );
+
+  const handleImport = (added: Transaction[], updated: Transaction[]) => {
+    // Junta aos movimentos existentes em vez de os substituir
+    const updatedById = new Map(updated.map(t => [t.id, t]));
+    commitChange(`Importar ${added.length} movimentos`, { transactions: [...added, ...transactions.map(t => updatedById.get(t.id) || t)] }, { undoToast: true });
+    setIsImportModalOpen(false);
+  };
+
+  // Ficheiros de sincronização cifrados com o cofre de outro dispositivo pedem a frase-passe uma vez por sessão
+  const openSyncContent = async (content: unknown): Promise<unknown | null> => {
+    if (!isEncryptedPayload(content)) return content;
+    const known = [vaultRef.current, ...syncKeys.current].find(k => k?.salt === content.salt);
+    if (known) {
+      try {
+        return await decryptJson(content, known);
+      } catch {
+        // Mesmo salt mas outra frase-passe: pede-a abaixo
+      }
     }
-    if (filters.endDate) {
-      filtered = filtered.filter(t => t.date <= filters.endDate);
+    for (;;) {
+      const passphrase = window.prompt('O ficheiro de sincronização está cifrado. Introduza a frase-passe:');
+      if (passphrase === null) return null;
+      const unlocked = await unlockPayload(passphrase, content);
+      if (unlocked) {
+        syncKeys.current = [...syncKeys.current, unlocked.vault];
+        return unlocked.value;
+      }
+      alert('Frase-passe incorreta.');
     }
+  };
 
-    return filtered.sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateB - dateA;
+  const applyChangesets = (changesets: Changeset[]) => {
+    let merged = { data: syncedData, state: sync, added: 0, updated: 0, deleted: 0, rejected: 0, conflicts: 0 };
+    changesets.forEach(cs => {
+      const result = mergeChangeset(merged.data, merged.state, cs);
+      merged = {
+        data: result.data,
+        state: result.state,
+        added: merged.added + result.added,
+        updated: merged.updated + result.updated,
+        deleted: merged.deleted + result.deleted,
+        rejected: merged.rejected + result.rejected,
+        conflicts: merged.conflicts + result.conflicts.length
+      };
     });
-  }, [transactions, filters]);
-
-  const exportData = () => {
-    const dataStr = JSON.stringify(transactions, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    const exportFileDefaultName = `fintrack_backup_${new Date().toISOString().split('T')[0]}.json`;
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
-  };
-
-  const processImportFiles = async () => {
-    const newTransactions: Transaction[] = [];
-    const readFile = (file: File, type: TransactionType): Promise<void> => {
-      return new Promise((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const json = JSON.parse(e.target?.result as string);
-            const items = (Array.isArray(json) ? json : [json]).map(t => ({
-              id: Math.random().toString(36).substr(2, 9),
-              type: type,
-              amount: Math.abs(t.amount || 0),
-              category: t.category || (type === TransactionType.INCOME ? 'Salário' : 'Outros'),
-              date: t.date || new Date().toISOString().split('T')[0],
-              description: t.description || ''
-            }));
-            newTransactions.push(...items);
-          } catch (err) { console.error("Erro no ficheiro", type, err); }
-          resolve();
-        };
-        reader.readAsText(file);
-      });
-    };
-    if (incomeFile) await readFile(incomeFile, TransactionType.INCOME);
-    if (expenseFile) await readFile(expenseFile, TransactionType.EXPENSE);
-    if (newTransactions.length > 0) {
-      setTransactions(newTransactions);
-      setIsImportModalOpen(false);
-      setIncomeFile(null);
-      setExpenseFile(null);
+    const names = [...new Set(changesets.map(cs => cs.deviceName))].join(', ');
+    commitSyncedData(`Sincronizar com ${names}`, merged.data, { fromSync: true });
+    setSync(merged.state);
+    const message = [
+      `${names}: ${merged.added} novos, ${merged.updated} alterados, ${merged.deleted} apagados.`,
+      ...(merged.rejected > 0 ? [`${merged.rejected} registos inválidos ignorados.`] : []),
+      ...(merged.conflicts > 0 ? [`${merged.conflicts} conflitos para rever.`] : [])
+    ].join(' ');
+    return { ...merged, message };
+  };
+
+  const exportChangeset = async (full: boolean): Promise<string> => {
+    const changeset = buildChangeset(syncedData, sync, full ? null : sync.lastExport);
+    const payload = vaultRef.current ? await encryptJson(changeset, vaultRef.current) : changeset;
+    if (!await fileSaver.save(exportFileName('alteracoes', 'json'), JSON.stringify(payload, null, 2), MIME_TYPES.json)) return 'Exportação cancelada.';
+    setSync(s => ({ ...s, lastExport: changeset.createdAt }));
+    return `${changeset.records.length} registos exportados.`;
+  };
+
+  const importChangeset = async (file: File): Promise<string> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error('O ficheiro não é um JSON válido.');
     }
+    const content = await openSyncContent(parsed);
+    if (content === null) return 'Importação cancelada.';
+    if (!isChangeset(content)) throw new Error('O ficheiro não contém alterações do FinTrack.');
+    if (content.device === sync.deviceId) return 'Este ficheiro foi exportado por este dispositivo.';
+    return applyChangesets([content]).message;
   };
 
-  const formatCurrency = (v: number) => v.toLocaleString('pt-PT', { style: 'currency', currency: 'EUR' });
+  const chooseSyncFolder = async () => {
+    const folder = await syncFolder!.choose();
+    if (folder) setSync(s => ({ ...s, folder }));
+  };
+
+  // Junta os ficheiros dos outros dispositivos e grava o estado completo deste
+  const syncWithFolder = async (): Promise<string> => {
+    const files = await syncFolder!.read(sync.folder!);
+    const changesets: Changeset[] = [];
+    for (const file of files.filter(f => f.name !== syncFileName(sync))) {
+      const content = await openSyncContent(file.content);
+      if (isChangeset(content) && content.device !== sync.deviceId) changesets.push(content);
+    }
+    const merged = changesets.length > 0 ? applyChangesets(changesets) : null;
+    const changeset = buildChangeset(merged ? merged.data : syncedData, merged ? merged.state : sync, null);
+    await syncFolder!.write(sync.folder!, syncFileName(sync), vaultRef.current ? await encryptJson(changeset, vaultRef.current) : changeset);
+    return merged ? merged.message : 'Nenhum outro dispositivo na pasta. O estado deste dispositivo foi gravado.';
+  };
+
+  const handleSettle = (items: Settlement[]) => {
+    const transfers = items.map(s => createSettlementTransfer(s, members, accounts, baseCurrency, todayISO()));
+    commitChange(items.length === 1 ? `Acerto de contas: ${memberName(items[0].from)} → ${memberName(items[0].to)}` : `Acertar contas (${items.length})`, { transactions: [...transfers, ...transactions] }, { undoToast: true });
+  };
+
+  const handleResolveConflict = (conflict: SyncConflict, useDiscarded: boolean) => {
+    if (useDiscarded) commitSyncedData(`Resolver conflito em "${conflict.label}"`, resolveConflict(syncedData, conflict));
+    setSync(s => ({ ...s, conflicts: s.conflicts.filter(c => c.id !== conflict.id) }));
+  };
 
-  if (!isLoaded) return null;
+  const formatCurrency = (v: Money) => formatMoney(v, baseCurrency);
+
+  if (!isLoaded) {
+    if (lockedPayload) return <LockScreen onUnlock={handleUnlock} />;
+    if (storageIssue?.status !== 'corrupted') return null;
+    return (
+      <div className="min-h-screen bg-[#0f172a] text-slate-100 font-sans flex items-center justify-center p-6">
+        <div className="bg-[#1e293b] w-full max-w-lg rounded-[2.5rem] p-8 md:p-12 shadow-2xl border border-rose-500/30 space-y-6">
+          <h3 className="text-2xl font-black text-white uppercase">Dados Corrompidos</h3>
+          <p className="text-sm text-slate-300 leading-relaxed">{storageIssue.message}</p>
+          <p className="text-xs text-slate-500">Se começar do zero, o ficheiro atual é guardado como cópia de segurança antes de ser substituído.</p>
+          <div className="grid grid-cols-2 gap-4">
+            <button onClick={() => window.location.reload()} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Tentar de Novo</button>
+            <button onClick={() => { applyAppData(createEmptyData()); setStorageIssue(null); setIsLoaded(true); }} className="w-full bg-rose-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest hover:bg-rose-500 transition-all">Começar do Zero</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-[#0f172a] text-slate-100 font-sans">
@@ -233,35 +794,69 @@ const App: React.FC = () => {
           <div className="w-10 h-10 md:w-12 md:h-12 bg-indigo-600 rounded-xl md:rounded-2xl flex items-center justify-center shadow-2xl shadow-indigo-600/40 transform rotate-3">
             <WalletIcon className="w-6 h-6 md:w-7 md:h-7 text-white" />
           </div>
-          <h1 className="text-xl md:text-2xl font-[900] tracking-tighter text-white uppercase">
-            FINTRACK <span className="text-indigo-500">AI</span>
-          </h1>
+          <div>
+            <h1 className="text-xl md:text-2xl font-[900] tracking-tighter text-white uppercase">
+              FINTRACK <span className="text-indigo-500">AI</span>
+            </h1>
+            <p title={saveState.error || undefined} className={`text-[9px] md:text-[10px] font-black uppercase tracking-widest ${saveState.error ? 'text-rose-400' : saveState.dirty ? 'text-amber-400' : 'text-slate-500'}`}>
+              {saveLabel}
+            </p>
+          </div>
         </div>
         <div className="flex items-center gap-3 md:gap-4 w-full sm:w-auto">
           <button 
             onClick={handleManualSave}
-            title="Gravar nos Ficheiros JSON"
+            title="Gravar Agora"
             className={`flex-1 sm:flex-none p-3 transition-all rounded-xl ${
-              saveStatus === 'success' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-slate-800/40 text-slate-400 hover:text-white'
+              saveState.dirty ? 'bg-amber-500/20 text-amber-400' : 'bg-slate-800/40 text-slate-400 hover:text-white'
             }`}
           >
-            <CircleStackIcon className={`mx-auto w-6 h-6 ${saveStatus === 'saving' ? 'animate-pulse' : ''}`} />
+            <CircleStackIcon className={`mx-auto w-6 h-6 ${saveState.saving ? 'animate-pulse' : ''}`} />
           </button>
           <button 
-            onClick={exportData}
-            title="Exportar Backup JSON"
+            onClick={() => setIsExportModalOpen(true)}
+            title="Exportar"
             className="flex-1 sm:flex-none p-3 text-slate-400 hover:text-white transition-all bg-slate-800/40 rounded-xl"
           >
             <ArrowUpTrayIcon className="mx-auto w-6 h-6" />
           </button>
+          <button 
+            onClick={() => setIsRecurringModalOpen(true)}
+            title="Movimentos Recorrentes"
+            className="flex-1 sm:flex-none p-3 text-slate-400 hover:text-white transition-all bg-slate-800/40 rounded-xl"
+          >
+            <ArrowPathIcon className="mx-auto w-6 h-6" />
+          </button>
+          <button 
+            onClick={() => setIsVaultModalOpen(true)}
+            title="Cofre e Cifra"
+            className={`flex-1 sm:flex-none p-3 transition-all rounded-xl ${isVaultEnabled ? 'bg-emerald-500/10 text-emerald-400' : 'bg-slate-800/40 text-slate-400 hover:text-white'}`}
+          >
+            <LockClosedIcon className="mx-auto w-6 h-6" />
+          </button>
+          <button 
+            onClick={() => setIsSyncModalOpen(true)}
+            title={sync.conflicts.length > 0 ? `Sincronizar (${sync.conflicts.length} conflitos)` : 'Sincronizar'}
+            className={`flex-1 sm:flex-none p-3 transition-all rounded-xl ${sync.conflicts.length > 0 ? 'bg-amber-500/10 text-amber-400' : 'bg-slate-800/40 text-slate-400 hover:text-white'}`}
+          >
+            <ArrowsUpDownIcon className="mx-auto w-6 h-6" />
+          </button>
+          <button 
+            onClick={() => setIsRatesModalOpen(true)}
+            title="Moedas e Cotações"
+            className="flex-1 sm:flex-none p-3 text-slate-400 hover:text-white transition-all bg-slate-800/40 rounded-xl"
+          >
+            <CurrencyEuroIcon className="mx-auto w-6 h-6" />
+          </button>
           <button 
             onClick={() => setIsCategoryModalOpen(true)} 
+            title="Categorias e Orçamentos"
             className="flex-1 sm:flex-none p-3 text-slate-400 hover:text-white transition-all bg-slate-800/40 rounded-xl"
           >
             <AdjustmentsHorizontalIcon className="mx-auto w-6 h-6" />
           </button>
           <button 
-            onClick={() => { setEditingTransaction(null); setIsModalOpen(true); }} 
+            onClick={() => { setEditingTransaction(null); categoryTouched.current = false; setFormType(TransactionType.EXPENSE); setIsSplitForm(false); setIsModalOpen(true); }} 
             className="flex-[3] sm:flex-none bg-indigo-600 px-6 md:px-8 py-3 md:py-3.5 rounded-xl md:rounded-[1.25rem] text-white font-black text-xs md:text-sm tracking-widest uppercase flex items-center justify-center gap-3 hover:bg-indigo-50 transition-all shadow-xl shadow-indigo-600/20"
           >
             <PlusIcon className="w-5 h-5 stroke-[4px]" />
@@ -277,8 +872,8 @@ const App: React.FC = () => {
               <WalletIcon className="w-6 md:w-8 lg:w-9 h-6 md:h-8 lg:h-9 text-indigo-400" />
             </div>
             <div className="min-w-0">
-              <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 mb-0.5 truncate">Saldo Atual</p>
-              <h2 className="text-xl md:text-2xl lg:text-3xl font-black text-white truncate break-all leading-tight">{formatCurrency(stats.balance)}</h2>
+              <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 mb-0.5 truncate">Saldo Atual{filters.account !== 'all' && ` • ${accountName(filters.account)}`}</p>
+              <h2 className="text-xl md:text-2xl lg:text-3xl font-black text-white truncate break-all leading-tight">{formatCurrency(currentBalance)}</h2>
             </div>
           </div>
           <div className="bg-[#1e293b] p-4 md:p-6 lg:p-8 rounded-[1.5rem] md:rounded-[2.5rem] border border-slate-800 shadow-xl flex items-center gap-4 md:gap-6 overflow-hidden">
@@ -301,29 +896,76 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <GoalsPanel progress={goalsProgress} formatCurrency={formatCurrency} onManage={() => setIsGoalsModalOpen(true)} />
+
+        <div className="flex items-center gap-3 md:gap-4 mb-12 overflow-x-auto pb-2">
+          {accountBalances.map(({ account, balance }) => (
+            <button
+              key={account.id}
+              onClick={() => setFilters(f => ({ ...f, account: f.account === account.id ? 'all' : account.id }))}
+              className={`flex-shrink-0 px-5 py-4 rounded-2xl border text-left transition-all ${filters.account === account.id ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[#1e293b] border-slate-800 hover:border-slate-600'}`}
+            >
+              <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 truncate">{account.name}</p>
+              <p className={`text-sm md:text-base font-black ${balance >= 0 ? 'text-white' : 'text-rose-400'}`}>{formatMoney(balance, account.currency)}</p>
+            </button>
+          ))}
+          <button onClick={() => setIsAccountsModalOpen(true)} title="Gerir Contas" className="flex-shrink-0 p-4 rounded-2xl bg-slate-800/40 text-slate-400 hover:text-white transition-all">
+            <BuildingLibraryIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setIsHouseholdModalOpen(true)} title="Agregado e Acertos" className="flex-shrink-0 p-4 rounded-2xl bg-slate-800/40 text-slate-400 hover:text-white transition-all">
+            <UserGroupIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {members.length > 0 && (
+          <div className="flex items-center gap-3 md:gap-4 -mt-8 mb-12 overflow-x-auto pb-2">
+            {memberBalances.map(({ member, balance }) => (
+              <button
+                key={member.id}
+                onClick={() => setFilters(f => ({ ...f, member: f.member === member.id ? 'all' : member.id }))}
+                className={`flex-shrink-0 px-5 py-4 rounded-2xl border text-left transition-all ${filters.member === member.id ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[#1e293b] border-slate-800 hover:border-slate-600'}`}
+              >
+                <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 truncate">{member.name}</p>
+                <p className={`text-sm md:text-base font-black ${balance === 0 ? 'text-white' : balance > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {balance === 0 ? 'Contas certas' : `${balance > 0 ? 'A receber' : 'Deve'} ${formatCurrency(Math.abs(balance) as Money)}`}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-12 gap-6 md:gap-10">
           <div className="col-span-12 lg:col-span-8 space-y-8 md:space-y-12">
+            <ForecastPanel forecast={forecast} categories={categories} threshold={lowBalanceThreshold} formatCurrency={formatCurrency} onThresholdChange={setLowBalanceThreshold} />
+
             <div className="bg-[#1e293b] p-6 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-slate-800 shadow-2xl">
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-10">
                 <h3 className="text-xl md:text-2xl font-black text-white">Análise de Despesas</h3>
-                <span className="text-[10px] font-black bg-indigo-500/10 text-indigo-400 px-4 py-1.5 rounded-full uppercase">Top 10 Categorias</span>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => setRollupCategories(r => !r)} title="Somar as subcategorias na categoria de topo" className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase transition-colors ${rollupCategories ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                    Agrupar
+                  </button>
+                  <span className="text-[10px] font-black bg-indigo-500/10 text-indigo-400 px-4 py-1.5 rounded-full uppercase">Top 10 Categorias</span>
+                </div>
               </div>
               <div className="h-[280px] md:h-[340px]">
                 <ResponsiveContainer width="100%" height="100%">
                   <PieChart>
-                    <Pie data={stats.expenseByCategory} cx="50%" cy="50%" innerRadius={window.innerWidth < 768 ? 70 : 95} outerRadius={window.innerWidth < 768 ? 100 : 135} paddingAngle={5} dataKey="value" stroke="none">
+                    <Pie data={expenseChartData} cx="50%" cy="50%" innerRadius={window.innerWidth < 768 ? 70 : 95} outerRadius={window.innerWidth < 768 ? 100 : 135} paddingAngle={5} dataKey="value" stroke="none">
                       {stats.expenseByCategory.map((entry, index) => <Cell key={index} fill={entry.color} />)}
                     </Pie>
-                    <Tooltip contentStyle={{ borderRadius: '24px', border: 'none', backgroundColor: '#0f172a', color: '#fff' }} />
+                    <Tooltip contentStyle={{ borderRadius: '24px', border: 'none', backgroundColor: '#0f172a', color: '#fff' }} formatter={(v: unknown) => formatCurrency(toMoney(Number(v)))} />
                   </PieChart>
                 </ResponsiveContainer>
               </div>
             </div>
 
+            <ReportsPanel transactions={reportTransactions} categories={categories} colors={CATEGORY_COLORS} formatCurrency={formatCurrency} />
+
             <div className="bg-[#1e293b] p-6 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-slate-800 shadow-2xl">
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-10">
                 <h3 className="text-xl md:text-2xl font-black text-white">Saldos por Categoria</h3>
-                <span className="text-[10px] font-black bg-emerald-500/10 text-emerald-400 px-4 py-1.5 rounded-full uppercase">Resumo por Categoria</span>
+                <span className="text-[10px] font-black bg-emerald-500/10 text-emerald-400 px-4 py-1.5 rounded-full uppercase">{filters.member !== 'all' ? `Parte de ${memberName(filters.member)}` : 'Resumo por Categoria'}</span>
               </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 {stats.categoryBalances.length === 0 ? (
@@ -335,7 +977,7 @@ const App: React.FC = () => {
                     <div key={item.name} className="flex items-center justify-between p-4 md:p-5 bg-slate-800/40 rounded-2xl border border-slate-700/50 hover:border-slate-600 transition-all">
                       <span className="text-xs md:text-sm font-bold text-slate-300 uppercase tracking-wider truncate mr-2">{item.name}</span>
                       <span className={`text-sm md:text-base font-black whitespace-nowrap ${item.balance >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                        {item.balance >= 0 ? '+' : ''}{item.balance.toFixed(2)}€
+                        {item.balance >= 0 ? '+' : ''}{formatCurrency(item.balance)}
                       </span>
                     </div>
                   ))
@@ -343,108 +985,142 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className="space-y-6">
+            <BudgetPanel statuses={budgetStatuses} categories={categories} month={budgetMonth} onMonthChange={setBudgetMonth} formatCurrency={formatCurrency} />
+
+            <div id="historico" className="space-y-6 scroll-mt-6">
               <div className="flex items-center justify-between px-4">
                 <h3 className="text-[10px] md:text-xs font-black text-slate-500 uppercase tracking-[0.3em]">Histórico Completo</h3>
                 <div className="flex items-center gap-4">
+                  <button onClick={handleUndo} disabled={undoStack.length === 0} title="Anular (Ctrl+Z)" className="text-slate-500 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-slate-500">
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={handleRedo} disabled={redoStack.length === 0} title="Refazer (Ctrl+Shift+Z)" className="text-slate-500 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-slate-500">
+                    <ArrowUturnRightIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setIsAuditModalOpen(true)} className="text-[10px] md:text-xs font-black text-slate-500 hover:text-white flex items-center gap-2 uppercase tracking-widest transition-colors">
+                    <ClockIcon className="w-4 h-4" /> Registo
+                  </button>
+                  <button onClick={() => setIsRulesModalOpen(true)} className="text-[10px] md:text-xs font-black text-slate-500 hover:text-white flex items-center gap-2 uppercase tracking-widest transition-colors">
+                    <BoltIcon className="w-4 h-4" /> Regras
+                  </button>
                   <button onClick={() => setIsDataQualityModalOpen(true)} className="text-[10px] md:text-xs font-black text-slate-500 hover:text-white flex items-center gap-2 uppercase tracking-widest transition-colors">
                     <ShieldCheckIcon className="w-4 h-4" /> Qualidade
                   </button>
-                  <button onClick={() => setIsFilterModalOpen(true)} className={`text-[10px] md:text-xs font-black flex items-center gap-2 uppercase tracking-widest transition-colors ${filters.category !== 'all' || filters.startDate || filters.endDate || filters.type !== 'all' ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}>
-                    <FunnelIcon className="w-4 h-4" /> Filtrar
+                  <button onClick={() => setIsSubscriptionsModalOpen(true)} className="text-[10px] md:text-xs font-black text-slate-500 hover:text-white flex items-center gap-2 uppercase tracking-widest transition-colors">
+                    <CreditCardIcon className="w-4 h-4" /> Subscrições{subscriptions.length > 0 && ` (${subscriptions.length})`}
+                  </button>
+                  <button onClick={() => setIsFilterModalOpen(true)} className={`text-[10px] md:text-xs font-black flex items-center gap-2 uppercase tracking-widest transition-colors ${activeFilterCount > 0 ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}>
+                    <FunnelIcon className="w-4 h-4" /> Filtrar{activeFilterCount > 0 && ` (${activeFilterCount})`}
                   </button>
                   <button onClick={() => setIsImportModalOpen(true)} className="text-[10px] md:text-xs font-black text-indigo-400 hover:text-white flex items-center gap-2 uppercase tracking-widest">
                     <ArrowDownTrayIcon className="w-4 h-4" /> Importar
                   </button>
                 </div>
               </div>
-              <div className="grid gap-4 md:gap-5">
+              <div className="flex flex-col sm:flex-row gap-3 px-1">
+                <div className="relative flex-1">
+                  <MagnifyingGlassIcon className="w-4 h-4 text-slate-500 absolute left-4 top-1/2 -translate-y-1/2" />
+                  <input
+                    value={filters.search}
+                    onChange={(e) => setFilters(f => ({ ...f, search: e.target.value }))}
+                    placeholder="Pesquisar movimentos..."
+                    title={`Exemplos: ${QUERY_HELP}`}
+                    className="w-full bg-[#1e293b] rounded-2xl pl-11 pr-10 py-3 text-sm text-white border border-slate-800 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  {filters.search && (
+                    <button onClick={() => setFilters(f => ({ ...f, search: '' }))} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"><XMarkIcon className="w-4 h-4" /></button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <select value={sort.field} onChange={(e) => setSort(s => ({ ...s, field: e.target.value as SortField }))} title="Ordenar por" className="bg-[#1e293b] rounded-2xl px-4 py-3 text-xs font-bold text-slate-300 border border-slate-800 outline-none focus:ring-2 focus:ring-indigo-500">
+                    {(Object.keys(SORT_LABELS) as SortField[]).map(field => <option key={field} value={field}>{SORT_LABELS[field]}</option>)}
+                  </select>
+                  <button onClick={() => setSort(s => ({ ...s, direction: s.direction === 'asc' ? 'desc' : 'asc' }))} title={sort.direction === 'asc' ? 'Ascendente' : 'Descendente'} className="bg-[#1e293b] rounded-2xl px-3 border border-slate-800 text-slate-400 hover:text-white transition-colors">
+                    {sort.direction === 'asc' ? <BarsArrowUpIcon className="w-5 h-5" /> : <BarsArrowDownIcon className="w-5 h-5" />}
+                  </button>
+                </div>
+              </div>
+              {ignoredSearchFilters.length > 0 && (
+                <p className="px-4 text-[10px] font-black text-amber-400 uppercase tracking-widest">Filtros ignorados (valor inválido ou ambíguo): {ignoredSearchFilters.join(', ')}</p>
+              )}
+              {(filters.search || activeFilterCount > 0) && (
+                <p className="px-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">{sortedTransactions.length} de {transactions.length} movimentos</p>
+              )}
+              <div>
                 {sortedTransactions.length === 0 ? (
                   <div className="bg-[#1e293b] p-10 rounded-[2rem] border border-dashed border-slate-800 text-center text-slate-500 font-bold uppercase tracking-widest text-xs">
-                    Nenhuma transação registada.
+                    {transactions.length === 0 ? 'Nenhuma transação registada.' : 'Nenhum movimento corresponde à pesquisa.'}
                   </div>
                 ) : (
-                  sortedTransactions.map((t) => (
-                    <div key={t.id} className="group bg-[#1e293b] p-5 md:p-7 rounded-[1.5rem] md:rounded-[2rem] border border-slate-800/40 flex flex-wrap sm:flex-nowrap items-center justify-between gap-4 hover:border-slate-600 transition-all shadow-sm">
+                  <VirtualList items={sortedTransactions} getKey={t => t.id} estimatedHeight={104} gap={20} renderItem={(t) => (
+                    <div className="group bg-[#1e293b] p-5 md:p-7 rounded-[1.5rem] md:rounded-[2rem] border border-slate-800/40 flex flex-wrap sm:flex-nowrap items-center justify-between gap-4 hover:border-slate-600 transition-all shadow-sm">
                       <div className="flex items-center gap-4 md:gap-6">
-                        <div className={`w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center flex-shrink-0 ${t.type === TransactionType.INCOME ? 'bg-emerald-500/10 text-emerald-400' : 'bg-rose-500/10 text-rose-400'}`}>
-                          {t.type === TransactionType.INCOME ? <ArrowTrendingUpIcon className="w-6 h-6 md:w-8 md:h-8"/> : <ArrowTrendingDownIcon className="w-6 h-6 md:w-8 md:h-8"/>}
+                        <div className={`w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl flex items-center justify-center flex-shrink-0 ${t.type === TransactionType.INCOME ? 'bg-emerald-500/10 text-emerald-400' : t.type === TransactionType.TRANSFER ? 'bg-sky-500/10 text-sky-400' : 'bg-rose-500/10 text-rose-400'}`}>
+                          {t.type === TransactionType.INCOME ? <ArrowTrendingUpIcon className="w-6 h-6 md:w-8 md:h-8"/> : t.type === TransactionType.TRANSFER ? <ArrowsRightLeftIcon className="w-6 h-6 md:w-8 md:h-8"/> : <ArrowTrendingDownIcon className="w-6 h-6 md:w-8 md:h-8"/>}
                         </div>
                         <div>
-                          <p className="text-base md:text-lg font-black text-white uppercase truncate max-w-[150px] md:max-w-none">{t.category}</p>
-                          <p className="text-[10px] md:text-xs font-bold text-slate-500 truncate">{t.description || 'S/ desc'} • {t.date}</p>
+                          <p className="text-base md:text-lg font-black text-white uppercase truncate max-w-[150px] md:max-w-none" title={t.splits?.length ? t.splits.map(l => `${categoryName(categories, l.categoryId)}: ${formatMoney(l.amount, transactionCurrency(t, accounts))}`).join('\n') : undefined}>
+                            {t.splits?.length ? t.splits.map(l => categoryName(categories, l.categoryId)).join(' + ') : categoryName(categories, t.categoryId)}
+                          </p>
+                          <p className="text-[10px] md:text-xs font-bold text-slate-500 truncate flex items-center gap-1">
+                            {t.recurringRuleId && <ArrowPathIcon className="w-3 h-3 flex-shrink-0" title="Recorrente" />}
+                            {t.description || 'S/ desc'} • {t.date} • {t.type === TransactionType.TRANSFER ? `${accountName(t.accountId)} → ${accountName(t.toAccountId)}` : accountName(t.accountId)}
+                            {t.paidBy && t.type !== TransactionType.TRANSFER && ` • ${memberName(t.paidBy)} pagou${t.splitBetween?.length ? ` (÷${t.splitBetween.length})` : ''}`}
+                            {t.tags?.map(tag => <span key={tag} className="text-indigo-400/80 ml-1">#{tag}</span>)}
+                          </p>
                         </div>
                       </div>
                       <div className="flex items-center justify-between sm:justify-end w-full sm:w-auto gap-6 md:gap-10">
-                        <p className={`text-lg md:text-xl font-black ${t.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-rose-400'}`}>
-                          {t.type === TransactionType.INCOME ? '+' : '-'} {t.amount.toFixed(2)}€
+                        <p className={`text-lg md:text-xl font-black ${t.type === TransactionType.INCOME ? 'text-emerald-400' : t.type === TransactionType.TRANSFER ? 'text-sky-400' : 'text-rose-400'}`}>
+                          {t.type === TransactionType.INCOME ? '+ ' : t.type === TransactionType.EXPENSE ? '- ' : ''}{formatMoney(t.amount, transactionCurrency(t, accounts))}
+                          {transactionCurrency(t, accounts) !== baseCurrency && (
+                            <span className="block text-[10px] md:text-xs font-bold text-slate-500 text-right">
+                              ≈ {formatCurrency(convertAmount(t.amount, transactionCurrency(t, accounts), baseCurrency, t.date, exchangeRates))}
+                            </span>
+                          )}
                         </p>
                         <div className="flex gap-2">
-                          <button onClick={() => { setEditingTransaction(t); setIsModalOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4"/></button>
-                          <button onClick={() => setTransactions(p => p.filter(x => x.id !== t.id))} className="p-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-4 h-4"/></button>
+                          <button onClick={() => { setEditingTransaction(t); setRecurringEditScope('single'); setFormType(t.type); setIsSplitForm(!!t.splits?.length); setIsModalOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4"/></button>
+                          <button onClick={() => handleDeleteTransactions(new Set([t.id]), `Apagar movimento "${t.description || categoryName(categories, t.categoryId)}"`)} className="p-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-4 h-4"/></button>
                         </div>
                       </div>
                     </div>
-                  ))
+                  )} />
                 )}
               </div>
             </div>
           </div>
 
           <div className="col-span-12 lg:col-span-4">
-            <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 p-8 md:p-12 rounded-[2rem] md:rounded-[3.5rem] text-white shadow-2xl lg:sticky lg:top-12 flex flex-col min-h-[400px]">
-              <div className="flex items-center gap-4 mb-8">
-                <div className="w-10 h-10 bg-white/10 rounded-xl flex items-center justify-center backdrop-blur-md">
-                  <SparklesIcon className="w-6 h-6 text-white" />
-                </div>
-                <h3 className="text-2xl md:text-3xl font-black tracking-tighter uppercase leading-none">AI Insights</h3>
-              </div>
-              <p className="text-indigo-100 text-sm md:text-lg font-medium leading-snug mb-10 md:mb-12 opacity-90 italic">Análise baseada nos seus dados reais.</p>
-              <button disabled={loadingInsights} onClick={async () => { setLoadingInsights(true); const res = await getFinancialInsights(transactions); setInsights(res); setLoadingInsights(false); }} className="w-full bg-white py-4 md:py-5 rounded-2xl md:rounded-[1.75rem] text-indigo-700 font-black text-xs md:text-sm uppercase tracking-widest hover:bg-indigo-50 transition-all active:scale-95">
-                {loadingInsights ? 'A analisar...' : 'Gerar Análise'}
-              </button>
-              {insights && (
-                <div className="flex-1 bg-indigo-950/40 p-6 md:p-8 rounded-[1.5rem] md:rounded-[2rem] border border-white/5 text-xs md:text-sm leading-loose text-indigo-50 italic overflow-y-auto mt-8">
-                  <div className="whitespace-pre-wrap">{insights}</div>
-                </div>
-              )}
-            </div>
+            <InsightsPanel
+              providerLabel={PROVIDER_LABELS[aiSettings.provider]}
+              accounts={accounts}
+              categories={categories}
+              formatCurrency={formatCurrency}
+              onGenerate={() => getFinancialInsights(aiSettings, convertedTransactions, categories, baseCurrency)}
+              onAsk={(question) => askFinances(aiSettings, question, { transactions: convertedTransactions, accounts, categories: categoryList, currency: baseCurrency, today: todayISO() })}
+              onShowTransactions={showTransactions}
+              onOpenSettings={() => setIsAiSettingsOpen(true)}
+            />
           </div>
         </div>
       </main>
 
-      {/* Modal Importação Rápida */}
+      {/* Modal Importação */}
       {isImportModalOpen && (
-        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 md:p-6 animate-fade-in">
-          <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={() => setIsImportModalOpen(false)}></div>
-          <div className="relative bg-[#1e293b] w-full max-w-sm rounded-[2rem] md:rounded-[2.5rem] p-8 md:p-10 shadow-2xl border border-slate-800">
-            <div className="flex items-center gap-3 mb-8 md:mb-10">
-              <ArrowDownTrayIcon className="w-5 h-5 text-indigo-400" />
-              <h3 className="text-lg font-bold text-white tracking-tight">Importação Rápida</h3>
-            </div>
-            <div className="space-y-6">
-              <div className="space-y-2">
-                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest ml-1">Entradas</label>
-                <div onClick={() => incomeInputRef.current?.click()} className="border-2 border-dashed border-slate-700/50 rounded-[1.25rem] p-4 flex items-center gap-4 cursor-pointer hover:bg-slate-800/40 transition-all">
-                  <DocumentArrowUpIcon className="w-5 h-5 text-slate-400" />
-                  <span className="text-[10px] md:text-xs font-semibold text-slate-400 truncate">{incomeFile ? incomeFile.name : 'Selecione o JSON...'}</span>
-                </div>
-                <input type="file" ref={incomeInputRef} onChange={(e) => setIncomeFile(e.target.files?.[0] || null)} accept=".json" className="hidden" />
-              </div>
-              <div className="space-y-2">
-                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest ml-1">Saídas</label>
-                <div onClick={() => expenseInputRef.current?.click()} className="border-2 border-dashed border-slate-700/50 rounded-[1.25rem] p-4 flex items-center gap-4 cursor-pointer hover:bg-slate-800/40 transition-all">
-                  <DocumentArrowUpIcon className="w-5 h-5 text-slate-400" />
-                  <span className="text-[10px] md:text-xs font-semibold text-slate-400 truncate">{expenseFile ? expenseFile.name : 'Selecione o JSON...'}</span>
-                </div>
-                <input type="file" ref={expenseInputRef} onChange={(e) => setExpenseFile(e.target.files?.[0] || null)} accept=".json" className="hidden" />
-              </div>
-              <button onClick={processImportFiles} disabled={!incomeFile && !expenseFile} className="w-full bg-[#243147] py-4 md:py-5 rounded-[1.25rem] text-[#475569] font-black text-[10px] md:text-xs uppercase tracking-[0.1em] transition-all mt-4 hover:bg-indigo-600 hover:text-white disabled:opacity-50">
-                Processar Arquivos
-              </button>
-            </div>
-          </div>
-        </div>
+        <ImportModal
+          existing={transactions}
+          categories={categoryList}
+          rules={categorizationRules}
+          accounts={accounts}
+          profiles={importProfiles}
+          formatCurrency={formatCurrency}
+          onSaveProfile={(profile) => setImportProfiles(p => [...p, profile])}
+          onDeleteProfile={(id) => setImportProfiles(p => p.filter(x => x.id !== id))}
+          onImport={handleImport}
+          onSuggestCategories={(items) => suggestCategories(aiSettings, items, entryContext())}
+          onClose={() => setIsImportModalOpen(false)}
+        />
       )}
 
       {/* Modal Lançamento */}
@@ -453,38 +1129,359 @@ const App: React.FC = () => {
           <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={() => setIsModalOpen(false)}></div>
           <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
             <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">{editingTransaction ? 'Editar' : 'Registo'}</h3>
-            <form onSubmit={(e) => {
+            <form ref={entryFormRef} onSubmit={(e) => {
               e.preventDefault();
               const fd = new FormData(e.currentTarget);
-              const val = {
+              const type = fd.get('type') as TransactionType;
+              const isTransferForm = type === TransactionType.TRANSFER;
+              const parsedAmount = validateAmountInput(fd.get('amount') as string);
+              if ('error' in parsedAmount) {
+                alert(parsedAmount.error);
+                return;
+              }
+              const val: Transaction = {
+                ...editingTransaction,
                 id: editingTransaction?.id || Math.random().toString(36).substr(2, 9),
-                type: fd.get('type') as TransactionType,
-                amount: parseFloat(fd.get('amount') as string),
-                category: fd.get('category') as string,
+                type,
+                amount: parsedAmount.amount,
+                categoryId: isTransferForm ? TRANSFER_CATEGORY_ID : fd.get('categoryId') as string,
                 date: fd.get('date') as string,
                 description: fd.get('description') as string,
+                accountId: fd.get('accountId') as string,
+                toAccountId: isTransferForm ? fd.get('toAccountId') as string : undefined,
               };
-              setTransactions(p => editingTransaction ? p.map(x => x.id === val.id ? val : x) : [val, ...p]);
+              // Só se guarda a moeda quando difere da moeda da conta
+              const currency = fd.get('currency') as string;
+              val.currency = currency !== accounts.find(a => a.id === val.accountId)?.currency ? currency : undefined;
+              if (isTransferForm && val.toAccountId === val.accountId) {
+                alert("A conta de destino tem de ser diferente da conta de origem.");
+                return;
+              }
+              const tags = parseTags(fd.get('tags') as string);
+              val.tags = tags.length ? tags : undefined;
+              // As transferências de acerto mantêm os membros com que foram criadas
+              if (!isTransferForm && members.length > 0) {
+                val.paidBy = (fd.get('paidBy') as string) || undefined;
+                val.splitBetween = val.paidBy ? fd.getAll('splitBetween') as string[] : undefined;
+                if (val.paidBy && val.splitBetween!.length === 0) {
+                  alert("Escolha pelo menos um membro para dividir a despesa.");
+                  return;
+                }
+              }
+              val.splits = undefined;
+              if (isSplitForm && !isTransferForm) {
+                const amounts = fd.getAll('splitAmount');
+                const notes = fd.getAll('splitDescription');
+                const splits = fd.getAll('splitCategory').map((categoryId, i) => {
+                  const money = parseMoney(amounts[i] as string);
+                  return {
+                    categoryId: categoryId as string,
+                    amount: money === null ? NaN as Money : money,
+                    description: (notes[i] as string).trim() || undefined
+                  };
+                });
+                const invalid = validateSplits(val.amount, splits);
+                if (invalid) {
+                  alert(invalid);
+                  return;
+                }
+                val.splits = splits;
+                val.categoryId = primaryCategory(splits);
+              }
+              const ruleId = editingTransaction?.recurringRuleId;
+              if (ruleId && recurringEditScope === 'future') {
+                const changes = { type: val.type, amount: val.amount, categoryId: val.categoryId, description: val.description };
+                const fromDate = editingTransaction.occurrenceDate || editingTransaction.date;
+                commitChange('Editar ocorrências futuras', {
+                  recurringRules: recurringRules.map(r => r.id === ruleId ? { ...r, ...changes } : r),
+                  transactions: applyToFutureOccurrences(transactions, ruleId, fromDate, changes).map(x => x.id === val.id ? val : x)
+                });
+              } else {
+                commitChange(editingTransaction ? 'Editar movimento' : 'Novo movimento', { transactions: editingTransaction ? transactions.map(x => x.id === val.id ? val : x) : [val, ...transactions] });
+              }
+              // Uma correção manual de categoria pode dar origem a uma regra
+              if (editingTransaction && !isTransferForm && !val.splits && editingTransaction.categoryId !== val.categoryId) {
+                setRuleSuggestion(suggestRuleFromCorrection(categorizationRules, val));
+              }
               setIsModalOpen(false);
             }} className="space-y-6">
+              {!editingTransaction && (
+                <QuickEntry onParse={(text) => parseQuickEntry(aiSettings, text, entryContext())} onApply={applyParsedEntry} />
+              )}
+              {editingTransaction?.recurringRuleId && (
+                <div className="grid grid-cols-2 gap-2 bg-slate-800/40 p-2 rounded-2xl border border-slate-700">
+                  {([['single', 'Apenas esta'], ['future', 'Esta e futuras']] as const).map(([scope, label]) => (
+                    <button key={scope} type="button" onClick={() => setRecurringEditScope(scope)} className={`py-3 rounded-xl text-[10px] md:text-xs font-black uppercase tracking-widest transition-all ${recurringEditScope === scope ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
-                <select name="type" defaultValue={editingTransaction?.type || TransactionType.EXPENSE} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                <select name="type" value={formType} onChange={(e) => setFormType(e.target.value as TransactionType)} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
                   <option value={TransactionType.EXPENSE}>Saída</option>
                   <option value={TransactionType.INCOME}>Entrada</option>
+                  <option value={TransactionType.TRANSFER}>Transferência</option>
                 </select>
-                <input type="number" step="0.01" name="amount" required placeholder="0.00 €" defaultValue={editingTransaction?.amount} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+                <div className="flex gap-2">
+                  <input type="text" inputMode="decimal" name="amount" required placeholder="0,00" defaultValue={editingTransaction ? fromMoney(editingTransaction.amount).toFixed(2) : undefined} className="min-w-0 flex-1 bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+                  <select name="currency" defaultValue={editingTransaction ? transactionCurrency(editingTransaction, accounts) : accounts.find(a => a.id === (filters.account !== 'all' ? filters.account : DEFAULT_ACCOUNT_ID))?.currency || REFERENCE_CURRENCY} className="bg-slate-800/40 rounded-2xl px-3 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                    {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
               </div>
               <input type="date" name="date" required defaultValue={editingTransaction?.date || new Date().toISOString().split('T')[0]} className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
-              <select name="category" defaultValue={editingTransaction?.category} className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
-                {categories.map(c => <option key={c} value={c}>{c}</option>)}
-              </select>
-              <textarea name="description" placeholder="Detalhes..." defaultValue={editingTransaction?.description} className="w-full bg-slate-800/40 rounded-2xl p-5 md:p-6 text-white border border-slate-700 min-h-[100px] resize-none outline-none focus:ring-2 focus:ring-indigo-500" />
+              <div className={`grid grid-cols-1 gap-4 md:gap-6 ${formType === TransactionType.TRANSFER ? 'sm:grid-cols-2' : ''}`}>
+                <select name="accountId" defaultValue={editingTransaction?.accountId || (filters.account !== 'all' ? filters.account : DEFAULT_ACCOUNT_ID)} title="Conta" className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+                {formType === TransactionType.TRANSFER && (
+                  <select name="toAccountId" defaultValue={editingTransaction?.toAccountId || accounts.find(a => a.id !== (editingTransaction?.accountId || DEFAULT_ACCOUNT_ID))?.id} title="Conta de destino" className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                    {accounts.map(a => <option key={a.id} value={a.id}>→ {a.name}</option>)}
+                  </select>
+                )}
+              </div>
+              {formType !== TransactionType.TRANSFER && (
+                <div className="space-y-2">
+                  {isSplitForm ? (
+                    <SplitEditor categories={categoryList} initial={editingTransaction?.splits || []} />
+                  ) : (
+                    <select name="categoryId" defaultValue={editingTransaction?.categoryId} onChange={() => { categoryTouched.current = true; }} className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                      {categoryList.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+                    </select>
+                  )}
+                  <button type="button" onClick={() => setIsSplitForm(s => !s)} className="text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-white transition-colors ml-1">
+                    {isSplitForm ? 'Uma só categoria' : 'Dividir por categorias'}
+                  </button>
+                </div>
+              )}
+              <textarea name="description" placeholder="Detalhes..." defaultValue={editingTransaction?.description} onBlur={(e) => {
+                if (editingTransaction || categoryTouched.current) return;
+                const form = e.currentTarget.form!;
+                const fd = new FormData(form);
+                const rule = findMatchingRule(categorizationRules, {
+                  type: fd.get('type') as TransactionType,
+                  amount: parseMoney(fd.get('amount') as string) || 0 as Money,
+                  description: e.currentTarget.value
+                });
+                const categorySelect = form.elements.namedItem('categoryId') as HTMLSelectElement | null;
+                if (rule && categorySelect) categorySelect.value = rule.categoryId;
+              }} className="w-full bg-slate-800/40 rounded-2xl p-5 md:p-6 text-white border border-slate-700 min-h-[100px] resize-none outline-none focus:ring-2 focus:ring-indigo-500" />
+              <input name="tags" placeholder="Etiquetas (ex.: férias-2026, reembolsável)" defaultValue={editingTransaction?.tags?.join(', ')} className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+              {formType !== TransactionType.TRANSFER && members.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+                  <select name="paidBy" defaultValue={editingTransaction?.paidBy || ''} title="Pago por" className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                    <option value="">Não partilhado</option>
+                    {members.map(m => <option key={m.id} value={m.id}>Pago por {m.name}</option>)}
+                  </select>
+                  <div className="flex flex-wrap items-center gap-3 px-1">
+                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Dividir entre</span>
+                    {members.map(m => (
+                      <label key={m.id} className="flex items-center gap-2 text-xs font-bold text-slate-300">
+                        <input type="checkbox" name="splitBetween" value={m.id} defaultChecked={editingTransaction?.splitBetween ? editingTransaction.splitBetween.includes(m.id) : true} className="accent-indigo-500" />
+                        {m.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
               <button type="submit" className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Confirmar</button>
             </form>
           </div>
         </div>
       )}
 
+      {/* Modal Categorias e Orçamentos */}
+      {isCategoryModalOpen && (
+        <CategoryModal
+          categories={categories}
+          budgets={budgets}
+          usageOf={(id) => categoryUsage(trackedData, id)}
+          onCategoriesChange={handleCategoriesChange}
+          onRename={handleRenameCategory}
+          onMerge={handleMergeCategory}
+          onBudgetsChange={(next) => commitChange('Alterar orçamentos', { budgets: next })}
+          onClose={() => setIsCategoryModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Contas */}
+      {isAccountsModalOpen && (
+        <AccountsModal
+          balances={accountBalances}
+          transactions={transactions}
+          onSave={(account) => updateAccounts(accounts.some(a => a.id === account.id) ? accounts.map(a => a.id === account.id ? account : a) : [...accounts, account])}
+          onDelete={(id) => updateAccounts(accounts.filter(a => a.id !== id))}
+          onClose={() => setIsAccountsModalOpen(false)}
+        />
+      )}
+
+      {isAiSettingsOpen && (
+        <AiSettingsModal
+          settings={aiSettings}
+          onSave={setAiSettings}
+          onClose={() => setIsAiSettingsOpen(false)}
+        />
+      )}
+
+      {isGoalsModalOpen && (
+        <GoalsModal
+          progress={goalsProgress}
+          accounts={accounts}
+          categories={categoryList}
+          formatCurrency={formatCurrency}
+          onSave={(goal) => commitChange(`Guardar objetivo "${goal.name}"`, { goals: goals.some(g => g.id === goal.id) ? goals.map(g => g.id === goal.id ? goal : g) : [...goals, goal] })}
+          onDelete={(id) => commitChange(`Apagar objetivo "${goals.find(g => g.id === id)?.name}"`, { goals: goals.filter(g => g.id !== id) })}
+          onClose={() => setIsGoalsModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Moedas */}
+      {isRatesModalOpen && (
+        <ExchangeRatesModal
+          rates={exchangeRates}
+          baseCurrency={baseCurrency}
+          missingCurrencies={missingCurrencies}
+          onRatesChange={setExchangeRates}
+          onBaseCurrencyChange={setBaseCurrency}
+          onClose={() => setIsRatesModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Regras de Categorização */}
+      {isRulesModalOpen && (
+        <CategorizationRulesModal
+          rules={categorizationRules}
+          categories={categoryList}
+          transactions={transactions}
+          onRulesChange={(next) => commitChange('Alterar regras de categorização', { categorizationRules: next })}
+          onApplyChanges={handleApplyCategoryChanges}
+          onClose={() => setIsRulesModalOpen(false)}
+        />
+      )}
+
+      {/* Sugestão de regra após correção */}
+      {storageIssue && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[120] w-[calc(100%-2rem)] max-w-lg bg-[#1e293b] border border-amber-500/40 rounded-2xl shadow-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-4 animate-fade-in">
+          <p className="text-xs text-amber-300 font-bold flex-1">{storageIssue.message}</p>
+          <button onClick={() => setStorageIssue(null)} className="px-4 py-2 rounded-xl text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-white">Fechar</button>
+        </div>
+      )}
+
+      {undoToast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[130] w-[calc(100%-2rem)] max-w-lg bg-[#1e293b] border border-slate-600 rounded-2xl shadow-2xl p-4 flex items-center gap-4 animate-fade-in">
+          <p className="text-xs text-slate-300 font-bold flex-1 truncate">{undoToast.action}</p>
+          <button onClick={handleUndo} className="px-4 py-2 rounded-xl bg-indigo-600 text-[10px] font-black text-white uppercase tracking-widest hover:bg-indigo-500">Anular</button>
+          <button onClick={() => setUndoToast(null)} className="text-slate-500 hover:text-white"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      {isAuditModalOpen && <AuditLogModal entries={auditLog} categories={categories} onClose={() => setIsAuditModalOpen(false)} />}
+
+      {isExportModalOpen && (
+        <ExportModal
+          transactionCount={sortedTransactions.length}
+          years={transactionYears}
+          onExportSheet={exportSheet}
+          onExportPdf={exportPdf}
+          onExportBackup={exportData}
+          onClose={() => setIsExportModalOpen(false)}
+        />
+      )}
+
+      {isVaultModalOpen && (
+        <VaultModal
+          enabled={isVaultEnabled}
+          autoLockMinutes={AUTO_LOCK_MINUTES}
+          onEnable={handleEnableVault}
+          onChangePassphrase={handleChangePassphrase}
+          onDisable={handleDisableVault}
+          onLockNow={handleLock}
+          onClose={() => setIsVaultModalOpen(false)}
+        />
+      )}
+
+      {ruleSuggestion && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[120] w-[calc(100%-2rem)] max-w-lg bg-[#1e293b] border border-indigo-500/40 rounded-2xl shadow-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-4 animate-fade-in">
+          <p className="text-xs text-slate-300 font-bold flex-1">
+            Criar regra: "{ruleSuggestion.pattern}" → <span className="text-indigo-400">{categoryName(categories, ruleSuggestion.categoryId)}</span>?
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => setRuleSuggestion(null)} className="px-4 py-2 rounded-xl text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-white">Dispensar</button>
+            <button onClick={() => { commitChange(`Criar regra "${ruleSuggestion.pattern}"`, { categorizationRules: [ruleSuggestion, ...categorizationRules] }); setRuleSuggestion(null); }} className="px-4 py-2 rounded-xl bg-indigo-600 text-[10px] font-black text-white uppercase tracking-widest hover:bg-indigo-500">Criar Regra</button>
+          </div>
+        </div>
+      )}
+
+      {/* Modal Recorrentes */}
+      {isRecurringModalOpen && (
+        <RecurringRulesModal
+          rules={recurringRules}
+          categories={categoryList}
+          accounts={accounts}
+          formatCurrency={formatCurrency}
+          onSave={handleSaveRecurringRule}
+          onDelete={handleDeleteRecurringRule}
+          onToggle={(id) => {
+            const rule = recurringRules.find(r => r.id === id)!;
+            commitChange(`${rule.active ? 'Pausar' : 'Retomar'} regra recorrente "${rule.description || categoryName(categories, rule.categoryId)}"`, { recurringRules: recurringRules.map(r => r.id === id ? { ...r, active: !r.active } : r) });
+          }}
+          onClose={() => setIsRecurringModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Subscrições */}
+      {isSubscriptionsModalOpen && (
+        <SubscriptionsModal
+          subscriptions={subscriptions}
+          categories={categoryList}
+          taggedIds={new Set(transactions.filter(t => t.tags?.includes(SUBSCRIPTION_TAG)).map(t => t.id))}
+          formatCurrency={formatCurrency}
+          onTag={(s) => commitChange(`Etiquetar subscrição "${s.description}"`, { transactions: tagSubscription(transactions, s) })}
+          onCategorize={(s, categoryId) => commitChange(`Categorizar subscrição "${s.description}"`, { transactions: categorizeSubscription(transactions, s, categoryId) })}
+          onShowTransactions={(s) => {
+            setIsSubscriptionsModalOpen(false);
+            showTransactions({ ...EMPTY_FILTERS, search: subscriptionQuery(s) });
+          }}
+          onClose={() => setIsSubscriptionsModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Agregado */}
+      {isHouseholdModalOpen && (
+        <HouseholdModal
+          members={members}
+          balances={memberBalances}
+          settlements={settlements}
+          accounts={accounts}
+          transactions={transactions}
+          formatCurrency={formatCurrency}
+          onSave={(member) => updateMembers(members.some(m => m.id === member.id) ? members.map(m => m.id === member.id ? member : m) : [...members, member])}
+          onDelete={(id) => {
+            updateMembers(members.filter(m => m.id !== id));
+            if (filters.member === id) setFilters(f => ({ ...f, member: 'all' }));
+          }}
+          onSettle={handleSettle}
+          onClose={() => setIsHouseholdModalOpen(false)}
+        />
+      )}
+
+      {/* Modal Sincronizar */}
+      {isSyncModalOpen && (
+        <SyncModal
+          sync={sync}
+          categories={categories}
+          folderSupported={!!syncFolder}
+          onRename={(deviceName) => setSync(s => ({ ...s, deviceName }))}
+          onExport={exportChangeset}
+          onImportFile={importChangeset}
+          onChooseFolder={chooseSyncFolder}
+          onSyncFolder={syncWithFolder}
+          onResolve={handleResolveConflict}
+          onClose={() => setIsSyncModalOpen(false)}
+        />
+      )}
+
       {/* Modal Qualidade de Dados */}
       {isDataQualityModalOpen && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
@@ -496,32 +1493,42 @@ const App: React.FC = () => {
               {/* Duplicados: Transações */}
               <section className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Movimentos Duplicados ({duplicateTransactions.length})</h4>
-                  {duplicateTransactions.length > 0 && (
+                  <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Movimentos Duplicados ({duplicatePairs.length})</h4>
+                  {duplicatePairs.some(d => d.confidence >= HIGH_CONFIDENCE) && (
                     <button 
-                      onClick={() => setTransactions(p => p.filter(t => !duplicateTransactions.find(d => d.id === t.id)))}
+                      onClick={() => {
+                        const ids = new Set(duplicatePairs.filter(d => d.confidence >= HIGH_CONFIDENCE).map(d => d.duplicate.id));
+                        handleDeleteTransactions(ids, `Remover ${ids.size} duplicados prováveis`);
+                      }}
+                      title={`Remove os pares com confiança igual ou superior a ${HIGH_CONFIDENCE * 100}%`}
                       className="text-[10px] font-black text-rose-400 uppercase tracking-widest hover:text-rose-300"
                     >
-                      Remover Todos
+                      Remover Prováveis
                     </button>
                   )}
                 </div>
-                {duplicateTransactions.length === 0 ? (
+                {duplicatePairs.length === 0 ? (
                   <p className="text-sm text-slate-400 italic">Nenhum movimento duplicado encontrado.</p>
                 ) : (
                   <div className="grid gap-3">
-                    {duplicateTransactions.slice(0, 5).map(t => (
-                      <div key={t.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between">
-                        <div>
-                          <p className="text-sm font-bold text-white">{t.description || 'Sem descrição'}</p>
-                          <p className="text-[10px] text-slate-500 uppercase font-black">{t.date} • {t.category} • {formatCurrency(t.amount)}</p>
+                    {duplicatePairs.slice(0, 5).map(({ original, duplicate: t, confidence }) => (
+                      <div key={t.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="text-sm font-bold text-white truncate">{t.description || 'Sem descrição'}</p>
+                          <p className="text-[10px] text-slate-500 uppercase font-black">{t.date} • {categoryName(categories, t.categoryId)} • {formatCurrency(t.amount)}</p>
+                          <p className="text-[10px] text-slate-600 uppercase font-black truncate">Semelhante a: {original.description || 'Sem descrição'} • {original.date}</p>
+                        </div>
+                        <div className="flex items-center gap-4 flex-shrink-0">
+                          <span className={`text-[10px] font-black px-3 py-1 rounded-full ${confidence >= HIGH_CONFIDENCE ? 'bg-rose-500/10 text-rose-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                            {Math.round(confidence * 100)}%
+                          </span>
+                          <button onClick={() => handleDeleteTransactions(new Set([t.id]), `Apagar duplicado "${t.description || categoryName(categories, t.categoryId)}"`)} className="text-rose-400 hover:text-rose-300">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
                         </div>
-                        <button onClick={() => setTransactions(p => p.filter(x => x.id !== t.id))} className="text-rose-400 hover:text-rose-300">
-                          <TrashIcon className="w-4 h-4" />
-                        </button>
                       </div>
                     ))}
-                    {duplicateTransactions.length > 5 && <p className="text-[10px] text-slate-500 text-center uppercase font-black">E mais {duplicateTransactions.length - 5} duplicados...</p>}
+                    {duplicatePairs.length > 5 && <p className="text-[10px] text-slate-500 text-center uppercase font-black">E mais {duplicatePairs.length - 5} duplicados...</p>}
                   </div>
                 )}
               </section>
@@ -533,16 +1540,18 @@ const App: React.FC = () => {
                   <p className="text-sm text-slate-400 italic">Nenhuma categoria duplicada encontrada.</p>
                 ) : (
                   <div className="grid gap-3">
-                    {duplicateCategories.map(c => (
-                      <div key={c} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between">
-                        <p className="text-sm font-bold text-white">{c}</p>
+                    {duplicateCategories.map(([keep, ...others]) => (
+                      <div key={keep.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between">
+                        <p className="text-sm font-bold text-white">{[keep, ...others].map(c => c.name).join(' / ')}</p>
                         <button 
                           onClick={() => {
-                            const normalized = c.toLowerCase().trim();
-                            setCategories(p => {
-                              const filtered = p.filter(cat => cat.toLowerCase().trim() !== normalized);
-                              return [...filtered, c]; // Mantém apenas uma instância
+                            // Fica a primeira; os movimentos e regras das restantes passam para ela
+                            let next = trackedData;
+                            others.forEach(c => {
+                              next = { ...next, ...replaceCategoryReferences(next, c.id, keep.id), categories: mergeCategories(next.categories, c.id, keep.id) };
                             });
+                            commitChange(`Fundir categoria "${keep.name}"`, next);
+                            setFilters(f => others.reduce((acc, c) => replaceFilterCategory(acc, c.id, keep.id), f));
                           }} 
                           className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300"
                         >
@@ -562,68 +1571,21 @@ const App: React.FC = () => {
 
       {/* Modal Filtros */}
       {isFilterModalOpen && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
-          <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={() => setIsFilterModalOpen(false)}></div>
-          <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
-            <div className="flex items-center justify-between mb-8 md:mb-10">
-              <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Filtrar Movimentos</h3>
-              <button onClick={() => {
-                setFilters({ category: 'all', startDate: '', endDate: '', type: 'all' });
-                setIsFilterModalOpen(false);
-              }} className="text-[10px] font-black text-rose-400 uppercase tracking-widest hover:text-rose-300 transition-colors">Limpar Filtros</button>
-            </div>
-            <div className="space-y-6">
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
-                <div className="space-y-2">
-                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Tipo</label>
-                  <select 
-                    value={filters.type} 
-                    onChange={(e) => setFilters(f => ({ ...f, type: e.target.value as any }))}
-                    className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
-                  >
-                    <option value="all">Todos os Tipos</option>
-                    <option value={TransactionType.INCOME}>Entradas</option>
-                    <option value={TransactionType.EXPENSE}>Saídas</option>
-                  </select>
-                </div>
-                <div className="space-y-2">
-                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Categoria</label>
-                  <select 
-                    value={filters.category} 
-                    onChange={(e) => setFilters(f => ({ ...f, category: e.target.value }))}
-                    className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
-                  >
-                    <option value="all">Todas as Categorias</option>
-                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
-                  </select>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
-                <div className="space-y-2">
-                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Data Inicial</label>
-                  <input 
-                    type="date" 
-                    value={filters.startDate} 
-                    onChange={(e) => setFilters(f => ({ ...f, startDate: e.target.value }))}
-                    className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" 
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Data Final</label>
-                  <input 
-                    type="date" 
-                    value={filters.endDate} 
-                    onChange={(e) => setFilters(f => ({ ...f, endDate: e.target.value }))}
-                    className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" 
-                  />
-                </div>
-              </div>
-
-              <button onClick={() => setIsFilterModalOpen(false)} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-4">Aplicar Filtros</button>
-            </div>
-          </div>
-        </div>
+        <FilterModal
+          filters={filters}
+          categories={categoryList}
+          tags={allTags}
+          accounts={accounts}
+          members={members}
+          presets={filterPresets}
+          onChange={setFilters}
+          onSavePreset={(name) => commitChange(`Guardar filtro "${name}"`, { filterPresets: [
+            ...filterPresets.filter(p => p.name !== name),
+            { id: Math.random().toString(36).substr(2, 9), name, filters }
+          ] })}
+          onDeletePreset={(id) => commitChange(`Apagar filtro "${filterPresets.find(p => p.id === id)?.name}"`, { filterPresets: filterPresets.filter(p => p.id !== id) })}
+          onClose={() => setIsFilterModalOpen(false)}
+        />
       )}
     </div>
   );
@@ -26,15 +26,17 @@ filesToCopy.forEach(file => {
   }
 });
 
-// Copiar pasta services se existir
-const servicesPath = path.join(__dirname, 'services');
-if (fs.existsSync(servicesPath)) {
-  const destServices = path.join(distPath, 'services');
-  fs.mkdirSync(destServices);
-  fs.readdirSync(servicesPath).forEach(file => {
-    fs.copyFileSync(path.join(servicesPath, file), path.join(destServices, file));
-  });
-  console.log('Copiada: pasta services');
-}
+// Copiar pastas services e components se existirem
+['services', 'components'].forEach(folder => {
+  const folderPath = path.join(__dirname, folder);
+  if (fs.existsSync(folderPath)) {
+    const destFolder = path.join(distPath, folder);
+    fs.mkdirSync(destFolder);
+    fs.readdirSync(folderPath).forEach(file => {
+      fs.copyFileSync(path.join(folderPath, file), path.join(destFolder, file));
+    });
+    console.log(`Copiada: pasta ${folder}`);
+  }
+});
 
 console.log('Build para mobile concluído com sucesso!');
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Account, AccountBalance, AccountKind, Transaction } from '../types';
+import { ACCOUNT_KIND_LABELS, DEFAULT_ACCOUNT_ID, isAccountInUse } from '../services/accountService';
+import { formatMoney, SUPPORTED_CURRENCIES } from '../services/currencyService';
+import { fromMoney, toMoney } from '../services/moneyService';
+
+interface AccountsModalProps {
+  balances: AccountBalance[];
+  transactions: Transaction[];
+  onSave: (account: Account) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const AccountsModal: React.FC<AccountsModalProps> = ({ balances, transactions, onSave, onDelete, onClose }) => {
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Contas</h3>
+          {!isFormOpen && (
+            <button onClick={() => { setEditingAccount(null); setIsFormOpen(true); }} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">
+              Nova Conta
+            </button>
+          )}
+        </div>
+
+        {isFormOpen ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            onSave({
+              id: editingAccount?.id || Math.random().toString(36).substr(2, 9),
+              name: (fd.get('name') as string).trim(),
+              kind: fd.get('kind') as AccountKind,
+              openingBalance: toMoney(parseFloat(fd.get('openingBalance') as string) || 0),
+              currency: fd.get('currency') as string
+            });
+            setIsFormOpen(false);
+          }} className="space-y-6">
+            <input name="name" required placeholder="Nome da conta" defaultValue={editingAccount?.name} className={inputClass} />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <select name="currency" defaultValue={editingAccount?.currency || 'EUR'} className={inputClass}>
+                {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select name="kind" defaultValue={editingAccount?.kind || 'checking'} className={inputClass}>
+                {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(k => <option key={k} value={k}>{ACCOUNT_KIND_LABELS[k]}</option>)}
+              </select>
+              <input type="number" step="0.01" name="openingBalance" placeholder="Saldo inicial" defaultValue={editingAccount ? fromMoney(editingAccount.openingBalance) : undefined} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+              <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid gap-3">
+            {balances.map(({ account, balance }) => {
+              const locked = account.id === DEFAULT_ACCOUNT_ID || isAccountInUse(account.id, transactions);
+              return (
+                <div key={account.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-white truncate">{account.name}</p>
+                    <p className="text-[10px] text-slate-500 uppercase font-black">{ACCOUNT_KIND_LABELS[account.kind]} • Inicial {formatMoney(account.openingBalance, account.currency)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className={`text-sm font-black mr-2 ${balance >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatMoney(balance, account.currency)}</span>
+                    <button onClick={() => { setEditingAccount(account); setIsFormOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4" /></button>
+                    <button
+                      onClick={() => onDelete(account.id)}
+                      disabled={locked}
+                      title={locked ? 'Contas com movimentos não podem ser apagadas' : 'Apagar conta'}
+                      className="p-2 text-slate-600 hover:text-rose-500 transition-colors disabled:opacity-30 disabled:hover:text-slate-600"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountsModal;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AiProviderKind, AiSettings } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS } from '../services/insightService';
+
+interface AiSettingsModalProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const PROVIDER_HELP: Record<AiProviderKind, string> = {
+  offline: 'A análise é feita no dispositivo, a partir dos totais mensais. Nenhum dado sai do computador.',
+  gemini: 'Os totais mensais e por categoria são enviados à Google. Os movimentos individuais nunca são enviados.',
+  openai: 'Qualquer servidor com a API /chat/completions, incluindo modelos locais (Ollama, LM Studio, llama.cpp).'
+};
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [provider, setProvider] = useState<AiProviderKind>(settings.provider);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">Definições de IA</h3>
+
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          const fd = new FormData(e.currentTarget);
+          onSave({
+            provider,
+            model: ((fd.get('model') as string) || '').trim(),
+            apiKey: ((fd.get('apiKey') as string) || '').trim(),
+            baseUrl: ((fd.get('baseUrl') as string) || settings.baseUrl).trim()
+          });
+          onClose();
+        }} className="space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(PROVIDER_LABELS) as AiProviderKind[]).map(p => (
+              <button
+                key={p}
+                type="button"
+                onClick={() => setProvider(p)}
+                className={`py-3 px-2 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${provider === p ? 'bg-indigo-600 text-white' : 'bg-slate-800/40 text-slate-400 hover:text-white'}`}
+              >
+                {PROVIDER_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-slate-400">{PROVIDER_HELP[provider]}</p>
+
+          {provider !== 'offline' && (
+            <>
+              {provider === 'openai' && (
+                <input name="baseUrl" required placeholder="Endereço (ex.: http://localhost:11434/v1)" defaultValue={settings.baseUrl} className={inputClass} />
+              )}
+              <input
+                key={provider}
+                name="model"
+                placeholder={`Modelo (predefinido: ${DEFAULT_MODELS[provider]})`}
+                defaultValue={provider === settings.provider ? settings.model : ''}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                name="apiKey"
+                autoComplete="off"
+                required={provider === 'gemini'}
+                placeholder={provider === 'gemini' ? 'Chave de API' : 'Chave de API (opcional)'}
+                defaultValue={settings.apiKey}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 uppercase font-black">A chave fica guardada com os restantes dados (cifrada se o cofre estiver ativo).</p>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <button type="button" onClick={onClose} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+            <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { AuditEntry, Category } from '../types';
+import { describeAuditChange } from '../services/historyService';
+
+interface AuditLogModalProps {
+  entries: AuditEntry[];
+  categories: Category[];
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ entries, categories, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const newestFirst = [...entries].reverse();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">Registo de Alterações</h3>
+
+        {newestFirst.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Ainda não há alterações registadas.</p>
+        ) : (
+          <div className="grid gap-2">
+            {newestFirst.slice(0, visible).map(entry => (
+              <div key={entry.id} className="bg-slate-800/40 rounded-xl border border-slate-700">
+                <button onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="w-full px-4 py-3 flex items-center justify-between gap-4 text-left">
+                  <span className="text-sm font-bold text-white truncate">{entry.action}</span>
+                  <span className="text-[10px] text-slate-500 uppercase font-black whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString('pt-PT')} • {entry.changes.length}
+                  </span>
+                </button>
+                {expandedId === entry.id && (
+                  <div className="px-4 pb-3 space-y-1 max-h-60 overflow-y-auto">
+                    {entry.changes.map((change, i) => (
+                      <p key={i} className="text-[11px] text-slate-400 break-words">{describeAuditChange(change, categories)}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {newestFirst.length > visible && (
+              <button onClick={() => setVisible(v => v + PAGE_SIZE)} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 mt-2">
+                Mostrar mais ({newestFirst.length - visible})
+              </button>
+            )}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
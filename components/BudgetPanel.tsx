@@ -0,0 +1,69 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { BudgetState, BudgetStatus, Category, Money } from '../types';
+import { categoryName } from '../services/categoryService';
+
+interface BudgetPanelProps {
+  statuses: BudgetStatus[];
+  categories: Category[];
+  month: string;
+  onMonthChange: (month: string) => void;
+  formatCurrency: (v: Money) => string;
+}
+
+const BAR_COLORS: Record<BudgetState, string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-rose-500'
+};
+
+const TEXT_COLORS: Record<BudgetState, string> = {
+  ok: 'text-emerald-400',
+  warning: 'text-amber-400',
+  exceeded: 'text-rose-400'
+};
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ statuses, categories, month, onMonthChange, formatCurrency }) => (
+  <div className="bg-[#1e293b] p-6 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-slate-800 shadow-2xl">
+    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-10">
+      <h3 className="text-xl md:text-2xl font-black text-white">Orçamentos</h3>
+      <input
+        type="month"
+        value={month}
+        onChange={(e) => e.target.value && onMonthChange(e.target.value)}
+        className="text-[10px] font-black bg-amber-500/10 text-amber-400 px-4 py-1.5 rounded-full uppercase outline-none"
+      />
+    </div>
+    {statuses.length === 0 ? (
+      <div className="text-center py-10 text-slate-500 font-bold uppercase tracking-widest text-xs">
+        Sem orçamentos definidos. Defina limites nas categorias.
+      </div>
+    ) : (
+      <div className="grid gap-5">
+        {statuses.map(s => (
+          <div key={s.categoryId} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs md:text-sm font-bold text-slate-300 uppercase tracking-wider truncate flex items-center gap-2">
+                {s.state !== 'ok' && <ExclamationTriangleIcon className={`w-4 h-4 ${TEXT_COLORS[s.state]}`} />}
+                {categoryName(categories, s.categoryId)}
+              </span>
+              <span className={`text-xs md:text-sm font-black whitespace-nowrap ${TEXT_COLORS[s.state]}`}>
+                {formatCurrency(s.spent)} / {formatCurrency(s.available)} ({Math.round(s.percentUsed)}%)
+              </span>
+            </div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${BAR_COLORS[s.state]}`} style={{ width: `${Math.min(100, s.percentUsed)}%` }}></div>
+            </div>
+            <p className="text-[10px] text-slate-500 uppercase font-black">
+              Projeção: {formatCurrency(s.projected)}
+              {s.projected > s.available && <span className="text-rose-400"> • excede em {formatCurrency(s.projected - s.available as Money)}</span>}
+              {s.carriedOver > 0 && <> • Acumulado: {formatCurrency(s.carriedOver)}</>}
+            </p>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default BudgetPanel;
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUpIcon, ArrowDownIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { CategorizationRule, Category, CategoryChange, Transaction, TransactionType } from '../types';
+import { isValidPattern, previewReapply } from '../services/categorizationService';
+import { fromMoney, toMoney } from '../services/moneyService';
+import { categoryName } from '../services/categoryService';
+
+interface CategorizationRulesModalProps {
+  rules: CategorizationRule[];
+  categories: Category[];
+  transactions: Transaction[];
+  onRulesChange: (rules: CategorizationRule[]) => void;
+  onApplyChanges: (changes: CategoryChange[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const describeRule = (rule: CategorizationRule): string => {
+  const parts = [rule.matchMode === 'regex' ? `/${rule.pattern}/` : `"${rule.pattern}"`];
+  if (rule.type) parts.push(rule.type === TransactionType.INCOME ? 'Entradas' : 'Saídas');
+  if (rule.minAmount !== undefined) parts.push(`≥ ${fromMoney(rule.minAmount)}`);
+  if (rule.maxAmount !== undefined) parts.push(`≤ ${fromMoney(rule.maxAmount)}`);
+  return parts.join(' • ');
+};
+
+const CategorizationRulesModal: React.FC<CategorizationRulesModalProps> = ({ rules, categories, transactions, onRulesChange, onApplyChanges, onClose }) => {
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  const changes = useMemo(() => isPreviewOpen ? previewReapply(rules, transactions) : [], [isPreviewOpen, rules, transactions]);
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onRulesChange(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Regras</h3>
+          {!isFormOpen && !isPreviewOpen && (
+            <div className="flex gap-4">
+              <button onClick={() => setIsPreviewOpen(true)} disabled={rules.length === 0} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-40">
+                Reaplicar
+              </button>
+              <button onClick={() => { setEditingRule(null); setFormError(null); setIsFormOpen(true); }} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">
+                Nova Regra
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isFormOpen ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            const min = fd.get('minAmount') as string;
+            const max = fd.get('maxAmount') as string;
+            const rule: CategorizationRule = {
+              id: editingRule?.id || Math.random().toString(36).substr(2, 9),
+              pattern: (fd.get('pattern') as string).trim(),
+              matchMode: fd.get('matchMode') as CategorizationRule['matchMode'],
+              type: (fd.get('type') as string) ? fd.get('type') as TransactionType : undefined,
+              minAmount: min ? toMoney(parseFloat(min)) : undefined,
+              maxAmount: max ? toMoney(parseFloat(max)) : undefined,
+              categoryId: fd.get('categoryId') as string,
+              enabled: editingRule ? editingRule.enabled : true
+            };
+            if (!isValidPattern(rule)) {
+              setFormError('Expressão inválida.');
+              return;
+            }
+            onRulesChange(editingRule ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule]);
+            setIsFormOpen(false);
+          }} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem] gap-4">
+              <input name="pattern" required placeholder="Texto na descrição (ex.: pingo doce)" defaultValue={editingRule?.pattern} className={inputClass} />
+              <select name="matchMode" defaultValue={editingRule?.matchMode || 'contains'} className={inputClass}>
+                <option value="contains">Contém</option>
+                <option value="regex">Expressão regular</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <select name="type" defaultValue={editingRule?.type || ''} className={inputClass}>
+                <option value="">Qualquer tipo</option>
+                <option value={TransactionType.EXPENSE}>Saída</option>
+                <option value={TransactionType.INCOME}>Entrada</option>
+              </select>
+              <input type="number" step="0.01" name="minAmount" placeholder="Valor mín." defaultValue={editingRule?.minAmount !== undefined ? fromMoney(editingRule.minAmount) : undefined} className={inputClass} />
+              <input type="number" step="0.01" name="maxAmount" placeholder="Valor máx." defaultValue={editingRule?.maxAmount !== undefined ? fromMoney(editingRule.maxAmount) : undefined} className={inputClass} />
+            </div>
+            <select name="categoryId" defaultValue={editingRule?.categoryId} className={inputClass}>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+            </select>
+            {formError && <p className="text-xs text-rose-400 font-bold">{formError}</p>}
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+              <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+            </div>
+          </form>
+        ) : isPreviewOpen ? (
+          <div className="space-y-6">
+            {changes.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">O histórico já está de acordo com as regras.</p>
+            ) : (
+              <div className="grid gap-2 max-h-[45vh] overflow-y-auto">
+                {changes.map(c => (
+                  <div key={c.transaction.id} className="bg-slate-800/40 px-4 py-3 rounded-xl border border-slate-700 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-white truncate">{c.transaction.description || 'Sem descrição'}</p>
+                      <p className="text-[10px] text-slate-500 uppercase font-black">{c.transaction.date}</p>
+                    </div>
+                    <span className="text-[10px] font-black uppercase whitespace-nowrap">
+                      <span className="text-slate-500 line-through">{categoryName(categories, c.from)}</span> <span className="text-indigo-400">→ {categoryName(categories, c.to)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <button onClick={() => setIsPreviewOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Voltar</button>
+              <button onClick={() => { onApplyChanges(changes); setIsPreviewOpen(false); }} disabled={changes.length === 0} className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all disabled:opacity-50">
+                Aplicar {changes.length}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {rules.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Nenhuma regra definida. As regras são aplicadas por ordem, de cima para baixo.</p>
+            ) : (
+              rules.map((rule, index) => (
+                <div key={rule.id} className={`bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center gap-3 min-w-0">
+                    <input type="checkbox" checked={rule.enabled} onChange={() => onRulesChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} className="w-4 h-4 accent-indigo-500 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-white truncate">{describeRule(rule)}</p>
+                      <p className="text-[10px] text-indigo-400 uppercase font-black">→ {categoryName(categories, rule.categoryId)}</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button onClick={() => move(index, -1)} disabled={index === 0} className="p-2 text-slate-500 hover:text-white transition-colors disabled:opacity-30"><ArrowUpIcon className="w-4 h-4" /></button>
+                    <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="p-2 text-slate-500 hover:text-white transition-colors disabled:opacity-30"><ArrowDownIcon className="w-4 h-4" /></button>
+                    <button onClick={() => { setEditingRule(rule); setFormError(null); setIsFormOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4" /></button>
+                    <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="p-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default CategorizationRulesModal;
@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  TagIcon,
+  HomeIcon,
+  ShoppingCartIcon,
+  TruckIcon,
+  HeartIcon,
+  FilmIcon,
+  AcademicCapIcon,
+  BriefcaseIcon,
+  BoltIcon,
+  GiftIcon,
+  BanknotesIcon,
+  SparklesIcon
+} from '@heroicons/react/24/outline';
+import { CATEGORY_ICONS } from '../services/categoryService';
+
+const ICONS: Record<typeof CATEGORY_ICONS[number], React.ComponentType<{ className?: string }>> = {
+  tag: TagIcon,
+  home: HomeIcon,
+  cart: ShoppingCartIcon,
+  truck: TruckIcon,
+  heart: HeartIcon,
+  film: FilmIcon,
+  academic: AcademicCapIcon,
+  briefcase: BriefcaseIcon,
+  bolt: BoltIcon,
+  gift: GiftIcon,
+  banknotes: BanknotesIcon,
+  sparkles: SparklesIcon
+};
+
+interface CategoryIconProps {
+  icon: string;
+  className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, className }) => {
+  const Icon = ICONS[icon as keyof typeof ICONS] || TagIcon;
+  return <Icon className={className} />;
+};
+
+export default CategoryIcon;
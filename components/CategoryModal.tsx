@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { PlusIcon, PencilIcon } from '@heroicons/react/24/outline';
+import { Budget, Category, Money } from '../types';
+import { getEffectiveBudget, upsertBudget } from '../services/budgetService';
+import { toMonthKey, todayISO } from '../services/dateUtils';
+import { canSetParent, CATEGORY_ICONS, childrenOf, createCategory, isNameTaken, orderCategories, removeCategory } from '../services/categoryService';
+import { fromMoney, toMoney } from '../services/moneyService';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoryModalProps {
+  categories: Category[];
+  budgets: Budget[];
+  // Número de movimentos, orçamentos, regras e objetivos que usam a categoria
+  usageOf: (id: string) => number;
+  onCategoriesChange: (categories: Category[]) => void;
+  onRename: (id: string, name: string) => void;
+  // Funde `sourceId` em `targetId`, passando todas as referências para o destino
+  onMerge: (sourceId: string, targetId: string) => void;
+  onBudgetsChange: (budgets: Budget[]) => void;
+  onClose: () => void;
+}
+
+const smallInputClass = "bg-slate-900/40 rounded-xl px-3 py-2 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const CategoryModal: React.FC<CategoryModalProps> = ({ categories, budgets, usageOf, onCategoriesChange, onRename, onMerge, onBudgetsChange, onClose }) => {
+  const [newCategory, setNewCategory] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [month, setMonth] = useState(toMonthKey(todayISO()));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replacementId, setReplacementId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const topLevel = categories.filter(c => !c.parentId);
+
+  const addCategory = () => {
+    const name = newCategory.trim();
+    if (!name) return;
+    if (isNameTaken(categories, name)) return setError(`Já existe uma categoria "${name}".`);
+    onCategoriesChange([...categories, createCategory(name, categories.length, newParentId || undefined)]);
+    setNewCategory('');
+    setError(null);
+  };
+
+  const update = (id: string, changes: Partial<Category>) =>
+    onCategoriesChange(categories.map(c => (c.id === id ? { ...c, ...changes } : c)));
+
+  const rename = (category: Category, value: string) => {
+    const name = value.trim();
+    if (!name || name === category.name) return;
+    if (isNameTaken(categories, name, category.id)) return setError(`Já existe uma categoria "${name}".`);
+    setError(null);
+    onRename(category.id, name);
+  };
+
+  // Cada alteração fica registada para o mês escolhido e vale para os seguintes
+  const updateBudget = (categoryId: string, changes: Partial<Pick<Budget, 'limit' | 'rollover'>>) => {
+    const current = getEffectiveBudget(budgets, categoryId, month);
+    onBudgetsChange(upsertBudget(budgets, {
+      categoryId,
+      month,
+      limit: current?.limit || 0 as Money,
+      rollover: current?.rollover || false,
+      ...changes
+    }));
+  };
+
+  const renderEditor = (category: Category) => {
+    const usage = usageOf(category.id);
+    const hasChildren = childrenOf(categories, category.id).length > 0;
+    return (
+      <div className="col-span-full grid gap-3 pt-3 border-t border-slate-700/60">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            key={category.name}
+            defaultValue={category.name}
+            onBlur={(e) => rename(category, e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            title="Nome"
+            className={smallInputClass}
+          />
+          <select
+            value={category.parentId || ''}
+            disabled={hasChildren}
+            title={hasChildren ? 'Uma categoria com subcategorias não pode ficar dentro de outra' : 'Grupo'}
+            onChange={(e) => canSetParent(categories, category.id, e.target.value || undefined) && update(category.id, { parentId: e.target.value || undefined })}
+            className={`${smallInputClass} disabled:opacity-50`}
+          >
+            <option value="">Sem grupo</option>
+            {topLevel.filter(p => p.id !== category.id).map(p => <option key={p.id} value={p.id}>Dentro de {p.name}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="color" value={category.color} onChange={(e) => update(category.id, { color: e.target.value })} title="Cor" className="w-9 h-9 bg-transparent rounded-lg cursor-pointer" />
+          {CATEGORY_ICONS.map(icon => (
+            <button key={icon} onClick={() => update(category.id, { icon })} className={`p-2 rounded-lg transition-colors ${category.icon === icon ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-white'}`}>
+              <CategoryIcon icon={icon} className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select value={replacementId} onChange={(e) => setReplacementId(e.target.value)} className={`${smallInputClass} flex-1`}>
+            <option value="">{usage > 0 ? 'Escolher categoria de substituição...' : 'Fundir com...'}</option>
+            {orderCategories(categories).filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+          </select>
+          <button
+            disabled={!replacementId}
+            onClick={() => { onMerge(category.id, replacementId); setEditingId(null); setReplacementId(''); }}
+            className="px-4 py-2 rounded-xl bg-slate-700 text-[10px] text-white font-black uppercase tracking-widest hover:bg-slate-600 transition-all disabled:opacity-40"
+          >
+            {usage > 0 ? 'Substituir e Apagar' : 'Fundir'}
+          </button>
+          <button
+            disabled={usage > 0}
+            title={usage > 0 ? 'Em uso: escolha uma categoria de substituição' : 'Apagar'}
+            onClick={() => { onCategoriesChange(removeCategory(categories, category.id)); setEditingId(null); }}
+            className="px-4 py-2 rounded-xl bg-rose-600/80 text-[10px] text-white font-black uppercase tracking-widest hover:bg-rose-500 transition-all disabled:opacity-30"
+          >
+            Apagar
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-500 font-bold uppercase">
+          {usage > 0 ? `Usada em ${usage} movimento(s), orçamento(s), regra(s) ou objetivo(s): ao apagar, passam para a categoria escolhida.` : 'Sem utilização.'}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Categorias</h3>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="bg-slate-800/40 rounded-2xl px-4 py-3 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+
+        <div className="flex gap-3 mb-2">
+          <input
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addCategory(); }}
+            placeholder="Nova categoria..."
+            className="min-w-0 flex-1 bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <select value={newParentId} onChange={(e) => setNewParentId(e.target.value)} title="Grupo" className="w-32 md:w-40 bg-slate-800/40 rounded-2xl px-3 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+            <option value="">Sem grupo</option>
+            {topLevel.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={addCategory} className="bg-indigo-600 px-5 rounded-2xl text-white hover:bg-indigo-500 transition-all">
+            <PlusIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-rose-400 font-bold mb-6 min-h-[1rem]">{error}</p>
+
+        <div className="grid gap-3">
+          <div className="grid grid-cols-[1fr_7rem_4.5rem_2rem] gap-3 px-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            <span>Categoria</span>
+            <span>Orçamento</span>
+            <span className="text-center">Acumular</span>
+            <span></span>
+          </div>
+          {orderCategories(categories).map(category => {
+            const budget = getEffectiveBudget(budgets, category.id, month);
+            return (
+              <div key={category.id} className={`bg-slate-800/40 p-4 rounded-2xl border border-slate-700 grid grid-cols-[1fr_7rem_4.5rem_2rem] gap-3 items-center ${category.parentId ? 'ml-6' : ''}`}>
+                <p className="text-sm font-bold text-white truncate flex items-center gap-2">
+                  <span className="w-6 h-6 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}33`, color: category.color }}>
+                    <CategoryIcon icon={category.icon} className="w-3.5 h-3.5" />
+                  </span>
+                  <span className="truncate">{category.name}</span>
+                </p>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  placeholder="Sem limite"
+                  key={`${category.id}-${month}-${budget?.limit}`}
+                  defaultValue={budget && budget.limit > 0 ? fromMoney(budget.limit) : ''}
+                  onBlur={(e) => {
+                    const limit = toMoney(parseFloat(e.target.value) || 0);
+                    if (limit !== (budget?.limit || 0)) updateBudget(category.id, { limit });
+                  }}
+                  className="w-full bg-slate-900/40 rounded-xl px-3 py-2 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <input
+                  type="checkbox"
+                  title="Acumular o valor não gasto para o mês seguinte"
+                  checked={budget?.rollover || false}
+                  disabled={!budget || budget.limit <= 0}
+                  onChange={(e) => updateBudget(category.id, { rollover: e.target.checked })}
+                  className="mx-auto w-4 h-4 accent-indigo-500"
+                />
+                <button onClick={() => { setEditingId(editingId === category.id ? null : category.id); setReplacementId(''); }} className={`transition-colors ${editingId === category.id ? 'text-indigo-400' : 'text-slate-600 hover:text-indigo-400'}`}>
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                {editingId === category.id && renderEditor(category)}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryModal;
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { DocumentArrowUpIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ExchangeRate } from '../types';
+import { mergeRates, parseEcbXml, parseRatesCsv, REFERENCE_CURRENCY, SUPPORTED_CURRENCIES, upsertRate } from '../services/currencyService';
+import { todayISO } from '../services/dateUtils';
+
+interface ExchangeRatesModalProps {
+  rates: ExchangeRate[];
+  baseCurrency: string;
+  missingCurrencies: string[];
+  onRatesChange: (rates: ExchangeRate[]) => void;
+  onBaseCurrencyChange: (currency: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ExchangeRatesModal: React.FC<ExchangeRatesModalProps> = ({ rates, baseCurrency, missingCurrencies, onRatesChange, onBaseCurrencyChange, onClose }) => {
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sorted = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency));
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      const { rates: parsed, rejected } = /<Cube/.test(text) ? { rates: parseEcbXml(text), rejected: [] } : parseRatesCsv(text);
+      const skipped = rejected.length > 0
+        ? ` ${rejected.length} linha(s) ignorada(s) por não serem válidas (${rejected.slice(0, 5).join(', ')}${rejected.length > 5 ? '...' : ''}).`
+        : '';
+      if (parsed.length === 0) {
+        setImportMessage(`Nenhuma cotação reconhecida no ficheiro.${skipped}`);
+        return;
+      }
+      onRatesChange(mergeRates(rates, parsed));
+      setImportMessage(`${parsed.length} cotações importadas.${skipped}`);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between gap-4 mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Moedas</h3>
+          <select value={baseCurrency} onChange={(e) => onBaseCurrencyChange(e.target.value)} title="Moeda base" className="bg-slate-800/40 rounded-2xl px-4 py-3 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+            {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+
+        {missingCurrencies.length > 0 && (
+          <p className="text-xs text-amber-400 font-bold flex items-center gap-2 mb-6">
+            <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+            Sem cotações para {missingCurrencies.join(', ')}: os valores nestas moedas não são convertidos.
+          </p>
+        )}
+
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          const fd = new FormData(e.currentTarget);
+          const rate = parseFloat((fd.get('rate') as string).replace(',', '.'));
+          if (!(rate > 0)) return;
+          onRatesChange(upsertRate(rates, { date: fd.get('date') as string, currency: fd.get('currency') as string, rate }));
+          e.currentTarget.reset();
+        }} className="grid grid-cols-[1fr_6rem_1fr_auto] gap-3 mb-6">
+          <input type="date" name="date" required defaultValue={todayISO()} className={inputClass} />
+          <select name="currency" className={inputClass}>
+            {SUPPORTED_CURRENCIES.filter(c => c !== REFERENCE_CURRENCY).map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input name="rate" required inputMode="decimal" placeholder={`1 ${REFERENCE_CURRENCY} =`} className={inputClass} />
+          <button type="submit" className="bg-indigo-600 px-5 rounded-2xl text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all">Adicionar</button>
+        </form>
+
+        <div onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-slate-700/50 rounded-[1.25rem] p-4 flex items-center gap-4 cursor-pointer hover:bg-slate-800/40 transition-all mb-2">
+          <DocumentArrowUpIcon className="w-5 h-5 text-slate-400" />
+          <span className="text-[10px] md:text-xs font-semibold text-slate-400 truncate">Importar XML do BCE ou CSV (data;moeda;cotação)...</span>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} accept=".xml,.csv,.txt" className="hidden" />
+        {importMessage && <p className="text-[10px] text-slate-400 uppercase font-black ml-1 mb-4">{importMessage}</p>}
+
+        <div className="grid gap-2 mt-6 max-h-[35vh] overflow-y-auto">
+          {sorted.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">Nenhuma cotação registada.</p>
+          ) : (
+            sorted.slice(0, 200).map(r => (
+              <div key={`${r.date}-${r.currency}`} className="bg-slate-800/40 px-4 py-3 rounded-xl border border-slate-700 flex items-center justify-between gap-4">
+                <span className="text-xs font-bold text-slate-300">{r.date}</span>
+                <span className="text-xs font-black text-white">1 {REFERENCE_CURRENCY} = {r.rate} {r.currency}</span>
+                <button onClick={() => onRatesChange(rates.filter(x => !(x.date === r.date && x.currency === r.currency)))} className="text-slate-600 hover:text-rose-500 transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatesModal;
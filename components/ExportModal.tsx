@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { DocumentArrowDownIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import { PdfReportGranularity, SheetFormat } from '../services/exportService';
+import { toMonthKey, todayISO } from '../services/dateUtils';
+
+interface ExportModalProps {
+  // Movimentos que passam os filtros atuais
+  transactionCount: number;
+  years: string[];
+  // Devolvem false se o utilizador cancelar a gravação
+  onExportSheet: (format: SheetFormat) => Promise<boolean>;
+  onExportPdf: (granularity: PdfReportGranularity, period: string) => Promise<boolean>;
+  onExportBackup: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+const sectionTitleClass = "text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4";
+const actionClass = "flex-1 bg-slate-800/60 py-4 rounded-2xl text-white font-black uppercase tracking-widest hover:bg-slate-700 transition-all flex items-center justify-center gap-2 disabled:opacity-40";
+
+const ExportModal: React.FC<ExportModalProps> = ({ transactionCount, years, onExportSheet, onExportPdf, onExportBackup, onClose }) => {
+  const [granularity, setGranularity] = useState<PdfReportGranularity>('month');
+  const [month, setMonth] = useState(toMonthKey(todayISO()));
+  const [year, setYear] = useState(years[0] || todayISO().slice(0, 4));
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: () => Promise<boolean>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (await task()) setMessage({ text: success, error: false });
+    } catch (error) {
+      console.error(error);
+      setMessage({ text: 'Não foi possível exportar o ficheiro.', error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">Exportar</h3>
+
+        <section className="mb-8">
+          <p className={sectionTitleClass}>Histórico filtrado · {transactionCount} movimentos</p>
+          <div className="flex gap-3">
+            {(['csv', 'xlsx'] as SheetFormat[]).map(format => (
+              <button key={format} disabled={busy || transactionCount === 0} onClick={() => run(() => onExportSheet(format), 'Folha exportada.')} className={actionClass}>
+                <TableCellsIcon className="w-4 h-4" /> {format === 'csv' ? 'CSV' : 'Excel'}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <p className={sectionTitleClass}>Relatório PDF</p>
+          <div className="flex gap-4 mb-4">
+            {(['month', 'year'] as PdfReportGranularity[]).map(g => (
+              <button key={g} onClick={() => setGranularity(g)} className={`text-[10px] font-black uppercase tracking-widest transition-colors ${granularity === g ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                {g === 'month' ? 'Mensal' : 'Anual'}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {granularity === 'month' ? (
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                className="flex-1 bg-slate-800/40 rounded-2xl px-4 py-3 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            ) : (
+              <select value={year} onChange={(e) => setYear(e.target.value)} className="flex-1 bg-slate-800/40 rounded-2xl px-4 py-3 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                {(years.length > 0 ? years : [year]).map(y => <option key={y} value={y}>{y}</option>)}
+              </select>
+            )}
+            <button
+              disabled={busy}
+              onClick={() => run(() => onExportPdf(granularity, granularity === 'month' ? month : year), 'Relatório gerado.')}
+              className={actionClass}
+            >
+              <DocumentArrowDownIcon className="w-4 h-4" /> Gerar PDF
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <p className={sectionTitleClass}>Cópia de segurança</p>
+          <button disabled={busy} onClick={() => run(onExportBackup, 'Cópia de segurança exportada.')} className={`${actionClass} w-full`}>
+            Exportar JSON
+          </button>
+        </section>
+
+        {message && <p className={`text-xs font-bold mt-6 ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { Account, Category, FilterPreset, Member, Money, TransactionFilters, TransactionType } from '../types';
+import { EMPTY_FILTERS } from '../services/queryService';
+import { fromMoney, parseMoney } from '../services/moneyService';
+
+interface FilterModalProps {
+  filters: TransactionFilters;
+  categories: Category[];
+  tags: string[];
+  accounts: Account[];
+  members: Member[];
+  presets: FilterPreset[];
+  onChange: (filters: TransactionFilters) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1";
+
+const toggle = (list: string[], value: string): string[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// O campo numérico devolve sempre ponto decimal
+const parseAmount = (value: string): Money | null => parseMoney(value, '.');
+
+const showAmount = (amount: Money | null) => amount === null ? '' : fromMoney(amount);
+
+const FilterModal: React.FC<FilterModalProps> = ({ filters, categories, tags, accounts, members, presets, onChange, onSavePreset, onDeletePreset, onClose }) => {
+  const [presetName, setPresetName] = useState('');
+  const set = (patch: Partial<TransactionFilters>) => onChange({ ...filters, ...patch });
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider border transition-all ${active ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'bg-slate-800/40 border-slate-700 text-slate-400 hover:border-slate-500'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Filtrar Movimentos</h3>
+          <button onClick={() => { onChange(EMPTY_FILTERS); onClose(); }} className="text-[10px] font-black text-rose-400 uppercase tracking-widest hover:text-rose-300 transition-colors">Limpar Filtros</button>
+        </div>
+        <div className="space-y-6">
+          {presets.length > 0 && (
+            <div className="space-y-2">
+              <label className={labelClass}>Filtros Guardados</label>
+              <div className="flex flex-wrap gap-2">
+                {presets.map(p => (
+                  <span key={p.id} className="flex items-center bg-slate-800/40 border border-slate-700 rounded-xl">
+                    <button onClick={() => onChange(p.filters)} className="pl-3 pr-2 py-1.5 text-[10px] font-black uppercase tracking-wider text-slate-300 hover:text-white">{p.name}</button>
+                    <button onClick={() => onDeletePreset(p.id)} title="Apagar" className="pr-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-3 h-3" /></button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+            <div className="space-y-2">
+              <label className={labelClass}>Tipo</label>
+              <select value={filters.type} onChange={(e) => set({ type: e.target.value as TransactionFilters['type'] })} className={inputClass}>
+                <option value="all">Todos os Tipos</option>
+                <option value={TransactionType.INCOME}>Entradas</option>
+                <option value={TransactionType.EXPENSE}>Saídas</option>
+                <option value={TransactionType.TRANSFER}>Transferências</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Conta</label>
+              <select value={filters.account} onChange={(e) => set({ account: e.target.value })} className={inputClass}>
+                <option value="all">Todas as Contas</option>
+                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            {members.length > 0 && (
+              <div className="space-y-2">
+                <label className={labelClass}>Membro</label>
+                <select value={filters.member} onChange={(e) => set({ member: e.target.value })} className={inputClass}>
+                  <option value="all">Todos os Membros</option>
+                  {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className={labelClass}>Categorias</label>
+              {filters.categoryIds.length > 0 && (
+                <button onClick={() => set({ categoryIds: [] })} className="text-[10px] font-black text-slate-500 uppercase hover:text-white">Todas</button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {categories.map(c => (
+                <button key={c.id} onClick={() => set({ categoryIds: toggle(filters.categoryIds, c.id) })} className={chip(filters.categoryIds.includes(c.id))}>{c.name}</button>
+              ))}
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <label className={labelClass}>Etiquetas</label>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <button key={tag} onClick={() => set({ tags: toggle(filters.tags, tag) })} className={chip(filters.tags.includes(tag))}>#{tag}</button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+            <div className="space-y-2">
+              <label className={labelClass}>Valor Mínimo</label>
+              <input type="number" step="0.01" min="0" value={showAmount(filters.minAmount)} onChange={(e) => set({ minAmount: parseAmount(e.target.value) })} className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Valor Máximo</label>
+              <input type="number" step="0.01" min="0" value={showAmount(filters.maxAmount)} onChange={(e) => set({ maxAmount: parseAmount(e.target.value) })} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+            <div className="space-y-2">
+              <label className={labelClass}>Data Inicial</label>
+              <input type="date" value={filters.startDate} onChange={(e) => set({ startDate: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Data Final</label>
+              <input type="date" value={filters.endDate} onChange={(e) => set({ endDate: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            if (!presetName.trim()) return;
+            onSavePreset(presetName.trim());
+            setPresetName('');
+          }} className="flex gap-2">
+            <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Nome para guardar estes filtros" className="flex-1 bg-slate-800/40 rounded-2xl px-4 py-3 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+            <button type="submit" disabled={!presetName.trim()} className="px-5 bg-slate-700 rounded-2xl text-[10px] text-white font-black uppercase tracking-widest hover:bg-slate-600 transition-all disabled:opacity-40">Guardar</button>
+          </form>
+
+          <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-4">Aplicar Filtros</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterModal;
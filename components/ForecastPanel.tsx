@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, Tooltip, CartesianGrid, ReferenceLine } from 'recharts';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Category, Forecast, Money } from '../types';
+import { FORECAST_HORIZONS } from '../services/forecastService';
+import { formatDatePt } from '../services/exportService';
+import { fromMoney, toMoney } from '../services/moneyService';
+import { categoryName } from '../services/categoryService';
+
+interface ForecastPanelProps {
+  forecast: Forecast;
+  categories: Category[];
+  threshold: Money;
+  formatCurrency: (v: Money) => string;
+  onThresholdChange: (value: Money) => void;
+}
+
+const MAX_PATTERNS = 6;
+
+const tooltipStyle = { borderRadius: '24px', border: 'none', backgroundColor: '#0f172a', color: '#fff' };
+const axisTick = { fill: '#64748b', fontSize: 10, fontWeight: 700 };
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ forecast, categories, threshold, formatCurrency, onThresholdChange }) => {
+  const [horizon, setHorizon] = useState(FORECAST_HORIZONS[0]);
+
+  const points = forecast.points.slice(0, horizon + 1);
+  // O recharts desenha a banda a partir de um par [mínimo, máximo]; o gráfico trabalha em unidades
+  const data = points.map(p => ({ date: p.date, balance: fromMoney(p.balance), band: [fromMoney(p.low), fromMoney(p.high)] }));
+  const formatUnits = (v: unknown) => formatCurrency(toMoney(Number(v)));
+  const last = points[points.length - 1];
+  const shortDate = (iso: string) => iso.slice(8, 10) + '/' + iso.slice(5, 7);
+
+  return (
+    <div className="bg-[#1e293b] p-6 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-slate-800 shadow-2xl">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl md:text-2xl font-black text-white">Previsão de Saldo</h3>
+        <div className="flex gap-2">
+          {FORECAST_HORIZONS.map(h => (
+            <button key={h} onClick={() => setHorizon(h)} className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase transition-all ${horizon === h ? 'bg-indigo-500/10 text-indigo-400' : 'text-slate-500 hover:text-white'}`}>
+              {h} dias
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {forecast.alert && (
+        <div className="flex items-start gap-3 bg-rose-500/10 border border-rose-500/30 p-4 rounded-2xl mb-8">
+          <ExclamationTriangleIcon className="w-5 h-5 text-rose-400 flex-shrink-0" />
+          <p className="text-xs md:text-sm font-bold text-rose-300">
+            O saldo previsto desce para {formatCurrency(forecast.alert.balance)} a {formatDatePt(forecast.alert.date)}, abaixo do limite de {formatCurrency(threshold)}
+            {forecast.nextIncome ? `, antes da próxima entrada prevista (${formatDatePt(forecast.nextIncome)}).` : '.'}
+          </p>
+        </div>
+      )}
+
+      <div className="h-[240px] md:h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="date" tickFormatter={shortDate} tick={axisTick} axisLine={false} tickLine={false} minTickGap={20} />
+            <YAxis tick={axisTick} axisLine={false} tickLine={false} width={50} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(l) => formatDatePt(String(l))}
+              formatter={(v: unknown) => Array.isArray(v) ? `${formatUnits(v[0])} a ${formatUnits(v[1])}` : formatUnits(v)}
+            />
+            <Area type="monotone" dataKey="band" name="Intervalo (80%)" stroke="none" fill="#6366f1" fillOpacity={0.15} />
+            <Line type="monotone" dataKey="balance" name="Saldo previsto" stroke="#6366f1" strokeWidth={3} dot={false} />
+            <ReferenceLine y={fromMoney(threshold)} stroke="#f43f5e" strokeDasharray="4 4" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-8">
+        <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Fim do Mês</p>
+          <p className={`text-xl font-black ${forecast.monthEnd && forecast.monthEnd.balance < threshold ? 'text-rose-400' : 'text-white'}`}>
+            {forecast.monthEnd ? formatCurrency(forecast.monthEnd.balance) : '—'}
+          </p>
+        </div>
+        <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Daqui a {horizon} dias</p>
+          <p className={`text-xl font-black ${last.balance < threshold ? 'text-rose-400' : 'text-white'}`}>{formatCurrency(last.balance)}</p>
+          <p className="text-[10px] text-slate-500 uppercase font-black mt-1">{formatCurrency(last.low)} a {formatCurrency(last.high)}</p>
+        </div>
+        <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2 block">Alertar abaixo de</label>
+          <input
+            key={threshold}
+            type="number"
+            step="0.01"
+            defaultValue={fromMoney(threshold)}
+            onBlur={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value) && toMoney(value) !== threshold) onThresholdChange(toMoney(value));
+            }}
+            className="w-full bg-slate-900/40 rounded-xl p-2 text-white font-black border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      </div>
+
+      {forecast.patterns.length > 0 && (
+        <div className="mt-8">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Próximos movimentos recorrentes</p>
+          <div className="grid gap-2">
+            {forecast.patterns.slice(0, MAX_PATTERNS).map(p => (
+              <div key={p.key} className="flex items-center justify-between gap-4 text-xs">
+                <span className="flex items-center gap-2 min-w-0 text-slate-300 font-bold">
+                  <ArrowPathIcon className="w-3 h-3 flex-shrink-0 text-slate-500" />
+                  <span className="truncate">{p.description || categoryName(categories, p.categoryId)}</span>
+                  <span className="text-[10px] text-slate-500 uppercase font-black whitespace-nowrap">{formatDatePt(p.nextDate)}{p.source === 'detected' && ' • detetado'}</span>
+                </span>
+                <span className={`font-black whitespace-nowrap ${p.amount >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {p.amount >= 0 ? '+' : '-'} {formatCurrency(Math.abs(p.amount) as Money)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {forecast.variableByCategory.length > 0 && (
+        <p className="text-[10px] text-slate-500 uppercase font-black mt-6">
+          Gasto variável médio: {forecast.variableByCategory.slice(0, 3).map(c => `${categoryName(categories, c.categoryId)} ${formatCurrency(c.daily)}/dia`).join(' • ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ForecastPanel;
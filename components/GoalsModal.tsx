@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Account, Category, GoalProgress, Money, SavingsGoal } from '../types';
+import { GOAL_STATE_LABELS, RECENT_MONTHS } from '../services/goalService';
+import { formatDatePt } from '../services/exportService';
+import { addMonths, todayISO } from '../services/dateUtils';
+import { fromMoney, toMoney } from '../services/moneyService';
+import { GOAL_BAR_COLORS, GOAL_TEXT_COLORS } from './GoalsPanel';
+
+interface GoalsModalProps {
+  progress: GoalProgress[];
+  accounts: Account[];
+  categories: Category[];
+  formatCurrency: (v: Money) => string;
+  onSave: (goal: SavingsGoal) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const GoalsModal: React.FC<GoalsModalProps> = ({ progress, accounts, categories, formatCurrency, onSave, onDelete, onClose }) => {
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // O valor do campo é "account:<id>" ou "category:<id>"
+  const linkValue = editingGoal?.accountId ? `account:${editingGoal.accountId}` : editingGoal?.categoryId ? `category:${editingGoal.categoryId}` : '';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Objetivos</h3>
+          {!isFormOpen && (
+            <button onClick={() => { setEditingGoal(null); setError(null); setIsFormOpen(true); }} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">
+              Novo Objetivo
+            </button>
+          )}
+        </div>
+
+        {isFormOpen ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            const targetAmount = toMoney(parseFloat(fd.get('targetAmount') as string) || 0);
+            const startDate = fd.get('startDate') as string;
+            const deadline = fd.get('deadline') as string;
+            if (targetAmount <= 0) return setError('Indique um valor a atingir.');
+            if (deadline <= startDate) return setError('O prazo tem de ser posterior à data de início.');
+            const [kind, ...rest] = (fd.get('link') as string).split(':');
+            const link = rest.join(':');
+            onSave({
+              id: editingGoal?.id || Math.random().toString(36).substr(2, 9),
+              name: (fd.get('name') as string).trim(),
+              targetAmount,
+              deadline,
+              startDate,
+              initialAmount: toMoney(parseFloat(fd.get('initialAmount') as string) || 0),
+              accountId: kind === 'account' ? link : undefined,
+              categoryId: kind === 'category' ? link : undefined
+            });
+            setIsFormOpen(false);
+          }} className="space-y-6">
+            <input name="name" required placeholder="Nome (ex.: Fundo de emergência)" defaultValue={editingGoal?.name} className={inputClass} />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <input type="number" step="0.01" min={0} name="targetAmount" required placeholder="Valor a atingir" defaultValue={editingGoal ? fromMoney(editingGoal.targetAmount) : undefined} className={inputClass} />
+              <input type="number" step="0.01" name="initialAmount" placeholder="Já poupado" defaultValue={editingGoal?.initialAmount ? fromMoney(editingGoal.initialAmount) : ''} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">A contar desde</span>
+                <input type="date" name="startDate" required defaultValue={editingGoal?.startDate || todayISO()} className={inputClass} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Prazo</span>
+                <input type="date" name="deadline" required defaultValue={editingGoal?.deadline || addMonths(todayISO(), 12)} className={inputClass} />
+              </label>
+            </div>
+            <select name="link" required defaultValue={linkValue} className={inputClass}>
+              <option value="" disabled>Contribuições de...</option>
+              <optgroup label="Conta">
+                {accounts.map(a => <option key={a.id} value={`account:${a.id}`}>{a.name}</option>)}
+              </optgroup>
+              <optgroup label="Categoria">
+                {categories.map(c => <option key={c.id} value={`category:${c.id}`}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+              </optgroup>
+            </select>
+            <p className="text-[10px] text-slate-500 uppercase font-black">
+              Numa conta conta o dinheiro que entra menos o que sai; numa categoria contam as saídas e transferências lançadas nela.
+            </p>
+            {error && <p className="text-xs text-rose-400 font-bold">{error}</p>}
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+              <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+            </div>
+          </form>
+        ) : progress.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Sem objetivos definidos.</p>
+        ) : (
+          <div className="grid gap-3">
+            {progress.map(p => (
+              <div key={p.goal.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-white truncate">{p.goal.name}</p>
+                    <p className={`text-[10px] uppercase font-black ${GOAL_TEXT_COLORS[p.state]}`}>{GOAL_STATE_LABELS[p.state]} • {Math.round(p.percent)}%</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={() => { setEditingGoal(p.goal); setError(null); setIsFormOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4" /></button>
+                    <button onClick={() => onDelete(p.goal.id)} title="Apagar objetivo" className="p-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                  </div>
+                </div>
+                <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full ${GOAL_BAR_COLORS[p.state]}`} style={{ width: `${p.percent}%` }}></div>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-500 uppercase font-black">
+                  <span>Poupado: <span className="text-white">{formatCurrency(p.saved)}</span></span>
+                  <span>Falta: <span className="text-white">{formatCurrency(p.remaining)}</span></span>
+                  <span>Necessário: <span className="text-white">{formatCurrency(p.requiredMonthly)}/mês</span></span>
+                  <span>Prazo: <span className="text-white">{formatDatePt(p.goal.deadline)}</span></span>
+                </div>
+                <p className="text-[10px] text-slate-500 uppercase font-black">
+                  Média dos últimos {RECENT_MONTHS} meses: {formatCurrency(p.averageNet)}/mês • no prazo: {formatCurrency(p.projectedAmount)}
+                  {p.state !== 'reached' && (p.projectedDate
+                    ? <> • atingido em {formatDatePt(p.projectedDate)}</>
+                    : <span className="text-rose-400"> • sem poupança média para o atingir</span>)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default GoalsModal;
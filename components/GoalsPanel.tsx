@@ -0,0 +1,63 @@
+import React from 'react';
+import { FlagIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { GoalProgress, GoalState, Money } from '../types';
+import { GOAL_STATE_LABELS } from '../services/goalService';
+import { formatDatePt } from '../services/exportService';
+
+interface GoalsPanelProps {
+  progress: GoalProgress[];
+  formatCurrency: (v: Money) => string;
+  onManage: () => void;
+}
+
+export const GOAL_BAR_COLORS: Record<GoalState, string> = {
+  reached: 'bg-emerald-500',
+  'on-track': 'bg-indigo-500',
+  behind: 'bg-amber-500',
+  overdue: 'bg-rose-500'
+};
+
+export const GOAL_TEXT_COLORS: Record<GoalState, string> = {
+  reached: 'text-emerald-400',
+  'on-track': 'text-indigo-400',
+  behind: 'text-amber-400',
+  overdue: 'text-rose-400'
+};
+
+const GoalsPanel: React.FC<GoalsPanelProps> = ({ progress, formatCurrency, onManage }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 md:gap-6 mb-12">
+    {progress.map(p => (
+      <button
+        key={p.goal.id}
+        onClick={onManage}
+        className="bg-[#1e293b] p-4 md:p-6 rounded-[1.5rem] md:rounded-[2rem] border border-slate-800 shadow-xl text-left hover:border-slate-600 transition-all space-y-3"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.15em] text-slate-500 truncate flex items-center gap-2">
+            <FlagIcon className="w-4 h-4 flex-shrink-0" /> {p.goal.name}
+          </p>
+          <span className={`text-[10px] font-black uppercase whitespace-nowrap ${GOAL_TEXT_COLORS[p.state]}`}>{GOAL_STATE_LABELS[p.state]}</span>
+        </div>
+        <p className="text-sm md:text-base font-black text-white truncate">
+          {formatCurrency(p.saved)} <span className="text-slate-500">/ {formatCurrency(p.goal.targetAmount)}</span>
+        </p>
+        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${GOAL_BAR_COLORS[p.state]}`} style={{ width: `${p.percent}%` }}></div>
+        </div>
+        <p className="text-[10px] text-slate-500 uppercase font-black">
+          {p.state === 'reached'
+            ? `Concluído • prazo ${formatDatePt(p.goal.deadline)}`
+            : `${formatCurrency(p.requiredMonthly)}/mês até ${formatDatePt(p.goal.deadline)}`}
+        </p>
+      </button>
+    ))}
+    <button
+      onClick={onManage}
+      className="bg-slate-800/40 p-4 md:p-6 rounded-[1.5rem] md:rounded-[2rem] border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-all flex items-center justify-center gap-2 text-[10px] font-black uppercase tracking-widest"
+    >
+      <PlusIcon className="w-4 h-4" /> {progress.length === 0 ? 'Definir Objetivo de Poupança' : 'Gerir Objetivos'}
+    </button>
+  </div>
+);
+
+export default GoalsPanel;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ArrowRightIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Account, Member, MemberBalance, Money, Settlement, Transaction } from '../types';
+import { isMemberInUse, settlementProblem } from '../services/householdService';
+
+interface HouseholdModalProps {
+  members: Member[];
+  balances: MemberBalance[];
+  settlements: Settlement[];
+  accounts: Account[];
+  transactions: Transaction[];
+  formatCurrency: (v: Money) => string;
+  onSave: (member: Member) => void;
+  onDelete: (id: string) => void;
+  onSettle: (settlements: Settlement[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const HouseholdModal: React.FC<HouseholdModalProps> = ({ members, balances, settlements, accounts, transactions, formatCurrency, onSave, onDelete, onSettle, onClose }) => {
+  const [editingMember, setEditingMember] = useState<Member | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || '—';
+  const ready = settlements.filter(s => !settlementProblem(s, members));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Agregado</h3>
+          {!isFormOpen && (
+            <button onClick={() => { setEditingMember(null); setIsFormOpen(true); }} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">
+              Novo Membro
+            </button>
+          )}
+        </div>
+
+        {isFormOpen ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            onSave({
+              id: editingMember?.id || Math.random().toString(36).substr(2, 9),
+              name: (fd.get('name') as string).trim(),
+              accountId: (fd.get('accountId') as string) || undefined
+            });
+            setIsFormOpen(false);
+          }} className="space-y-6">
+            <input name="name" required placeholder="Nome" defaultValue={editingMember?.name} className={inputClass} />
+            <select name="accountId" defaultValue={editingMember?.accountId || ''} title="Conta para os acertos" className={inputClass}>
+              <option value="">Sem conta para acertos</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+              <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+            </div>
+          </form>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Adicione os membros do agregado para indicar quem pagou cada despesa e como se divide.</p>
+        ) : (
+          <div className="space-y-10">
+            <div className="grid gap-3">
+              {balances.map(({ member, paid, share, balance }) => {
+                const locked = isMemberInUse(member.id, transactions);
+                return (
+                  <div key={member.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-white truncate">{member.name}</p>
+                      <p className="text-[10px] text-slate-500 uppercase font-black">
+                        Pagou {formatCurrency(paid)} • Parte {formatCurrency(share)}
+                        {member.accountId && ` • ${accounts.find(a => a.id === member.accountId)?.name || '—'}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`text-sm font-black mr-2 ${balance === 0 ? 'text-slate-400' : balance > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                        {balance > 0 ? '+' : ''}{formatCurrency(balance)}
+                      </span>
+                      <button onClick={() => { setEditingMember(member); setIsFormOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4" /></button>
+                      <button
+                        onClick={() => onDelete(member.id)}
+                        disabled={locked}
+                        title={locked ? 'Membros com movimentos não podem ser apagados' : 'Apagar membro'}
+                        className="p-2 text-slate-600 hover:text-rose-500 transition-colors disabled:opacity-30 disabled:hover:text-slate-600"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Acertar Contas</h4>
+                {ready.length > 1 && (
+                  <button onClick={() => onSettle(ready)} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">Registar Todos</button>
+                )}
+              </div>
+              {settlements.length === 0 ? (
+                <p className="text-sm text-slate-400 italic">As contas estão certas.</p>
+              ) : (
+                <div className="grid gap-3">
+                  {settlements.map(s => {
+                    const problem = settlementProblem(s, members);
+                    return (
+                      <div key={`${s.from}-${s.to}`} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                          <p className="text-sm font-bold text-white flex items-center gap-2 min-w-0">
+                            <span className="truncate">{nameOf(s.from)}</span>
+                            <ArrowRightIcon className="w-3 h-3 flex-shrink-0 text-slate-500" />
+                            <span className="truncate">{nameOf(s.to)}</span>
+                          </p>
+                          <div className="flex items-center gap-3 flex-shrink-0">
+                            <span className="text-sm font-black text-white">{formatCurrency(s.amount)}</span>
+                            <button onClick={() => onSettle([s])} disabled={!!problem} className="text-[10px] font-black px-4 py-1.5 rounded-full uppercase bg-indigo-500/10 text-indigo-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-indigo-400">Registar</button>
+                          </div>
+                        </div>
+                        {problem && <p className="text-[10px] text-amber-400 uppercase font-black">{problem}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdModal;
@@ -0,0 +1,461 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, DocumentArrowUpIcon, ExclamationTriangleIcon, SparklesIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Account, CategorizationRule, Category, CsvMapping, DateFormat, ImportDecision, ImportFormat, ImportIssue, ImportParseResult, ImportProfile, Money, Transaction, TransactionType } from '../types';
+import {
+  DEFAULT_CSV_MAPPING, detectDelimiter, detectFormat, mapCsvRows, parseCsv, parseJson, parseOfx, parseQif, rowsToTransactions, uncategorizedId, unknownCategoryIssues
+} from '../services/importService';
+import { categoryName } from '../services/categoryService';
+import { SuggestionResult } from '../services/quickEntryService';
+import { defaultDecision, findImportConflicts, resolveImport } from '../services/duplicateService';
+import { isEncryptedPayload, unlockPayload } from '../services/cryptoService';
+
+interface ImportModalProps {
+  existing: Transaction[];
+  categories: Category[];
+  rules: CategorizationRule[];
+  accounts: Account[];
+  profiles: ImportProfile[];
+  formatCurrency: (v: Money) => string;
+  onSaveProfile: (profile: ImportProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onImport: (added: Transaction[], updated: Transaction[]) => void;
+  // Sugestões para os movimentos que ficaram sem categoria
+  onSuggestCategories: (items: Transaction[]) => Promise<SuggestionResult>;
+  onClose: () => void;
+}
+
+// Sugestão por índice da linha importada; os IDs da pré-visualização mudam a cada cálculo
+interface PendingSuggestion {
+  index: number;
+  categoryId: string;
+  accepted: boolean;
+}
+
+type Step = 'file' | 'mapping' | 'preview' | 'review';
+
+const DECISION_LABELS: Record<ImportDecision, string> = { keep: 'Manter', skip: 'Ignorar', merge: 'Fundir' };
+
+const FORMAT_LABELS: Record<ImportFormat, string> = { csv: 'CSV', ofx: 'OFX', qif: 'QIF', json: 'JSON' };
+
+// Devolve o texto decifrado, o próprio texto se não estiver cifrado, ou null se o utilizador desistir
+const decryptExport = async (text: string): Promise<string | null> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return text;
+  }
+  if (!isEncryptedPayload(parsed)) return text;
+  for (;;) {
+    const passphrase = window.prompt('Este ficheiro está cifrado. Introduza a frase-passe:');
+    if (passphrase === null) return null;
+    const unlocked = await unlockPayload(passphrase, parsed);
+    if (unlocked) return JSON.stringify(unlocked.value);
+    alert('Frase-passe incorreta.');
+  }
+};
+
+const selectClass = "w-full bg-slate-800/40 rounded-xl p-3 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1";
+
+const ImportModal: React.FC<ImportModalProps> = ({ existing, categories, rules, accounts, profiles, formatCurrency, onSaveProfile, onDeleteProfile, onImport, onSuggestCategories, onClose }) => {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [mapping, setMapping] = useState<CsvMapping>(DEFAULT_CSV_MAPPING);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [decisions, setDecisions] = useState<Record<string, ImportDecision>>({});
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+  const [pending, setPending] = useState<PendingSuggestion[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rawRows = useMemo(() => format === 'csv' && content ? parseCsv(content, mapping.delimiter) : [], [content, format, mapping.delimiter]);
+
+  const { rows, issues: parseIssues, error } = useMemo((): ImportParseResult & { error: string | null } => {
+    if (!content) return { rows: [], issues: [], error: null };
+    try {
+      if (format === 'csv') return { ...mapCsvRows(rawRows, mapping), error: null };
+      if (format === 'ofx') return { ...parseOfx(content), error: null };
+      if (format === 'qif') return { ...parseQif(content, mapping.dateFormat, mapping.decimalSeparator), error: null };
+      return { ...parseJson(content), error: null };
+    } catch (err) {
+      console.error("Erro no ficheiro", fileName, err);
+      return { rows: [], issues: [], error: 'Não foi possível ler o ficheiro.' };
+    }
+  }, [content, format, rawRows, mapping, fileName]);
+
+  const converted = useMemo(() => rowsToTransactions(rows, categories, rules, accountId), [rows, categories, rules, accountId]);
+  const issues = useMemo(
+    (): ImportIssue[] => [...parseIssues, ...unknownCategoryIssues(rows, converted, categories)].sort((a, b) => a.line - b.line),
+    [parseIssues, rows, converted, categories]
+  );
+  const skipped = issues.filter(i => i.severity === 'error').length;
+  const preview = useMemo(
+    () => converted.map((t, i) => categoryOverrides[i] ? { ...t, categoryId: categoryOverrides[i] } : t),
+    [converted, categoryOverrides]
+  );
+  const uncategorizedCategory = uncategorizedId(categories);
+  const uncategorized = preview.flatMap((t, i) => t.type === TransactionType.EXPENSE && t.categoryId === uncategorizedCategory ? [i] : []);
+
+  useEffect(() => {
+    setCategoryOverrides({});
+    setPending(null);
+    setSuggestionError(null);
+  }, [rows]);
+
+  const requestSuggestions = async () => {
+    setSuggesting(true);
+    const result = await onSuggestCategories(uncategorized.map(i => ({ ...preview[i], id: String(i) })));
+    setSuggesting(false);
+    setSuggestionError(result.error || (result.suggestions.length === 0 ? 'Não foi possível sugerir categorias para estes movimentos.' : null));
+    setPending(result.suggestions.map(s => ({ index: Number(s.id), categoryId: s.categoryId, accepted: true })));
+  };
+
+  const applySuggestions = () => {
+    const accepted = (pending || []).filter(s => s.accepted);
+    setCategoryOverrides(p => ({ ...p, ...Object.fromEntries(accepted.map(s => [s.index, s.categoryId])) }));
+    setPending(null);
+  };
+
+  const updatePending = (index: number, changes: Partial<PendingSuggestion>) =>
+    setPending(p => p && p.map(s => s.index === index ? { ...s, ...changes } : s));
+  const conflicts = useMemo(() => step === 'review' ? findImportConflicts(preview, existing, categories) : [], [step, preview, existing]);
+
+  const commit = () => {
+    const { added, updated } = resolveImport(preview, conflicts, decisions);
+    onImport(added, updated);
+  };
+
+  const continueFromPreview = () => {
+    if (findImportConflicts(preview, existing, categories).length === 0) {
+      onImport(preview, []);
+      return;
+    }
+    setDecisions({});
+    setStep('review');
+  };
+
+  const columnCount = Math.max(0, ...rawRows.slice(0, 10).map(r => r.length));
+  const header = mapping.hasHeader ? rawRows[mapping.skipRows] : undefined;
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({ value: i, label: header?.[i] || `Coluna ${i + 1}` }));
+
+  const updateMapping = (changes: Partial<CsvMapping>) => setMapping(m => ({ ...m, ...changes }));
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      let text = e.target?.result as string;
+      const detected = detectFormat(file.name, text);
+      // Cópias exportadas com o cofre ativo vêm cifradas
+      if (detected === 'json') {
+        const decrypted = await decryptExport(text);
+        if (decrypted === null) return;
+        text = decrypted;
+      }
+      const profile = profiles.find(p => p.id === profileId);
+      setFileName(file.name);
+      setContent(text);
+      setFormat(detected);
+      setMapping(profile ? profile.mapping : { ...DEFAULT_CSV_MAPPING, delimiter: detectDelimiter(text) });
+      // Com um perfil guardado, um CSV segue diretamente para a pré-visualização
+      setStep(detected === 'csv' && !profile ? 'mapping' : 'preview');
+    };
+    reader.readAsText(file);
+  };
+
+  const columnSelect = (key: keyof CsvMapping, label: string, optional = false) => (
+    <div className="space-y-2">
+      <label className={labelClass}>{label}</label>
+      <select value={mapping[key] as number} onChange={(e) => updateMapping({ [key]: Number(e.target.value) })} className={selectClass}>
+        {optional && <option value={-1}>—</option>}
+        {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className={`relative bg-[#1e293b] w-full ${step === 'file' ? 'max-w-sm' : 'max-w-3xl'} rounded-[2rem] md:rounded-[2.5rem] p-8 md:p-10 shadow-2xl border border-slate-800 overflow-y-auto max-h-[90vh]`}>
+        <div className="flex items-center gap-3 mb-8 md:mb-10">
+          <ArrowDownTrayIcon className="w-5 h-5 text-indigo-400" />
+          <h3 className="text-lg font-bold text-white tracking-tight">Importar Extrato</h3>
+          {fileName && <span className="text-[10px] font-black bg-indigo-500/10 text-indigo-400 px-3 py-1 rounded-full uppercase ml-auto truncate max-w-[50%]">{FORMAT_LABELS[format]} • {fileName}</span>}
+        </div>
+
+        {step === 'file' && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <label className={labelClass}>Conta de Destino</label>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClass}>
+                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            {profiles.length > 0 && (
+              <div className="space-y-2">
+                <label className={labelClass}>Perfil do Banco</label>
+                <div className="flex gap-2">
+                  <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={selectClass}>
+                    <option value="">Configurar manualmente</option>
+                    {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  {profileId && (
+                    <button onClick={() => { onDeleteProfile(profileId); setProfileId(''); }} className="px-3 text-slate-500 hover:text-rose-500 transition-colors">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            <div onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-slate-700/50 rounded-[1.25rem] p-4 flex items-center gap-4 cursor-pointer hover:bg-slate-800/40 transition-all">
+              <DocumentArrowUpIcon className="w-5 h-5 text-slate-400" />
+              <span className="text-[10px] md:text-xs font-semibold text-slate-400 truncate">Selecione CSV, OFX, QIF ou JSON...</span>
+            </div>
+            <input type="file" ref={fileInputRef} onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} accept=".csv,.txt,.ofx,.qfx,.qif,.json" className="hidden" />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Separador</label>
+                <select value={mapping.delimiter} onChange={(e) => updateMapping({ delimiter: e.target.value })} className={selectClass}>
+                  <option value=";">;</option>
+                  <option value=",">,</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">|</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Decimal</label>
+                <select value={mapping.decimalSeparator} onChange={(e) => updateMapping({ decimalSeparator: e.target.value as ',' | '.' })} className={selectClass}>
+                  <option value=",">1.234,56</option>
+                  <option value=".">1,234.56</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Data</label>
+                <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })} className={selectClass}>
+                  <option value="dd/mm/yyyy">dd/mm/aaaa</option>
+                  <option value="mm/dd/yyyy">mm/dd/aaaa</option>
+                  <option value="yyyy-mm-dd">aaaa-mm-dd</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Ignorar Linhas</label>
+                <input type="number" min={0} value={mapping.skipRows} onChange={(e) => updateMapping({ skipRows: Math.max(0, Number(e.target.value)) })} className={selectClass} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {columnSelect('dateColumn', 'Coluna Data')}
+              {columnSelect('descriptionColumn', 'Descrição')}
+              {columnSelect('categoryColumn', 'Categoria', true)}
+              <div className="space-y-2">
+                <label className={labelClass}>Valores</label>
+                <select value={mapping.amountMode} onChange={(e) => updateMapping({ amountMode: e.target.value as CsvMapping['amountMode'] })} className={selectClass}>
+                  <option value="signed">Uma coluna (±)</option>
+                  <option value="split">Débito / Crédito</option>
+                </select>
+              </div>
+              {mapping.amountMode === 'signed' ? columnSelect('amountColumn', 'Montante') : (
+                <>
+                  {columnSelect('debitColumn', 'Débito', true)}
+                  {columnSelect('creditColumn', 'Crédito', true)}
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-6 text-xs font-bold text-slate-400">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} className="accent-indigo-500" />
+                Primeira linha é cabeçalho
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={mapping.invertSign} onChange={(e) => updateMapping({ invertSign: e.target.checked })} className="accent-indigo-500" />
+                Inverter sinal (despesas positivas)
+              </label>
+            </div>
+
+            <div className="overflow-x-auto rounded-2xl border border-slate-700">
+              <table className="w-full text-[10px] md:text-xs text-slate-300">
+                <tbody>
+                  {rawRows.slice(mapping.skipRows, mapping.skipRows + 6).map((r, i) => (
+                    <tr key={i} className={i === 0 && mapping.hasHeader ? 'bg-slate-800/60 font-black text-slate-400 uppercase' : 'border-t border-slate-800'}>
+                      {r.map((cell, j) => <td key={j} className="px-3 py-2 whitespace-nowrap">{cell}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="Nome do perfil (ex.: CGD)" className={selectClass} />
+              <button
+                disabled={!profileName.trim()}
+                onClick={() => {
+                  const profile = { id: Math.random().toString(36).substr(2, 9), name: profileName.trim(), mapping };
+                  onSaveProfile(profile);
+                  setProfileId(profile.id);
+                  setProfileName('');
+                }}
+                className="px-6 py-3 rounded-xl bg-slate-800/60 text-slate-300 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 disabled:opacity-50 whitespace-nowrap"
+              >
+                Guardar Perfil
+              </button>
+            </div>
+
+            <button onClick={() => setStep('preview')} className="w-full bg-indigo-600 py-4 md:py-5 rounded-[1.25rem] text-white font-black text-[10px] md:text-xs uppercase tracking-[0.1em] transition-all hover:bg-indigo-500">
+              Pré-visualizar ({rows.length}){skipped > 0 && ` • ${skipped} erro(s)`}
+            </button>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-6">
+            {!error && issues.length > 0 && !pending?.length && (
+              <div className="space-y-3">
+                <p className="text-[10px] md:text-xs font-bold text-slate-400 flex items-center gap-2">
+                  <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                  {skipped > 0 ? `${skipped} problema(s) impedem a importação das linhas indicadas; as restantes são importadas.` : 'Reveja os avisos antes de importar.'}
+                </p>
+                <div className="grid gap-2 max-h-[25vh] overflow-y-auto">
+                  {issues.slice(0, 100).map((issue, i) => (
+                    <div key={i} className={`px-4 py-2 rounded-xl border flex items-center gap-4 ${issue.severity === 'error' ? 'bg-rose-500/5 border-rose-500/20' : 'bg-amber-500/5 border-amber-500/20'}`}>
+                      <span className="text-[10px] font-black text-slate-500 uppercase whitespace-nowrap">Linha {issue.line}</span>
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-xs font-bold ${issue.severity === 'error' ? 'text-rose-400' : 'text-amber-400'}`}>{issue.message}</p>
+                        {issue.value && <p className="text-[10px] text-slate-500 font-mono truncate">{issue.value}</p>}
+                      </div>
+                    </div>
+                  ))}
+                  {issues.length > 100 && <p className="text-[10px] text-slate-500 text-center uppercase font-black">E mais {issues.length - 100} problemas...</p>}
+                </div>
+              </div>
+            )}
+            {error ? (
+              <p className="text-sm text-rose-400 font-bold">{error}</p>
+            ) : preview.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Nenhum movimento reconhecido. Reveja o mapeamento das colunas.</p>
+            ) : pending && pending.length > 0 ? (
+              <div className="space-y-4">
+                <p className="text-xs text-slate-400 font-bold">Confirme as categorias sugeridas. Os movimentos não selecionados ficam em {categoryName(categories, uncategorizedCategory)}.</p>
+                <div className="grid gap-2 max-h-[45vh] overflow-y-auto">
+                  {pending.map(s => (
+                    <div key={s.index} className="bg-slate-800/40 px-4 py-3 rounded-xl border border-slate-700 flex items-center gap-4">
+                      <input type="checkbox" checked={s.accepted} onChange={(e) => updatePending(s.index, { accepted: e.target.checked })} className="accent-indigo-500" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-bold text-white truncate">{preview[s.index].description || 'Sem descrição'}</p>
+                        <p className="text-[10px] text-slate-500 uppercase font-black">{preview[s.index].date} • {formatCurrency(preview[s.index].amount)}</p>
+                      </div>
+                      <select value={s.categoryId} onChange={(e) => updatePending(s.index, { categoryId: e.target.value, accepted: true })} className="bg-slate-800/40 rounded-xl p-2 text-xs text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                        {categories.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <button onClick={() => setPending(null)} className="w-full bg-slate-800/60 py-3 rounded-xl text-slate-300 font-black text-[10px] uppercase tracking-widest hover:bg-slate-700 transition-all">
+                    Descartar
+                  </button>
+                  <button onClick={applySuggestions} className="w-full bg-indigo-600 py-3 rounded-xl text-white font-black text-[10px] uppercase tracking-widest hover:bg-indigo-500 transition-all">
+                    Aplicar {pending.filter(s => s.accepted).length}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid gap-2 max-h-[45vh] overflow-y-auto">
+                {uncategorized.length > 0 && (
+                  <div className="flex items-center justify-between gap-4 bg-indigo-500/5 px-4 py-3 rounded-xl border border-indigo-500/20">
+                    <p className="text-[10px] md:text-xs font-bold text-slate-400">
+                      {uncategorized.length} movimento(s) em {categoryName(categories, uncategorizedCategory)}
+                      {suggestionError && <span className="block text-amber-400">{suggestionError}</span>}
+                    </p>
+                    <button onClick={requestSuggestions} disabled={suggesting} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all disabled:opacity-50 whitespace-nowrap">
+                      <SparklesIcon className={`w-4 h-4 ${suggesting ? 'animate-pulse' : ''}`} />
+                      {suggesting ? 'A sugerir...' : 'Sugerir categorias'}
+                    </button>
+                  </div>
+                )}
+                {preview.slice(0, 100).map(t => (
+                  <div key={t.id} className="bg-slate-800/40 px-4 py-3 rounded-xl border border-slate-700 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-white truncate">{t.description || 'Sem descrição'}</p>
+                      <p className="text-[10px] text-slate-500 uppercase font-black">{t.date} • {categoryName(categories, t.categoryId)}</p>
+                    </div>
+                    <span className={`text-sm font-black whitespace-nowrap ${t.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      {t.type === TransactionType.INCOME ? '+' : '-'} {formatCurrency(t.amount)}
+                    </span>
+                  </div>
+                ))}
+                {preview.length > 100 && <p className="text-[10px] text-slate-500 text-center uppercase font-black">E mais {preview.length - 100} movimentos...</p>}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <button onClick={() => format === 'csv' ? setStep('mapping') : setStep('file')} className="w-full bg-slate-800/60 py-4 rounded-[1.25rem] text-slate-300 font-black text-[10px] md:text-xs uppercase tracking-[0.1em] hover:bg-slate-700 transition-all">
+                Voltar
+              </button>
+              <button onClick={continueFromPreview} disabled={preview.length === 0 || !!pending?.length} className="w-full bg-indigo-600 py-4 rounded-[1.25rem] text-white font-black text-[10px] md:text-xs uppercase tracking-[0.1em] hover:bg-indigo-500 transition-all disabled:opacity-50">
+                Importar {preview.length}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-6">
+            <p className="text-xs text-slate-400 font-bold">
+              {conflicts.length} movimento(s) parecem já existir. Escolha o que fazer com cada um antes de confirmar.
+            </p>
+            <div className="grid gap-3 max-h-[50vh] overflow-y-auto">
+              {conflicts.map(c => {
+                const decision = decisions[c.duplicate.id] || defaultDecision(c);
+                return (
+                  <div key={c.duplicate.id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-[10px] font-black bg-amber-500/10 text-amber-400 px-3 py-1 rounded-full uppercase">
+                        {c.reason === 'externalId' ? 'Mesmo ID bancário' : `${Math.round(c.confidence * 100)}% semelhante`}
+                      </span>
+                      <div className="flex gap-1">
+                        {(Object.keys(DECISION_LABELS) as ImportDecision[]).filter(d => d !== 'merge' || !c.sameImport).map(d => (
+                          <button key={d} onClick={() => setDecisions(p => ({ ...p, [c.duplicate.id]: d }))} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${decision === d ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                            {DECISION_LABELS[d]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+                      {([['Importado', c.duplicate], [c.sameImport ? 'No mesmo ficheiro' : 'Existente', c.original]] as [string, Transaction][]).map(([label, t]) => (
+                        <div key={label} className="min-w-0">
+                          <p className="text-[10px] text-slate-500 uppercase font-black">{label}</p>
+                          <p className="font-bold text-white truncate">{t.description || 'Sem descrição'}</p>
+                          <p className="text-[10px] text-slate-500 uppercase font-black">{t.date} • {categoryName(categories, t.categoryId)} • {formatCurrency(t.amount)}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <button onClick={() => setStep('preview')} className="w-full bg-slate-800/60 py-4 rounded-[1.25rem] text-slate-300 font-black text-[10px] md:text-xs uppercase tracking-[0.1em] hover:bg-slate-700 transition-all">
+                Voltar
+              </button>
+              <button onClick={commit} className="w-full bg-indigo-600 py-4 rounded-[1.25rem] text-white font-black text-[10px] md:text-xs uppercase tracking-[0.1em] hover:bg-indigo-500 transition-all">
+                Confirmar
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
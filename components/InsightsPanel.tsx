@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Cog6ToothIcon, FunnelIcon, PaperAirplaneIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { Account, AssistantAnswer, Category, InsightSeverity, Money, TransactionFilters } from '../types';
+import { InsightResult } from '../services/insightService';
+import { describeToolCall } from '../services/assistantService';
+import { EMPTY_FILTERS } from '../services/queryService';
+import { categoryName } from '../services/categoryService';
+
+interface InsightsPanelProps {
+  providerLabel: string;
+  accounts: Account[];
+  categories: Category[];
+  formatCurrency: (v: Money) => string;
+  onGenerate: () => Promise<InsightResult>;
+  onAsk: (question: string) => Promise<AssistantAnswer>;
+  // Aplica os filtros ao histórico e mostra-o
+  onShowTransactions: (filters: TransactionFilters) => void;
+  onOpenSettings: () => void;
+}
+
+const SEVERITY_STYLES: Record<InsightSeverity, string> = {
+  positive: 'border-emerald-400/60',
+  info: 'border-white/20',
+  warning: 'border-amber-400/70',
+  critical: 'border-rose-400/80'
+};
+
+const SEVERITY_LABELS: Record<InsightSeverity, string> = {
+  positive: 'Positivo',
+  info: 'Info',
+  warning: 'Atenção',
+  critical: 'Crítico'
+};
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ providerLabel, accounts, categories, formatCurrency, onGenerate, onAsk, onShowTransactions, onOpenSettings }) => {
+  const [result, setResult] = useState<InsightResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [answers, setAnswers] = useState<AssistantAnswer[]>([]);
+  const [asking, setAsking] = useState(false);
+
+  const generate = async () => {
+    setLoading(true);
+    setResult(await onGenerate());
+    setLoading(false);
+  };
+
+  const ask = async (form: HTMLFormElement) => {
+    const question = (new FormData(form).get('question') as string).trim();
+    if (!question) return;
+    setAsking(true);
+    const answer = await onAsk(question);
+    setAnswers(p => [...p, answer]);
+    setAsking(false);
+    form.reset();
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 p-8 md:p-12 rounded-[2rem] md:rounded-[3.5rem] text-white shadow-2xl lg:sticky lg:top-12 flex flex-col min-h-[400px] lg:max-h-[calc(100vh-6rem)] lg:overflow-y-auto">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="w-10 h-10 bg-white/10 rounded-xl flex items-center justify-center backdrop-blur-md">
+          <SparklesIcon className="w-6 h-6 text-white" />
+        </div>
+        <h3 className="text-2xl md:text-3xl font-black tracking-tighter uppercase leading-none">AI Insights</h3>
+        <button onClick={onOpenSettings} title="Definições de IA" className="ml-auto p-2 rounded-xl text-indigo-200 hover:text-white hover:bg-white/10 transition-all">
+          <Cog6ToothIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-indigo-100 text-sm md:text-lg font-medium leading-snug mb-10 md:mb-12 opacity-90 italic">Análise baseada nos seus dados reais • {providerLabel}</p>
+      <button disabled={loading} onClick={generate} className="w-full bg-white py-4 md:py-5 rounded-2xl md:rounded-[1.75rem] text-indigo-700 font-black text-xs md:text-sm uppercase tracking-widest hover:bg-indigo-50 transition-all active:scale-95">
+        {loading ? 'A analisar...' : 'Gerar Análise'}
+      </button>
+
+      {result && (
+        <div className="grid gap-3 mt-8">
+          {result.error && <p className="text-[10px] font-black uppercase tracking-widest text-amber-300">{result.error} Análise offline:</p>}
+          {result.insights.length === 0 && <p className="text-xs md:text-sm text-indigo-100 italic">Ainda não há movimentos suficientes para gerar uma análise.</p>}
+          {result.insights.map((insight, i) => (
+            <button
+              key={i}
+              disabled={insight.categoryIds.length === 0}
+              onClick={() => onShowTransactions({ ...EMPTY_FILTERS, categoryIds: insight.categoryIds })}
+              title={insight.categoryIds.length > 0 ? 'Ver os movimentos destas categorias' : undefined}
+              className={`text-left bg-indigo-950/40 p-4 md:p-5 rounded-2xl border-l-4 ${SEVERITY_STYLES[insight.severity]} enabled:hover:bg-indigo-950/60 transition-all`}
+            >
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <p className="text-sm font-black">{insight.title}</p>
+                <span className="text-[9px] font-black uppercase tracking-widest text-indigo-200 whitespace-nowrap">{SEVERITY_LABELS[insight.severity]}</span>
+              </div>
+              {insight.detail && <p className="text-xs text-indigo-100 leading-relaxed">{insight.detail}</p>}
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {insight.categoryIds.map(id => <span key={id} className="text-[10px] font-bold bg-white/10 px-2 py-0.5 rounded-md">{categoryName(categories, id)}</span>)}
+                {insight.suggestedSaving !== null && (
+                  <span className="text-[10px] font-black text-emerald-300 uppercase">Poupança possível: {formatCurrency(insight.suggestedSaving)}/mês</span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-10 pt-8 border-t border-white/10">
+        <p className="text-[10px] font-black uppercase tracking-widest text-indigo-200 mb-4">Pergunte às suas finanças</p>
+        <div className="grid gap-4 mb-4">
+          {answers.map((a, i) => (
+            <div key={i} className="space-y-2">
+              <p className="text-xs font-bold text-indigo-200">{a.question}</p>
+              <div className="bg-indigo-950/40 p-4 rounded-2xl text-xs md:text-sm leading-relaxed">
+                {a.error && <p className="text-[10px] font-black uppercase tracking-widest text-amber-300 mb-2">{a.error} Resposta offline:</p>}
+                <p className="whitespace-pre-wrap">{a.answer}</p>
+                {a.calls.length > 0 ? (
+                  <div className="mt-3 pt-3 border-t border-white/10 grid gap-1">
+                    {a.calls.map((call, j) => (
+                      <button key={j} onClick={() => onShowTransactions(call.filters)} title="Ver os movimentos usados neste cálculo" className="flex items-center gap-2 text-left text-[10px] text-indigo-200 hover:text-white transition-colors">
+                        <FunnelIcon className="w-3 h-3 flex-shrink-0" />
+                        <span>{describeToolCall(call, accounts, categories)} = <b>{formatCurrency(call.result.total)}</b> ({call.result.count} mov.)</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : a.provider !== 'offline' && (
+                  <p className="mt-3 text-[10px] font-black uppercase text-amber-300">Resposta sem cálculos locais: não verificada.</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={(e) => { e.preventDefault(); ask(e.currentTarget); }} className="flex gap-2">
+          <input
+            name="question"
+            disabled={asking}
+            placeholder="Quanto gastei em Lazer em março?"
+            className="min-w-0 flex-1 bg-indigo-950/40 rounded-2xl px-4 py-3 text-sm text-white placeholder:text-indigo-300/60 border border-white/10 outline-none focus:ring-2 focus:ring-white/40"
+          />
+          <button type="submit" disabled={asking} className="bg-white px-4 rounded-2xl text-indigo-700 hover:bg-indigo-50 transition-all disabled:opacity-50">
+            <PaperAirplaneIcon className={`w-5 h-5 ${asking ? 'animate-pulse' : ''}`} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InsightsPanel;
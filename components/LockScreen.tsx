@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-slate-100 font-sans flex items-center justify-center p-6">
+      <form onSubmit={async (e) => {
+        e.preventDefault();
+        const form = e.currentTarget;
+        const passphrase = new FormData(form).get('passphrase') as string;
+        setUnlocking(true);
+        setError(null);
+        const ok = await onUnlock(passphrase);
+        setUnlocking(false);
+        if (!ok) {
+          setError('Frase-passe incorreta.');
+          form.reset();
+        }
+      }} className="bg-[#1e293b] w-full max-w-md rounded-[2.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 space-y-6 animate-fade-in">
+        <div className="w-14 h-14 bg-indigo-600 rounded-2xl flex items-center justify-center shadow-2xl shadow-indigo-600/40 mx-auto">
+          <LockClosedIcon className="w-7 h-7 text-white" />
+        </div>
+        <h3 className="text-2xl font-black text-white uppercase text-center">Cofre Bloqueado</h3>
+        <input type="password" name="passphrase" required autoFocus placeholder="Frase-passe" className="w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+        {error && <p className="text-xs text-rose-400 font-bold">{error}</p>}
+        <button type="submit" disabled={unlocking} className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all disabled:opacity-50">
+          {unlocking ? 'A desbloquear...' : 'Desbloquear'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { SparklesIcon } from '@heroicons/react/24/outline';
+import { ParsedEntry } from '../types';
+import { QuickEntryResult } from '../services/quickEntryService';
+
+interface QuickEntryProps {
+  onParse: (text: string) => Promise<QuickEntryResult>;
+  // Preenche o formulário com o que foi reconhecido
+  onApply: (entry: ParsedEntry) => void;
+}
+
+const QuickEntry: React.FC<QuickEntryProps> = ({ onParse, onApply }) => {
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const parse = async () => {
+    if (!text.trim()) return;
+    setLoading(true);
+    const result = await onParse(text.trim());
+    setLoading(false);
+    onApply(result.entry);
+    const missing = [result.entry.amount === null && 'valor', !result.entry.categoryId && 'categoria'].filter(Boolean);
+    setMessage([
+      result.error && `${result.error} Leitura offline.`,
+      missing.length > 0 && `Não reconhecido: ${missing.join(', ')}.`
+    ].filter(Boolean).join(' ') || null);
+  };
+
+  return (
+    <div className="bg-indigo-500/5 p-4 rounded-2xl border border-indigo-500/20 space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); parse(); } }}
+        placeholder="Ex.: café 2,50 ontem — ou cole um talão ou SMS do banco"
+        rows={2}
+        className="w-full bg-slate-800/40 rounded-xl p-3 text-sm text-white border border-slate-700 resize-none outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <div className="flex items-center gap-3">
+        <button type="button" disabled={loading || !text.trim()} onClick={parse} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all disabled:opacity-50">
+          <SparklesIcon className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+          {loading ? 'A ler...' : 'Preencher'}
+        </button>
+        {message && <p className="text-[10px] font-bold text-amber-400">{message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default QuickEntry;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { PencilIcon, TrashIcon, PauseIcon, PlayIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { Account, Category, Money, RecurringRule, RecurrenceFrequency, TransactionType } from '../types';
+import { FREQUENCY_LABELS, getNextOccurrence } from '../services/recurringService';
+import { todayISO } from '../services/dateUtils';
+import { DEFAULT_ACCOUNT_ID } from '../services/accountService';
+import { fromMoney, validateAmountInput } from '../services/moneyService';
+import { categoryName } from '../services/categoryService';
+
+interface RecurringRulesModalProps {
+  rules: RecurringRule[];
+  categories: Category[];
+  accounts: Account[];
+  formatCurrency: (v: Money) => string;
+  onSave: (rule: RecurringRule) => void;
+  onDelete: (id: string) => void;
+  onToggle: (id: string) => void;
+  onClose: () => void;
+}
+
+const RecurringRulesModal: React.FC<RecurringRulesModalProps> = ({ rules, categories, accounts, formatCurrency, onSave, onDelete, onToggle, onClose }) => {
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Recorrentes</h3>
+          {!isFormOpen && (
+            <button onClick={() => { setEditingRule(null); setIsFormOpen(true); }} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 transition-colors">
+              Nova Regra
+            </button>
+          )}
+        </div>
+
+        {isFormOpen ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            const startDate = fd.get('startDate') as string;
+            const endDate = fd.get('endDate') as string;
+            const dayOfMonth = parseInt(fd.get('dayOfMonth') as string, 10);
+            const amount = validateAmountInput(fd.get('amount') as string);
+            if ('error' in amount) {
+              alert(amount.error);
+              return;
+            }
+            const rule: RecurringRule = {
+              id: editingRule?.id || Math.random().toString(36).substr(2, 9),
+              type: fd.get('type') as TransactionType,
+              amount: amount.amount,
+              categoryId: fd.get('categoryId') as string,
+              description: fd.get('description') as string,
+              frequency: fd.get('frequency') as RecurrenceFrequency,
+              accountId: fd.get('accountId') as string,
+              startDate,
+              endDate: endDate || undefined,
+              dayOfMonth: dayOfMonth > 0 ? dayOfMonth : undefined,
+              // Alterar o início reinicia o cursor de geração
+              lastGeneratedDate: editingRule && editingRule.startDate === startDate ? editingRule.lastGeneratedDate : undefined,
+              active: editingRule ? editingRule.active : true
+            };
+            onSave(rule);
+            setIsFormOpen(false);
+          }} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+              <select name="type" defaultValue={editingRule?.type || TransactionType.EXPENSE} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                <option value={TransactionType.EXPENSE}>Saída</option>
+                <option value={TransactionType.INCOME}>Entrada</option>
+              </select>
+              <input type="text" inputMode="decimal" name="amount" required placeholder="0,00 €" defaultValue={editingRule ? fromMoney(editingRule.amount).toFixed(2) : undefined} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+              <select name="frequency" defaultValue={editingRule?.frequency || RecurrenceFrequency.MONTHLY} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                {Object.values(RecurrenceFrequency).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+              </select>
+              <select name="categoryId" defaultValue={editingRule?.categoryId} className="bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                {categories.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+              </select>
+            </div>
+            <select name="accountId" defaultValue={editingRule?.accountId || DEFAULT_ACCOUNT_ID} className="w-full bg-slate-800/40 rounded-2xl p-4 md:p-5 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-6">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Início</label>
+                <input type="date" name="startDate" required defaultValue={editingRule?.startDate || todayISO()} className="w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Fim (opcional)</label>
+                <input type="date" name="endDate" defaultValue={editingRule?.endDate} className="w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Dia do Mês</label>
+                <input type="number" name="dayOfMonth" min={1} max={31} placeholder="Auto" defaultValue={editingRule?.dayOfMonth} className="w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+            </div>
+            <textarea name="description" placeholder="Detalhes..." defaultValue={editingRule?.description} className="w-full bg-slate-800/40 rounded-2xl p-5 md:p-6 text-white border border-slate-700 min-h-[80px] resize-none outline-none focus:ring-2 focus:ring-indigo-500" />
+            <div className="grid grid-cols-2 gap-4">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all">Cancelar</button>
+              <button type="submit" className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all">Guardar</button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid gap-3">
+            {rules.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Nenhuma regra recorrente definida.</p>
+            ) : (
+              rules.map(rule => {
+                const next = getNextOccurrence(rule);
+                return (
+                  <div key={rule.id} className={`bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4 ${rule.active ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-4 min-w-0">
+                      <ArrowPathIcon className={`w-5 h-5 flex-shrink-0 ${rule.type === TransactionType.INCOME ? 'text-emerald-400' : 'text-rose-400'}`} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-bold text-white truncate">{rule.description || categoryName(categories, rule.categoryId)}</p>
+                        <p className="text-[10px] text-slate-500 uppercase font-black">
+                          {FREQUENCY_LABELS[rule.frequency]} • {categoryName(categories, rule.categoryId)} • {formatCurrency(rule.amount)}
+                          {next ? ` • Próxima: ${next}` : ' • Terminada'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button onClick={() => onToggle(rule.id)} title={rule.active ? 'Pausar' : 'Retomar'} className="p-2 text-slate-500 hover:text-white transition-colors">
+                        {rule.active ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => { setEditingRule(rule); setIsFormOpen(true); }} className="p-2 text-slate-500 hover:text-indigo-400 transition-colors"><PencilIcon className="w-4 h-4" /></button>
+                      <button onClick={() => onDelete(rule.id)} className="p-2 text-slate-600 hover:text-rose-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringRulesModal;
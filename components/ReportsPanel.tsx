@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, AreaChart, Area,
+  XAxis, YAxis, Tooltip, Legend, CartesianGrid
+} from 'recharts';
+import { Category, Money, ReportGranularity, Transaction } from '../types';
+import { aggregateByPeriod, categoryTrends, expensesByCategoryOverTime, formatPeriodLabel, GRANULARITY_LABELS, OTHER_CATEGORIES } from '../services/reportService';
+import { categoryName } from '../services/categoryService';
+import { fromMoney, sumMoney, toMoney } from '../services/moneyService';
+
+interface ReportsPanelProps {
+  transactions: Transaction[];
+  categories: Category[];
+  colors: string[];
+  formatCurrency: (v: Money) => string;
+}
+
+type ReportView = 'flow' | 'balance' | 'categories';
+
+const VIEW_LABELS: Record<ReportView, string> = {
+  flow: 'Entradas vs Saídas',
+  balance: 'Saldo Acumulado',
+  categories: 'Categorias'
+};
+
+const tooltipStyle = { borderRadius: '24px', border: 'none', backgroundColor: '#0f172a', color: '#fff' };
+const axisTick = { fill: '#64748b', fontSize: 10, fontWeight: 700 };
+
+const ReportsPanel: React.FC<ReportsPanelProps> = ({ transactions, categories, colors, formatCurrency }) => {
+  const [granularity, setGranularity] = useState<ReportGranularity>('month');
+  const [view, setView] = useState<ReportView>('flow');
+
+  const summaries = useMemo(() => aggregateByPeriod(transactions, granularity), [transactions, granularity]);
+  const categorySeries = useMemo(() => expensesByCategoryOverTime(transactions, granularity), [transactions, granularity]);
+  const lastPeriod = summaries.length > 0 ? summaries[summaries.length - 1].period : null;
+  const trends = useMemo(
+    () => lastPeriod ? categoryTrends(transactions, lastPeriod, granularity).slice(0, 6) : [],
+    [transactions, lastPeriod, granularity]
+  );
+
+  // As séries vêm por identificador; a legenda mostra o nome atual
+  const seriesName = (key: string) => (key === OTHER_CATEGORIES ? key : categoryName(categories, key));
+
+  // Os gráficos trabalham em unidades da moeda
+  const flowRows = useMemo(
+    () => summaries.map(p => ({ period: p.period, income: fromMoney(p.income), expenses: fromMoney(p.expenses), balance: fromMoney(p.balance) })),
+    [summaries]
+  );
+  const categoryRows = useMemo(
+    () => categorySeries.rows.map(row => Object.fromEntries(
+      Object.entries(row).map(([k, v]) => [k, typeof v === 'number' ? fromMoney(v as Money) : v])
+    )),
+    [categorySeries]
+  );
+
+  const totalIncome = sumMoney(summaries.map(p => p.income));
+  const totalNet = sumMoney(summaries.map(p => p.net));
+  const savingsRate = totalIncome > 0 ? (totalNet / totalIncome) * 100 : null;
+  const label = (period: string) => formatPeriodLabel(period, granularity);
+  const tooltipValue = (v: unknown) => formatCurrency(toMoney(Number(v)));
+
+  return (
+    <div className="bg-[#1e293b] p-6 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-slate-800 shadow-2xl">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl md:text-2xl font-black text-white">Relatórios</h3>
+        <div className="flex gap-2">
+          {(Object.keys(GRANULARITY_LABELS) as ReportGranularity[]).map(g => (
+            <button key={g} onClick={() => setGranularity(g)} className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase transition-all ${granularity === g ? 'bg-indigo-500/10 text-indigo-400' : 'text-slate-500 hover:text-white'}`}>
+              {GRANULARITY_LABELS[g]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {summaries.length === 0 ? (
+        <div className="text-center py-10 text-slate-500 font-bold uppercase tracking-widest text-xs">
+          Sem dados para exibir.
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-4 mb-8 overflow-x-auto">
+            {(Object.keys(VIEW_LABELS) as ReportView[]).map(v => (
+              <button key={v} onClick={() => setView(v)} className={`flex-shrink-0 text-[10px] md:text-xs font-black uppercase tracking-widest transition-colors ${view === v ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                {VIEW_LABELS[v]}
+              </button>
+            ))}
+          </div>
+
+          <div className="h-[260px] md:h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              {view === 'flow' ? (
+                <BarChart data={flowRows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={label} tick={axisTick} axisLine={false} tickLine={false} />
+                  <YAxis tick={axisTick} axisLine={false} tickLine={false} width={50} />
+                  <Tooltip contentStyle={tooltipStyle} labelFormatter={(l) => label(String(l))} formatter={tooltipValue} cursor={{ fill: '#334155', opacity: 0.3 }} />
+                  <Legend wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+                  <Bar dataKey="income" name="Entradas" fill="#10b981" radius={[6, 6, 0, 0]} />
+                  <Bar dataKey="expenses" name="Saídas" fill="#ef4444" radius={[6, 6, 0, 0]} />
+                </BarChart>
+              ) : view === 'balance' ? (
+                <LineChart data={flowRows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={label} tick={axisTick} axisLine={false} tickLine={false} />
+                  <YAxis tick={axisTick} axisLine={false} tickLine={false} width={50} />
+                  <Tooltip contentStyle={tooltipStyle} labelFormatter={(l) => label(String(l))} formatter={tooltipValue} />
+                  <Line type="monotone" dataKey="balance" name="Saldo" stroke="#6366f1" strokeWidth={3} dot={false} />
+                </LineChart>
+              ) : (
+                <AreaChart data={categoryRows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={label} tick={axisTick} axisLine={false} tickLine={false} />
+                  <YAxis tick={axisTick} axisLine={false} tickLine={false} width={50} />
+                  <Tooltip contentStyle={tooltipStyle} labelFormatter={(l) => label(String(l))} formatter={tooltipValue} />
+                  <Legend wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+                  {categorySeries.categories.map((c, i) => (
+                    <Area key={c} type="monotone" dataKey={c} name={seriesName(c)} stackId="1" stroke={colors[i % colors.length]} fill={colors[i % colors.length]} fillOpacity={0.5} />
+                  ))}
+                </AreaChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mt-10">
+            <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Taxa de Poupança</p>
+              <p className={`text-2xl font-black ${savingsRate === null ? 'text-slate-500' : savingsRate >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {savingsRate === null ? '—' : `${savingsRate.toFixed(1)}%`}
+              </p>
+              {lastPeriod && summaries[summaries.length - 1].savingsRate !== null && (
+                <p className="text-[10px] text-slate-500 uppercase font-black mt-1">
+                  {label(lastPeriod)}: {summaries[summaries.length - 1].savingsRate!.toFixed(1)}%
+                </p>
+              )}
+            </div>
+            <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Variação {lastPeriod && `• ${label(lastPeriod)}`}</p>
+              {trends.length === 0 ? (
+                <p className="text-xs text-slate-500 italic">Sem despesas nos dois últimos períodos.</p>
+              ) : (
+                <div className="space-y-2">
+                  {trends.map(t => (
+                    <div key={t.categoryId} className="flex items-center justify-between gap-4 text-xs">
+                      <span className="font-bold text-slate-300 truncate">{categoryName(categories, t.categoryId)}</span>
+                      <span className={`font-black whitespace-nowrap ${t.change > 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                        {t.change > 0 ? '+' : ''}{formatCurrency(t.change)}
+                        {t.changePercent !== null && ` (${t.changePercent > 0 ? '+' : ''}${t.changePercent.toFixed(0)}%)`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportsPanel;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Category, TransactionSplit } from '../types';
+import { fromMoney, isMoney, parseMoney, sumMoney } from '../services/moneyService';
+
+interface SplitEditorProps {
+  categories: Category[];
+  initial: TransactionSplit[];
+}
+
+interface SplitRow {
+  key: string;
+  categoryId: string;
+  amount: string;
+  description: string;
+}
+
+const newRow = (categoryId: string, amount = '', description = ''): SplitRow => ({
+  key: Math.random().toString(36).substr(2, 9),
+  categoryId,
+  amount,
+  description
+});
+
+const inputClass = "bg-slate-800/40 rounded-xl px-3 py-3 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Partes de um movimento dividido; os campos seguem no formulário como
+// splitCategory / splitAmount / splitDescription (lidos com FormData.getAll)
+const SplitEditor: React.FC<SplitEditorProps> = ({ categories, initial }) => {
+  const [rows, setRows] = useState<SplitRow[]>(() =>
+    initial.length > 0
+      ? initial.map(l => newRow(l.categoryId, fromMoney(l.amount).toFixed(2), l.description || ''))
+      : [newRow(categories[0]?.id || ''), newRow((categories[1] || categories[0])?.id || '')]
+  );
+
+  const update = (key: string, changes: Partial<SplitRow>) =>
+    setRows(prev => prev.map(r => (r.key === key ? { ...r, ...changes } : r)));
+
+  const total = fromMoney(sumMoney(rows.map(r => parseMoney(r.amount)).filter(isMoney)));
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.key} className="flex gap-2">
+          <select name="splitCategory" value={row.categoryId} onChange={(e) => update(row.key, { categoryId: e.target.value })} className={`${inputClass} min-w-0 flex-1`}>
+            {categories.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+          </select>
+          <input name="splitDescription" value={row.description} onChange={(e) => update(row.key, { description: e.target.value })} placeholder="Nota" className={`${inputClass} min-w-0 flex-1 hidden sm:block`} />
+          <input type="text" inputMode="decimal" name="splitAmount" required value={row.amount} onChange={(e) => update(row.key, { amount: e.target.value })} placeholder="0.00" className={`${inputClass} w-28`} />
+          <button type="button" disabled={rows.length <= 2} onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))} className="px-2 text-slate-600 hover:text-rose-500 transition-colors disabled:opacity-30">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between px-1">
+        <button type="button" onClick={() => setRows(prev => [...prev, newRow(categories[0]?.id || '')])} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-300 flex items-center gap-1">
+          <PlusIcon className="w-3 h-3" /> Parte
+        </button>
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Soma das partes: {total.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { FunnelIcon, TagIcon } from '@heroicons/react/24/outline';
+import { Category, Money, Subscription, SubscriptionFlag } from '../types';
+import { CADENCE_LABELS, FLAG_LABELS, SUBSCRIPTION_TAG, totalYearlyCost } from '../services/subscriptionService';
+import { formatDatePt } from '../services/exportService';
+import { scaleMoney } from '../services/moneyService';
+import { categoryName } from '../services/categoryService';
+
+interface SubscriptionsModalProps {
+  subscriptions: Subscription[];
+  categories: Category[];
+  // Movimentos que já têm a etiqueta de subscrição
+  taggedIds: Set<string>;
+  formatCurrency: (v: Money) => string;
+  onTag: (subscription: Subscription) => void;
+  onCategorize: (subscription: Subscription, categoryId: string) => void;
+  onShowTransactions: (subscription: Subscription) => void;
+  onClose: () => void;
+}
+
+const FLAG_STYLES: Record<SubscriptionFlag, string> = {
+  'price-increase': 'bg-amber-500/10 text-amber-400',
+  doubled: 'bg-rose-500/10 text-rose-400',
+  stopped: 'bg-slate-500/10 text-slate-400'
+};
+
+const SubscriptionsModal: React.FC<SubscriptionsModalProps> = ({ subscriptions, categories, taggedIds, formatCurrency, onTag, onCategorize, onShowTransactions, onClose }) => {
+  const toReview = subscriptions.filter(s => s.flags.some(f => f !== 'stopped'));
+  const active = subscriptions.filter(s => s.flags.length === 0);
+  const stopped = subscriptions.filter(s => s.flags.includes('stopped') && !toReview.includes(s));
+
+  const renderItem = (s: Subscription) => {
+    const tagged = s.transactionIds.every(id => taggedIds.has(id));
+    return (
+      <div key={s.key} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-sm font-bold text-white truncate">{s.description}</p>
+            <p className="text-[10px] text-slate-500 uppercase font-black">
+              {CADENCE_LABELS[s.cadence]} • {s.occurrences} cobranças desde {formatDatePt(s.firstDate)}
+              {s.nextDate && ` • próxima ${formatDatePt(s.nextDate)}`}
+            </p>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-sm font-black text-rose-400">{formatCurrency(s.amount)}</p>
+            {s.flags.includes('price-increase') && s.previousAmount !== null && (
+              <p className="text-[10px] text-slate-500 font-black line-through">{formatCurrency(s.previousAmount)}</p>
+            )}
+            {s.yearlyCost > 0 && <p className="text-[10px] text-slate-500 uppercase font-black">{formatCurrency(s.yearlyCost)}/ano</p>}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {s.flags.map(f => <span key={f} className={`text-[10px] font-black px-3 py-1 rounded-full uppercase ${FLAG_STYLES[f]}`}>{FLAG_LABELS[f]}</span>)}
+          <select value={s.categoryId} onChange={(e) => onCategorize(s, e.target.value)} title="Categoria de todas as cobranças" className="ml-auto bg-slate-800/40 rounded-xl px-3 py-1.5 text-xs text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+            {!categories.some(c => c.id === s.categoryId) && <option value={s.categoryId}>{categoryName(categories, s.categoryId)}</option>}
+            {categories.map(c => <option key={c.id} value={c.id}>{c.parentId ? '— ' : ''}{c.name}</option>)}
+          </select>
+          <button onClick={() => onTag(s)} disabled={tagged} title={`Etiquetar com "${SUBSCRIPTION_TAG}"`} className="p-2 rounded-lg text-slate-400 hover:text-white disabled:text-emerald-400 transition-colors">
+            <TagIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => onShowTransactions(s)} title="Ver as cobranças no histórico" className="p-2 rounded-lg text-slate-400 hover:text-white transition-colors">
+            <FunnelIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const section = (title: string, items: Subscription[]) => items.length > 0 && (
+    <section className="space-y-4">
+      <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">{title} ({items.length})</h4>
+      <div className="grid gap-3">{items.map(renderItem)}</div>
+    </section>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">Subscrições</h3>
+
+        <div className="grid grid-cols-2 gap-4 mb-10">
+          <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Custo Anual</p>
+            <p className="text-xl font-black text-white">{formatCurrency(totalYearlyCost(subscriptions))}</p>
+          </div>
+          <div className="bg-slate-800/40 p-5 rounded-2xl border border-slate-700/50">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Por Mês</p>
+            <p className="text-xl font-black text-white">{formatCurrency(scaleMoney(totalYearlyCost(subscriptions), 1 / 12))}</p>
+          </div>
+        </div>
+
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Nenhuma cobrança recorrente encontrada no histórico.</p>
+        ) : (
+          <div className="space-y-10">
+            {section('A Rever', toReview)}
+            {section('Ativas', active)}
+            {section('Terminadas', stopped)}
+          </div>
+        )}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionsModal;
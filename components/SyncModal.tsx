@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon, ArrowUpTrayIcon, FolderOpenIcon } from '@heroicons/react/24/outline';
+import { Category, Money, SyncConflict, SyncState } from '../types';
+import { conflictFieldLabel } from '../services/syncService';
+import { fromMoney } from '../services/moneyService';
+import { categoryName } from '../services/categoryService';
+
+interface SyncModalProps {
+  sync: SyncState;
+  categories: Category[];
+  // A pasta partilhada só está disponível no desktop
+  folderSupported: boolean;
+  onRename: (name: string) => void;
+  // Devolvem uma mensagem com o resultado para mostrar ao utilizador
+  onExport: (full: boolean) => Promise<string>;
+  onImportFile: (file: File) => Promise<string>;
+  onChooseFolder: () => void;
+  onSyncFolder: () => Promise<string>;
+  onResolve: (conflict: SyncConflict, useDiscarded: boolean) => void;
+  onClose: () => void;
+}
+
+const MONEY_FIELDS = ['amount', 'openingBalance', 'minAmount', 'maxAmount'];
+
+const formatValue = (field: string, value: unknown, categories: Category[]): string => {
+  if (value === null) return 'Apagado';
+  if (value === undefined || value === '') return '—';
+  if (field === '*') return 'Mantido com alterações';
+  if (MONEY_FIELDS.includes(field)) return fromMoney(value as Money).toFixed(2);
+  if (field === 'categoryId' || field === 'parentId') return categoryName(categories, String(value));
+  if (field === 'splits' && Array.isArray(value)) return `${value.length} partes`;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  return String(value);
+};
+
+const formatMoment = (iso: string) => new Date(iso).toLocaleString('pt-PT');
+
+const buttonClass = "flex items-center justify-center gap-2 bg-slate-800/40 px-4 py-3 rounded-2xl border border-slate-700 text-xs font-black text-slate-300 uppercase tracking-widest hover:text-white transition-colors disabled:opacity-30";
+
+const SyncModal: React.FC<SyncModalProps> = ({ sync, categories, folderSupported, onRename, onExport, onImportFile, onChooseFolder, onSyncFolder, onResolve, onClose }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const peers = Object.entries(sync.peers).sort((a, b) => b[1].lastSeen.localeCompare(a[1].lastSeen));
+
+  const run = async (task: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setStatus(await task());
+    } catch (error) {
+      console.error("Sync Error:", error);
+      setStatus(error instanceof Error ? error.message : 'Falha na sincronização.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-2xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <h3 className="text-2xl md:text-3xl font-black text-white uppercase mb-8 md:mb-10">Sincronizar</h3>
+
+        <div className="space-y-10">
+          <section className="space-y-4">
+            <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Este Dispositivo</h4>
+            <input
+              key={sync.deviceName}
+              defaultValue={sync.deviceName}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== sync.deviceName) onRename(name);
+              }}
+              className="w-full bg-slate-800/40 rounded-xl p-3 text-sm text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <p className="text-[10px] text-slate-500 uppercase font-black">
+              ID {sync.deviceId}{sync.lastExport && ` • última exportação ${formatMoment(sync.lastExport)}`}
+            </p>
+          </section>
+
+          <section className="space-y-4">
+            <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Ficheiro de Alterações</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <button onClick={() => run(() => onExport(false))} disabled={busy} title={sync.lastExport ? 'Só o que mudou desde a última exportação' : 'Ainda não houve exportações: sai tudo'} className={buttonClass}>
+                <ArrowUpTrayIcon className="w-4 h-4" /> Alterações
+              </button>
+              <button onClick={() => run(() => onExport(true))} disabled={busy} className={buttonClass}>
+                <ArrowUpTrayIcon className="w-4 h-4" /> Tudo
+              </button>
+              <button onClick={() => fileInput.current?.click()} disabled={busy} className={buttonClass}>
+                <ArrowDownTrayIcon className="w-4 h-4" /> Importar
+              </button>
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) run(() => onImportFile(file));
+              }}
+            />
+          </section>
+
+          {folderSupported && (
+            <section className="space-y-4">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Pasta Partilhada</h4>
+              <p className="text-xs text-slate-400 break-all">{sync.folder || 'Escolha uma pasta sincronizada com os outros dispositivos (ex.: Google Drive, OneDrive).'}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <button onClick={onChooseFolder} disabled={busy} className={buttonClass}>
+                  <FolderOpenIcon className="w-4 h-4" /> Escolher Pasta
+                </button>
+                <button onClick={() => run(onSyncFolder)} disabled={busy || !sync.folder} className={buttonClass}>
+                  <ArrowPathIcon className="w-4 h-4" /> Sincronizar Agora
+                </button>
+              </div>
+            </section>
+          )}
+
+          {status && <p className="text-xs font-bold text-indigo-300 bg-indigo-500/10 p-4 rounded-2xl">{status}</p>}
+
+          {peers.length > 0 && (
+            <section className="space-y-4">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Outros Dispositivos</h4>
+              <div className="grid gap-3">
+                {peers.map(([id, peer]) => (
+                  <div key={id} className="bg-slate-800/40 p-4 rounded-2xl border border-slate-700 flex items-center justify-between gap-4">
+                    <p className="text-sm font-bold text-white truncate">{peer.name}</p>
+                    <p className="text-[10px] text-slate-500 uppercase font-black whitespace-nowrap">Alterações até {formatMoment(peer.lastSeen)}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {sync.conflicts.length > 0 && (
+            <section className="space-y-4">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Conflitos ({sync.conflicts.length})</h4>
+              <div className="grid gap-3">
+                {sync.conflicts.map(c => (
+                  <div key={c.id} className="bg-slate-800/40 p-4 rounded-2xl border border-amber-500/30 space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-sm font-bold text-white truncate">{c.label}</p>
+                      <span className="text-[10px] font-black px-3 py-1 rounded-full uppercase bg-amber-500/10 text-amber-400 whitespace-nowrap">{conflictFieldLabel(c)}</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 text-xs">
+                      <div>
+                        <p className="text-[10px] text-slate-500 uppercase font-black">Ficou ({c.keptFrom})</p>
+                        <p className="text-emerald-400 font-bold break-words">{formatValue(c.field, c.kept, categories)}</p>
+                      </div>
+                      <div>
+                        <p className="text-[10px] text-slate-500 uppercase font-black">Descartado ({c.discardedFrom})</p>
+                        <p className="text-slate-400 font-bold break-words line-through">{formatValue(c.field, c.discarded, categories)}</p>
+                      </div>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => onResolve(c, false)} className="text-[10px] font-black px-4 py-1.5 rounded-full uppercase text-slate-400 hover:text-white transition-colors">Manter</button>
+                      <button onClick={() => onResolve(c, true)} className="text-[10px] font-black px-4 py-1.5 rounded-full uppercase bg-indigo-500/10 text-indigo-400 hover:text-white transition-colors">Usar o Outro</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncModal;
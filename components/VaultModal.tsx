@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline';
+import { MIN_PASSPHRASE_LENGTH } from '../services/cryptoService';
+
+interface VaultModalProps {
+  enabled: boolean;
+  autoLockMinutes: number;
+  // Devolvem uma mensagem de erro, ou null se a operação correu bem
+  onEnable: (passphrase: string) => Promise<string | null>;
+  onChangePassphrase: (current: string, next: string) => Promise<string | null>;
+  onDisable: (current: string) => Promise<string | null>;
+  onLockNow: () => void;
+  onClose: () => void;
+}
+
+type VaultAction = 'change' | 'disable';
+
+const inputClass = "w-full bg-slate-800/40 rounded-2xl p-4 text-white border border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const VaultModal: React.FC<VaultModalProps> = ({ enabled, autoLockMinutes, onEnable, onChangePassphrase, onDisable, onLockNow, onClose }) => {
+  const [action, setAction] = useState<VaultAction>('change');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (form: HTMLFormElement, task: () => Promise<string | null>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    const error = await task();
+    setBusy(false);
+    setMessage({ text: error || success, error: !!error });
+    if (!error) form.reset();
+  };
+
+  const checkNew = (fd: FormData): string | null => {
+    const next = fd.get('next') as string;
+    if (next.length < MIN_PASSPHRASE_LENGTH) return `A frase-passe deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`;
+    if (next !== fd.get('confirm')) return 'As frases-passe não coincidem.';
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-2xl" onClick={onClose}></div>
+      <div className="relative bg-[#1e293b] w-full max-w-xl rounded-[2.5rem] md:rounded-[3.5rem] p-8 md:p-12 shadow-2xl border border-slate-700 overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-8 md:mb-10">
+          <h3 className="text-2xl md:text-3xl font-black text-white uppercase">Cofre</h3>
+          <span className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase flex items-center gap-2 ${enabled ? 'bg-emerald-500/10 text-emerald-400' : 'bg-slate-700/40 text-slate-400'}`}>
+            {enabled ? <LockClosedIcon className="w-3 h-3" /> : <LockOpenIcon className="w-3 h-3" />}
+            {enabled ? 'Cifrado' : 'Sem cifra'}
+          </span>
+        </div>
+
+        {!enabled ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const fd = new FormData(e.currentTarget);
+            const invalid = checkNew(fd);
+            if (invalid) return setMessage({ text: invalid, error: true });
+            run(e.currentTarget, () => onEnable(fd.get('next') as string), 'Cofre ativado. Os dados passam a ser gravados cifrados.');
+          }} className="space-y-4">
+            <p className="text-sm text-slate-400">Os dados e as cópias de segurança passam a ser cifrados (AES-GCM) com uma chave derivada da frase-passe. Se a esquecer, não há forma de recuperar os dados.</p>
+            <input type="password" name="next" required placeholder="Nova frase-passe" className={inputClass} />
+            <input type="password" name="confirm" required placeholder="Confirmar frase-passe" className={inputClass} />
+            <button type="submit" disabled={busy} className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all disabled:opacity-50">Ativar Cifra</button>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-slate-400">O cofre bloqueia automaticamente após {autoLockMinutes} minutos sem atividade.</p>
+            <div className="flex gap-4">
+              {(['change', 'disable'] as VaultAction[]).map(a => (
+                <button key={a} onClick={() => { setAction(a); setMessage(null); }} className={`text-[10px] font-black uppercase tracking-widest transition-colors ${action === a ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                  {a === 'change' ? 'Mudar Frase-passe' : 'Desativar Cifra'}
+                </button>
+              ))}
+            </div>
+            {action === 'change' ? (
+              <form onSubmit={(e) => {
+                e.preventDefault();
+                const fd = new FormData(e.currentTarget);
+                const invalid = checkNew(fd);
+                if (invalid) return setMessage({ text: invalid, error: true });
+                run(e.currentTarget, () => onChangePassphrase(fd.get('current') as string, fd.get('next') as string), 'Frase-passe alterada.');
+              }} className="space-y-4">
+                <input type="password" name="current" required placeholder="Frase-passe atual" className={inputClass} />
+                <input type="password" name="next" required placeholder="Nova frase-passe" className={inputClass} />
+                <input type="password" name="confirm" required placeholder="Confirmar nova frase-passe" className={inputClass} />
+                <button type="submit" disabled={busy} className="w-full bg-indigo-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all disabled:opacity-50">Mudar e Recifrar</button>
+              </form>
+            ) : (
+              <form onSubmit={(e) => {
+                e.preventDefault();
+                const fd = new FormData(e.currentTarget);
+                run(e.currentTarget, () => onDisable(fd.get('current') as string), 'Cifra desativada.');
+              }} className="space-y-4">
+                <input type="password" name="current" required placeholder="Frase-passe atual" className={inputClass} />
+                <button type="submit" disabled={busy} className="w-full bg-rose-600 py-4 rounded-2xl text-white font-black uppercase tracking-widest hover:bg-rose-500 transition-all disabled:opacity-50">Desativar Cifra</button>
+              </form>
+            )}
+            <button onClick={onLockNow} className="w-full bg-slate-800/60 py-4 rounded-2xl text-slate-300 font-black uppercase tracking-widest hover:bg-slate-700 transition-all flex items-center justify-center gap-2">
+              <LockClosedIcon className="w-4 h-4" /> Bloquear Agora
+            </button>
+          </div>
+        )}
+
+        {message && <p className={`text-xs font-bold mt-6 ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>}
+        {busy && <p className="text-[10px] text-slate-500 uppercase font-black mt-4">A cifrar os dados...</p>}
+
+        <button onClick={onClose} className="w-full bg-indigo-600 py-4 md:py-6 rounded-2xl md:rounded-3xl text-white font-black uppercase tracking-widest shadow-2xl hover:bg-indigo-500 transition-all mt-10">Fechar</button>
+      </div>
+    </div>
+  );
+};
+
+export default VaultModal;
@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Altura usada para as linhas que ainda não foram medidas
+  estimatedHeight: number;
+  gap?: number;
+  // Linhas extra desenhadas acima e abaixo da área visível
+  overscan?: number;
+}
+
+// Primeira linha cujo fundo fica abaixo de `offset` (`offsets` tem items.length + 1 entradas)
+const findRow = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Lista que só desenha as linhas visíveis, com o scroll da própria janela.
+// Cada linha desenhada é medida (a altura muda com o conteúdo e com a largura do ecrã)
+// e as posições vêm de uma tabela de offsets acumulados.
+function VirtualList<T>({ items, getKey, renderItem, estimatedHeight, gap = 0, overscan = 6 }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // `getKey` costuma ser uma função nova em cada render; não deve recalcular os offsets
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+  // Incrementado quando alguma medição muda, para recalcular os offsets
+  const [measured, setMeasured] = useState(0);
+  const [range, setRange] = useState({ start: 0, end: Math.min(items.length, 20) });
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    items.forEach((item, i) => {
+      result.push(result[i] + (heightsRef.current.get(getKeyRef.current(item)) ?? estimatedHeight) + gap);
+    });
+    return result;
+  }, [items, estimatedHeight, gap, measured]);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const offset = -container.getBoundingClientRect().top;
+    const start = Math.max(0, findRow(offsets, offset) - overscan);
+    const end = Math.min(items.length, findRow(offsets, offset + window.innerHeight) + 1 + overscan);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [offsets, items.length, overscan]);
+
+  useLayoutEffect(updateRange, [updateRange]);
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [updateRange]);
+
+  useEffect(() => {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const row = entry.target as HTMLElement;
+        const key = row.dataset.key!;
+        if (row.offsetHeight > 0 && heightsRef.current.get(key) !== row.offsetHeight) {
+          heightsRef.current.set(key, row.offsetHeight);
+          changed = true;
+        }
+      });
+      if (changed) setMeasured(m => m + 1);
+    });
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  // Observa só as linhas desenhadas; ao observar, o ResizeObserver mede-as logo
+  useEffect(() => {
+    const observer = observerRef.current;
+    const container = containerRef.current;
+    if (!observer || !container) return;
+    observer.disconnect();
+    Array.from(container.children).forEach(row => observer.observe(row));
+  }, [range, items]);
+
+  const visible = items.slice(range.start, range.end);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: Math.max(0, offsets[items.length] - gap) }}>
+      {visible.map((item, i) => {
+        const key = getKey(item);
+        return (
+          <div
+            key={key}
+            data-key={key}
+            className="absolute left-0 right-0"
+            style={{ top: offsets[range.start + i] }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -3,6 +3,29 @@ const { app, BrowserWindow, ipcMain, dialog } = require('electron');
 const path = require('path');
 const fs = require('fs');
 
+// Atualizado pela janela sempre que há (ou deixa de haver) alterações por gravar
+let hasPendingChanges = false;
+
+ipcMain.on('set-dirty', (event, dirty) => {
+  hasPendingChanges = !!dirty;
+});
+
+const FLUSH_TIMEOUT_MS = 5000;
+
+// Pede à janela que grave o que estiver pendente; sem resposta em FLUSH_TIMEOUT_MS conta como falha
+const flushPendingChanges = (win) => new Promise((resolve) => {
+  const onComplete = (event, ok) => {
+    clearTimeout(timer);
+    resolve(!!ok);
+  };
+  const timer = setTimeout(() => {
+    ipcMain.removeListener('flush-complete', onComplete);
+    resolve(false);
+  }, FLUSH_TIMEOUT_MS);
+  ipcMain.once('flush-complete', onComplete);
+  win.webContents.send('flush-request');
+});
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 450,
@@ -17,6 +40,36 @@ function createWindow() {
   });
 
   win.setMenuBarVisibility(false);
+
+  let closeConfirmed = false;
+  win.on('close', async (event) => {
+    if (closeConfirmed || !hasPendingChanges) return;
+    event.preventDefault();
+    const { response } = await dialog.showMessageBox(win, {
+      type: 'warning',
+      buttons: ['Gravar e Sair', 'Sair sem Gravar', 'Cancelar'],
+      defaultId: 0,
+      cancelId: 2,
+      title: 'Alterações por gravar',
+      message: 'Existem alterações que ainda não foram gravadas.'
+    });
+    if (response === 2) return;
+    if (response === 0 && !await flushPendingChanges(win)) {
+      // A janela pode estar bloqueada: deixa sair sem gravar em vez de a manter presa
+      const { response: fallback } = await dialog.showMessageBox(win, {
+        type: 'error',
+        buttons: ['Sair sem Gravar', 'Cancelar'],
+        defaultId: 1,
+        cancelId: 1,
+        title: 'Erro ao gravar',
+        message: 'Não foi possível gravar as alterações.'
+      });
+      if (fallback === 1) return;
+    }
+    closeConfirmed = true;
+    win.close();
+  });
+
   if (app.isPackaged) {
     win.loadFile(path.join(__dirname, 'dist/index.html'));
   } else {
@@ -29,28 +82,93 @@ const getBasePath = () => {
   return app.isPackaged ? path.dirname(app.getPath('exe')) : process.cwd();
 };
 
-ipcMain.handle('read-json', async (event, fileName) => {
+const BACKUP_COUNT = 5;
+const getBackupPath = () => path.join(getBasePath(), 'backups');
+
+// Cópias de um ficheiro, da mais recente para a mais antiga (o nome inclui a data ISO)
+const listBackups = (fileName) => {
+  const prefix = `${path.parse(fileName).name}.`;
+  if (!fs.existsSync(getBackupPath())) return [];
+  return fs.readdirSync(getBackupPath())
+    .filter(name => name.startsWith(prefix) && name.endsWith('.json'))
+    .sort()
+    .reverse();
+};
+
+// Guarda uma cópia do ficheiro atual e apaga as que excedem BACKUP_COUNT
+const rotateBackups = (fileName) => {
   const filePath = path.join(getBasePath(), fileName);
-  if (!fs.existsSync(filePath)) return [];
+  if (!fs.existsSync(filePath)) return;
+  fs.mkdirSync(getBackupPath(), { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  fs.copyFileSync(filePath, path.join(getBackupPath(), `${path.parse(fileName).name}.${stamp}.json`));
+  listBackups(fileName).slice(BACKUP_COUNT).forEach(name => fs.unlinkSync(path.join(getBackupPath(), name)));
+};
+
+// Escreve num ficheiro temporário e só depois o renomeia, para que uma falha
+// a meio da gravação nunca deixe o ficheiro original truncado
+const writeFileAtomic = (filePath, content) => {
+  const tmpPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tmpPath, 'w');
   try {
-    const data = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(data);
+    fs.writeFileSync(fd, content, 'utf8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpPath, filePath);
+};
+
+// Devolve null se o ficheiro não existir; um ficheiro ilegível é um erro,
+// para que a aplicação possa recuperar em vez de carregar uma lista vazia
+const readJsonFile = (filePath) => {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
   } catch (error) {
     console.error("Erro ao ler:", error);
-    return [];
+    throw new Error(`Ficheiro ${path.basename(filePath)} corrompido: ${error.message}`);
   }
+};
+
+ipcMain.handle('read-json', async (event, fileName) => {
+  return readJsonFile(path.join(getBasePath(), path.basename(fileName)));
 });
 
 ipcMain.handle('write-json', async (event, fileName, data) => {
-  const filePath = path.join(getBasePath(), fileName);
+  const safeName = path.basename(fileName);
   try {
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+    rotateBackups(safeName);
+    writeFileAtomic(path.join(getBasePath(), safeName), JSON.stringify(data, null, 2));
     return { success: true };
   } catch (error) {
     return { success: false, error: error.message };
   }
 });
 
+ipcMain.handle('list-backups', async (event, fileName) => listBackups(path.basename(fileName)));
+
+ipcMain.handle('read-backup', async (event, name) => {
+  return readJsonFile(path.join(getBackupPath(), path.basename(name)));
+});
+
+ipcMain.handle('write-backup', async (event, name, data) => {
+  const filePath = path.join(getBackupPath(), path.basename(name));
+  if (!fs.existsSync(filePath)) return { success: false, error: 'Cópia inexistente.' };
+  try {
+    writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-json', async (event, fileName) => {
+  const filePath = path.join(getBasePath(), path.basename(fileName));
+  if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  return { success: true };
+});
+
 ipcMain.handle('select-file', async () => {
   const result = await dialog.showOpenDialog({
     properties: ['openFile'],
@@ -65,5 +183,68 @@ ipcMain.handle('select-file', async () => {
   }
 });
 
+// Exportações: o utilizador escolhe onde gravar; devolve false se cancelar
+const saveWithDialog = async (event, fileName, data) => {
+  const safeName = path.basename(fileName);
+  const extension = path.extname(safeName).slice(1);
+  const { canceled, filePath } = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+    defaultPath: path.join(app.getPath('documents'), safeName),
+    filters: [{ name: extension.toUpperCase(), extensions: [extension] }]
+  });
+  if (canceled || !filePath) return false;
+  fs.writeFileSync(filePath, typeof data === 'string' ? data : Buffer.from(data));
+  return true;
+};
+
+ipcMain.handle('save-file', (event, fileName, data) => saveWithDialog(event, fileName, data));
+
+// Sincronização por pasta partilhada: cada dispositivo grava o seu ficheiro e lê os dos outros
+const SYNC_FILE_PATTERN = /^fintrack-sync-[\w-]+\.json$/;
+
+ipcMain.handle('choose-sync-folder', async (event) => {
+  const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+    properties: ['openDirectory', 'createDirectory']
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+ipcMain.handle('read-sync-folder', async (event, folder) => {
+  if (!fs.existsSync(folder)) throw new Error('A pasta de sincronização não existe.');
+  return fs.readdirSync(folder)
+    .filter(name => SYNC_FILE_PATTERN.test(name))
+    .flatMap(name => {
+      try {
+        return [{ name, content: JSON.parse(fs.readFileSync(path.join(folder, name), 'utf8')) }];
+      } catch (error) {
+        // Ficheiro a meio de ser copiado pelo serviço de partilha: fica para a próxima
+        console.error("Erro ao ler:", error);
+        return [];
+      }
+    });
+});
+
+ipcMain.handle('write-sync-file', async (event, folder, fileName, data) => {
+  const safeName = path.basename(fileName);
+  if (!SYNC_FILE_PATTERN.test(safeName)) return { success: false, error: 'Nome de ficheiro inválido.' };
+  try {
+    writeFileAtomic(path.join(folder, safeName), JSON.stringify(data, null, 2));
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+// O relatório é desenhado numa janela escondida, sem scripts, e impresso para PDF
+ipcMain.handle('export-pdf', async (event, html, fileName) => {
+  const reportWindow = new BrowserWindow({ show: false, webPreferences: { javascript: false } });
+  try {
+    await reportWindow.loadURL('data:text/html;charset=utf-8,' + encodeURIComponent(html));
+    const pdf = await reportWindow.webContents.printToPDF({ pageSize: 'A4', printBackground: true });
+    return await saveWithDialog(event, fileName, pdf);
+  } finally {
+    reportWindow.destroy();
+  }
+});
+
 app.whenReady().then(createWindow);
 app.on('window-all-closed', () => process.platform !== 'darwin' && app.quit());
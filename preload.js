@@ -4,5 +4,22 @@ const { contextBridge, ipcRenderer } = require('electron');
 contextBridge.exposeInMainWorld('electronAPI', {
   readJson: (fileName) => ipcRenderer.invoke('read-json', fileName),
   writeJson: (fileName, data) => ipcRenderer.invoke('write-json', fileName, data),
-  selectFile: () => ipcRenderer.invoke('select-file')
+  listBackups: (fileName) => ipcRenderer.invoke('list-backups', fileName),
+  readBackup: (name) => ipcRenderer.invoke('read-backup', name),
+  writeBackup: (name, data) => ipcRenderer.invoke('write-backup', name, data),
+  deleteJson: (fileName) => ipcRenderer.invoke('delete-json', fileName),
+  setDirty: (dirty) => ipcRenderer.send('set-dirty', dirty),
+  onFlushRequest: (callback) => {
+    ipcRenderer.removeAllListeners('flush-request');
+    ipcRenderer.on('flush-request', async () => {
+      const ok = await callback();
+      ipcRenderer.send('flush-complete', ok);
+    });
+  },
+  selectFile: () => ipcRenderer.invoke('select-file'),
+  saveFile: (fileName, data) => ipcRenderer.invoke('save-file', fileName, data),
+  exportPdf: (html, fileName) => ipcRenderer.invoke('export-pdf', html, fileName),
+  chooseSyncFolder: () => ipcRenderer.invoke('choose-sync-folder'),
+  readSyncFolder: (folder) => ipcRenderer.invoke('read-sync-folder', folder),
+  writeSyncFile: (folder, fileName, data) => ipcRenderer.invoke('write-sync-file', folder, fileName, data)
 });
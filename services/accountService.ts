@@ -0,0 +1,57 @@
+import { Account, AccountBalance, AccountKind, ExchangeRate, Money, Transaction, TransactionType } from "../types";
+import { convertAmount, transactionCurrency } from "./currencyService";
+import { sumMoney } from "./moneyService";
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// As transferências não pertencem a nenhuma categoria da lista; usam este identificador
+export const TRANSFER_CATEGORY_ID = 'transfer';
+export const TRANSFER_CATEGORY = 'Transferência';
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  checking: 'Conta à Ordem',
+  savings: 'Poupança',
+  credit: 'Cartão de Crédito',
+  cash: 'Numerário'
+};
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: 'Conta Principal', kind: 'checking', openingBalance: 0 as Money, currency: 'EUR' }
+];
+
+// Dados anteriores às contas ficam todos na conta principal
+export const migrateToAccounts = (transactions: Transaction[]): Transaction[] =>
+  transactions.map(t => t.accountId ? t : { ...t, accountId: DEFAULT_ACCOUNT_ID });
+
+export const isTransfer = (t: Transaction): boolean => t.type === TransactionType.TRANSFER;
+
+// Efeito do movimento no saldo de uma conta
+export const signedAmountFor = (t: Transaction, accountId: string): Money => {
+  if (t.type === TransactionType.TRANSFER) {
+    if (t.toAccountId === accountId) return t.amount;
+    if (t.accountId === accountId) return -t.amount as Money;
+    return 0 as Money;
+  }
+  if (t.accountId !== accountId) return 0 as Money;
+  return t.type === TransactionType.INCOME ? t.amount : -t.amount as Money;
+};
+
+// Saldo de cada conta na sua própria moeda
+export const computeAccountBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  rates: ExchangeRate[] = []
+): AccountBalance[] =>
+  accounts.map(account => ({
+    account,
+    balance: sumMoney([
+      account.openingBalance,
+      ...transactions
+        .map(t => ({ t, signed: signedAmountFor(t, account.id) }))
+        .filter(({ signed }) => signed !== 0)
+        .map(({ t, signed }) => convertAmount(signed, transactionCurrency(t, accounts), account.currency, t.date, rates))
+    ])
+  }));
+
+export const isAccountInUse = (accountId: string, transactions: Transaction[]): boolean =>
+  transactions.some(t => t.accountId === accountId || t.toAccountId === accountId);
@@ -0,0 +1,261 @@
+import { Account, AiClient, AiSettings, AssistantAnswer, AssistantTool, AssistantToolCall, AssistantToolResult, Category, Money, Transaction, TransactionFilters, TransactionType } from "../types";
+import { EMPTY_FILTERS, filterTransactions, normalizeText } from "./queryService";
+import { categoryLines, narrowToCategories, parseTags } from "./splitService";
+import { formatMoney } from "./currencyService";
+import { daysInMonth, shiftMonthKey, toMonthKey } from "./dateUtils";
+import { formatPeriodLabel } from "./reportService";
+import { formatDatePt } from "./exportService";
+import { createAiClient, parseJsonResponse } from "./insightService";
+import { fromMoney, sumMoney } from "./moneyService";
+import { categoryName, findCategoryByName } from "./categoryService";
+
+// Pedidos ao modelo por pergunta: cada consulta gasta um, a resposta final outro
+export const MAX_ASSISTANT_STEPS = 4;
+
+const MAX_ROWS = 10;
+
+export const TOOL_LABELS: Record<AssistantTool, string> = {
+  total: 'Total',
+  byCategory: 'Por categoria',
+  byMonth: 'Por mês',
+  largest: 'Maiores movimentos'
+};
+
+const TOOL_DESCRIPTIONS: Record<AssistantTool, string> = {
+  total: 'soma e número de movimentos',
+  byCategory: 'totais por categoria, do maior para o menor',
+  byMonth: 'totais por mês (AAAA-MM), por ordem cronológica',
+  largest: `os ${MAX_ROWS} movimentos de maior valor`
+};
+
+const TOOLS = Object.keys(TOOL_LABELS) as AssistantTool[];
+
+const TYPE_LABELS: Record<TransactionFilters['type'], string> = {
+  [TransactionType.EXPENSE]: 'Saídas',
+  [TransactionType.INCOME]: 'Entradas',
+  [TransactionType.TRANSFER]: 'Transferências',
+  all: 'Saldo'
+};
+
+// Os movimentos têm de vir já convertidos para a moeda base
+export interface AssistantContext {
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: Category[];
+  currency: string;
+  today: string;
+}
+
+// As transferências não contam; sem tipo escolhido, as saídas subtraem
+const valueOf = (filters: TransactionFilters, type: TransactionType, amount: Money): Money =>
+  filters.type === 'all' && type === TransactionType.EXPENSE ? -amount as Money : amount;
+
+export const runAssistantTool = (tool: AssistantTool, filters: TransactionFilters, context: AssistantContext): AssistantToolResult => {
+  const matching = narrowToCategories(filterTransactions(context.transactions, filters, context.accounts, context.categories), filters.categoryIds)
+    .filter(t => t.type !== TransactionType.TRANSFER);
+  const groups = new Map<string, Money>();
+  const add = (label: string, value: Money) => groups.set(label, sumMoney([groups.get(label) || 0 as Money, value]));
+  const grouped = () => Array.from(groups.entries()).map(([label, value]) => ({ label, value }));
+
+  let rows: AssistantToolResult['rows'] = [];
+  if (tool === 'byCategory') {
+    matching.forEach(t => categoryLines(t).forEach(l => add(categoryName(context.categories, l.categoryId), valueOf(filters, t.type, l.amount))));
+    rows = grouped().sort((a, b) => Math.abs(b.value) - Math.abs(a.value)).slice(0, MAX_ROWS);
+  } else if (tool === 'byMonth') {
+    matching.forEach(t => add(toMonthKey(t.date), valueOf(filters, t.type, t.amount)));
+    rows = grouped().sort((a, b) => a.label.localeCompare(b.label));
+  } else if (tool === 'largest') {
+    rows = [...matching]
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, MAX_ROWS)
+      .map(t => ({ label: `${t.date} ${t.description || categoryName(context.categories, t.categoryId)}`, value: valueOf(filters, t.type, t.amount) }));
+  }
+
+  return {
+    total: sumMoney(matching.map(t => valueOf(filters, t.type, t.amount))),
+    count: matching.length,
+    rows
+  };
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const asList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : []).map(String);
+
+// Converte os filtros pedidos pelo modelo, que usa nomes de categorias. Uma categoria
+// desconhecida fica como veio, para que a consulta dê zero em vez de ignorar o filtro e somar tudo.
+export const toolFilters = (args: any, context: AssistantContext): TransactionFilters => {
+  const type = String(args?.type || '').toUpperCase();
+  const accountName = normalizeText(String(args?.account || ''));
+  const account = accountName ? context.accounts.find(a => a.id === args.account || normalizeText(a.name) === accountName) : undefined;
+  return {
+    ...EMPTY_FILTERS,
+    type: type === TransactionType.EXPENSE || type === TransactionType.INCOME ? type : 'all',
+    categoryIds: asList(args?.categories).map(c => findCategoryByName(context.categories, c)?.id || c),
+    tags: parseTags(asList(args?.tags).join(',')),
+    account: account?.id || (accountName ? String(args.account) : 'all'),
+    startDate: DATE_PATTERN.test(args?.startDate) ? args.startDate : '',
+    endDate: DATE_PATTERN.test(args?.endDate) ? args.endDate : '',
+    search: typeof args?.search === 'string' ? args.search : ''
+  };
+};
+
+// Só os filtros em uso, para o pedido ficar curto
+const compactFilters = (filters: TransactionFilters, categories: Category[]) => ({
+  ...(filters.type !== 'all' && { type: filters.type }),
+  ...(filters.categoryIds.length > 0 && { categories: filters.categoryIds.map(id => categoryName(categories, id)) }),
+  ...(filters.tags.length > 0 && { tags: filters.tags }),
+  ...(filters.account !== 'all' && { account: filters.account }),
+  ...(filters.startDate && { startDate: filters.startDate }),
+  ...(filters.endDate && { endDate: filters.endDate }),
+  ...(filters.search && { search: filters.search })
+});
+
+const buildAssistantPrompt = (question: string, context: AssistantContext, calls: AssistantToolCall[]): string => `
+  És um assistente financeiro. Responde em Português à pergunta do utilizador usando SÓ os resultados das ferramentas abaixo, que fazem as contas localmente sobre os movimentos. Nunca inventes nem estimes valores.
+
+  Hoje é ${context.today}. Valores em ${context.currency}.
+  Categorias: ${JSON.stringify(context.categories.map(c => c.name))}
+  Contas: ${JSON.stringify(context.accounts.map(a => a.name))}
+
+  Ferramentas (todas aceitam os mesmos filtros, todos opcionais):
+  ${TOOLS.map(t => `- ${t}: ${TOOL_DESCRIPTIONS[t]}`).join('\n  ')}
+  Filtros: {"type":"EXPENSE|INCOME","categories":["..."],"tags":["..."],"account":"nome da conta","startDate":"AAAA-MM-DD","endDate":"AAAA-MM-DD","search":"texto na descrição"}
+  Sem "type", os valores são entradas menos saídas. As transferências entre contas nunca contam.
+
+  Responde APENAS com um objeto JSON:
+  - para consultar: {"tool":"total","filters":{...}}
+  - para responder: {"answer":"resposta curta com os valores obtidos"}
+
+  Pergunta: ${question}
+  ${calls.length > 0 ? `Resultados já obtidos: ${JSON.stringify(calls.map(c => ({
+    tool: c.tool,
+    filters: compactFilters(c.filters, context.categories),
+    total: fromMoney(c.result.total),
+    count: c.result.count,
+    rows: c.result.rows.map(r => ({ ...r, value: fromMoney(r.value) }))
+  })))}` : ''}
+`;
+
+const askWithClient = async (question: string, context: AssistantContext, client: AiClient): Promise<{ answer: string; calls: AssistantToolCall[] }> => {
+  const calls: AssistantToolCall[] = [];
+  for (let step = 0; step < MAX_ASSISTANT_STEPS; step++) {
+    const json = parseJsonResponse(await client.complete(buildAssistantPrompt(question, context, calls), { json: true }));
+    if (typeof json.answer === 'string' && json.answer.trim()) return { answer: json.answer.trim(), calls };
+    if (!TOOLS.includes(json.tool)) throw new Error('A IA pediu uma consulta desconhecida.');
+    const filters = toolFilters(json.filters, context);
+    calls.push({ tool: json.tool, filters, result: runAssistantTool(json.tool, filters, context) });
+  }
+  throw new Error('A IA não chegou a uma resposta.');
+};
+
+// ---- Sem IA: perguntas simples interpretadas por palavras-chave ----
+
+const MONTH_NAMES = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsWords = (text: string, words: string) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(words)}([^a-z0-9]|$)`).test(text);
+
+const monthRange = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return { startDate: `${month}-01`, endDate: `${month}-${String(daysInMonth(y, m - 1)).padStart(2, '0')}` };
+};
+
+// "março" sem ano é o último março que já começou
+const periodFromQuestion = (q: string, today: string): { startDate: string; endDate: string } | null => {
+  const currentMonth = toMonthKey(today);
+  const currentYear = Number(today.slice(0, 4));
+  if (/(este|neste|deste) mes|mes atual/.test(q)) return monthRange(currentMonth);
+  if (/mes passado|ultimo mes/.test(q)) return monthRange(shiftMonthKey(currentMonth, -1));
+  const yearMatch = q.match(/\b(19|20)\d{2}\b/);
+  let year = yearMatch ? Number(yearMatch[0]) : null;
+  if (/(este|neste|deste) ano/.test(q)) year = currentYear;
+  if (/ano passado/.test(q)) year = currentYear - 1;
+
+  const monthIndex = (q.match(/[a-z]+/g) || [])
+    .map(word => (word.length >= 3 ? MONTH_NAMES.findIndex(name => name.startsWith(word)) : -1))
+    .find(i => i >= 0);
+  if (monthIndex !== undefined) {
+    const monthYear = year ?? (monthIndex + 1 > Number(today.slice(5, 7)) ? currentYear - 1 : currentYear);
+    return monthRange(`${monthYear}-${String(monthIndex + 1).padStart(2, '0')}`);
+  }
+  return year ? { startDate: `${year}-01-01`, endDate: `${year}-12-31` } : null;
+};
+
+export const planOfflineQuery = (question: string, context: AssistantContext): { tool: AssistantTool; filters: TransactionFilters } | null => {
+  const q = normalizeText(question);
+  const isIncome = /(recebi|ganhei|entrad|receit|rendiment)/.test(q);
+  const isBalance = /(saldo|poupei|sobrou|sobra)/.test(q);
+  const isExpense = /(gast|despes|paguei|saida|custo)/.test(q);
+  const categoryIds = context.categories.filter(c => containsWords(q, normalizeText(c.name))).map(c => c.id);
+  const account = context.accounts.find(a => containsWords(q, normalizeText(a.name)));
+  const tags = parseTags((question.match(/#[\wÀ-ÿ-]+/g) || []).join(','));
+  const period = periodFromQuestion(q, context.today);
+
+  const tool: AssistantTool = /por categoria|categorias|onde/.test(q)
+    ? 'byCategory'
+    : /por mes|cada mes|mensal/.test(q) ? 'byMonth' : /maior|maiores|mais car/.test(q) ? 'largest' : 'total';
+  if (!isIncome && !isBalance && !isExpense && categoryIds.length === 0 && tags.length === 0 && !period && tool === 'total') return null;
+
+  const filters: TransactionFilters = {
+    ...EMPTY_FILTERS,
+    type: isIncome ? TransactionType.INCOME : isBalance && !isExpense ? 'all' : TransactionType.EXPENSE,
+    categoryIds,
+    tags,
+    account: account?.id || 'all',
+    ...(period || {})
+  };
+  return { tool, filters };
+};
+
+export const describeFilters = (filters: TransactionFilters, accounts: Account[], categories: Category[] = []): string => {
+  const parts = [
+    ...filters.categoryIds.map(id => categoryName(categories, id)),
+    ...filters.tags.map(t => `#${t}`),
+    ...(filters.account !== 'all' ? [accounts.find(a => a.id === filters.account)?.name || filters.account] : []),
+    ...(filters.search ? [`"${filters.search}"`] : [])
+  ];
+  if (filters.startDate && filters.endDate) parts.push(`${formatDatePt(filters.startDate)} a ${formatDatePt(filters.endDate)}`);
+  else if (filters.startDate) parts.push(`desde ${formatDatePt(filters.startDate)}`);
+  else if (filters.endDate) parts.push(`até ${formatDatePt(filters.endDate)}`);
+  return parts.join(' • ');
+};
+
+export const describeToolCall = (call: AssistantToolCall, accounts: Account[], categories: Category[] = []): string =>
+  [TYPE_LABELS[call.filters.type], TOOL_LABELS[call.tool], describeFilters(call.filters, accounts, categories)].filter(Boolean).join(' • ');
+
+const rowLabel = (tool: AssistantTool, label: string) =>
+  tool === 'byMonth' ? formatPeriodLabel(label, 'month') : tool === 'largest' ? `${formatDatePt(label.slice(0, 10))}${label.slice(10)}` : label;
+
+const offlineAnswer = (call: AssistantToolCall, context: AssistantContext): string => {
+  const format = (v: Money) => formatMoney(v, context.currency);
+  const scope = describeFilters(call.filters, context.accounts, context.categories);
+  const header = `${TYPE_LABELS[call.filters.type]}${scope ? ` (${scope})` : ''}: ${format(call.result.total)} em ${call.result.count} movimento(s).`;
+  if (call.tool === 'total' || call.result.rows.length === 0) return header;
+  return [header, ...call.result.rows.map(r => `• ${rowLabel(call.tool, r.label)}: ${format(r.value)}`)].join('\n');
+};
+
+const answerOffline = (question: string, context: AssistantContext): { answer: string; calls: AssistantToolCall[] } => {
+  const plan = planOfflineQuery(question, context);
+  if (!plan) return { answer: 'Sem IA configurada só percebo perguntas simples, como "quanto gastei em Lazer em março?".', calls: [] };
+  const call = { ...plan, result: runAssistantTool(plan.tool, plan.filters, context) };
+  return { answer: offlineAnswer(call, context), calls: [call] };
+};
+
+export const askFinances = async (settings: AiSettings, question: string, context: AssistantContext): Promise<AssistantAnswer> => {
+  const client = createAiClient(settings);
+  if (!client) return { question, ...answerOffline(question, context), provider: 'offline' };
+  try {
+    return { question, ...(await askWithClient(question, context, client)), provider: settings.provider };
+  } catch (error) {
+    console.error("AI Error:", error);
+    return {
+      question,
+      ...answerOffline(question, context),
+      provider: 'offline',
+      error: error instanceof Error ? error.message : 'Erro ao contactar o serviço de IA.'
+    };
+  }
+};
@@ -0,0 +1,68 @@
+import { SaveState } from "../types";
+
+export const AUTOSAVE_DELAY_MS = 1500;
+
+export interface Autosaver<T> {
+  schedule: (data: T) => void;
+  flush: () => Promise<boolean>;
+  isDirty: () => boolean;
+}
+
+// Agrupa alterações seguidas numa única gravação e nunca corre duas gravações
+// ao mesmo tempo; o que chegar durante uma gravação é gravado logo a seguir.
+export const createAutosaver = <T>(
+  save: (data: T) => Promise<void>,
+  onStateChange: (state: SaveState) => void,
+  delay: number = AUTOSAVE_DELAY_MS
+): Autosaver<T> => {
+  let pending: { data: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<boolean> | null = null;
+  let state: SaveState = { dirty: false, saving: false, lastSavedAt: null, error: null };
+
+  const update = (changes: Partial<SaveState>) => {
+    state = { ...state, ...changes };
+    onStateChange(state);
+  };
+
+  const run = async (): Promise<boolean> => {
+    while (pending) {
+      const { data } = pending;
+      pending = null;
+      update({ saving: true });
+      try {
+        await save(data);
+        update({ saving: false, dirty: pending !== null, lastSavedAt: new Date().toISOString(), error: null });
+      } catch (error) {
+        console.error("Erro na gravação automática:", error);
+        // Mantém os dados por gravar para a próxima tentativa
+        if (!pending) pending = { data };
+        update({ saving: false, dirty: true, error: error instanceof Error ? error.message : String(error) });
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const flush = (): Promise<boolean> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!running) {
+      running = run().finally(() => { running = null; });
+    }
+    return running;
+  };
+
+  return {
+    schedule: (data) => {
+      pending = { data };
+      if (!state.dirty) update({ dirty: true });
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, delay);
+    },
+    flush,
+    isDirty: () => state.dirty
+  };
+};
@@ -0,0 +1,91 @@
+import { Budget, BudgetState, BudgetStatus, Money, Transaction, TransactionType } from "../types";
+import { daysInMonth, shiftMonthKey, toMonthKey, todayISO } from "./dateUtils";
+import { categoryLines } from "./splitService";
+import { scaleMoney, sumMoney } from "./moneyService";
+
+export const WARNING_THRESHOLD = 80;
+
+// Entrada em vigor para a categoria no mês indicado (a mais recente até esse mês)
+export const getEffectiveBudget = (budgets: Budget[], categoryId: string, month: string): Budget | undefined =>
+  budgets
+    .filter(b => b.categoryId === categoryId && b.month <= month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+
+export const upsertBudget = (budgets: Budget[], entry: Budget): Budget[] => {
+  const rest = budgets.filter(b => !(b.categoryId === entry.categoryId && b.month === entry.month));
+  return [...rest, entry];
+};
+
+const spentIn = (transactions: Transaction[], categoryId: string, month: string): Money =>
+  sumMoney(transactions
+    .filter(t => t.type === TransactionType.EXPENSE && toMonthKey(t.date) === month)
+    .flatMap(categoryLines)
+    .filter(l => l.categoryId === categoryId)
+    .map(l => l.amount));
+
+const stateFor = (percentUsed: number): BudgetState => {
+  if (percentUsed >= 100) return 'exceeded';
+  if (percentUsed >= WARNING_THRESHOLD) return 'warning';
+  return 'ok';
+};
+
+// Projeção ao ritmo atual: só o mês corrente é extrapolado
+const projectSpend = (spent: Money, month: string, today: string): Money => {
+  const currentMonth = toMonthKey(today);
+  if (month !== currentMonth) return spent;
+  const [y, m] = month.split('-').map(Number);
+  const elapsed = Number(today.slice(8, 10));
+  return scaleMoney(spent, daysInMonth(y, m - 1) / elapsed);
+};
+
+export const computeBudgetStatus = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  categoryId: string,
+  month: string,
+  today: string = todayISO()
+): BudgetStatus | null => {
+  const current = getEffectiveBudget(budgets, categoryId, month);
+  if (!current || current.limit <= 0) return null;
+
+  // Acumula o saldo não gasto desde a primeira entrada da categoria
+  let carriedOver = 0 as Money;
+  const firstMonth = budgets.filter(b => b.categoryId === categoryId).map(b => b.month).sort()[0];
+  for (let m = firstMonth; m < month; m = shiftMonthKey(m, 1)) {
+    const entry = getEffectiveBudget(budgets, categoryId, m);
+    if (!entry || !entry.rollover) {
+      carriedOver = 0 as Money;
+      continue;
+    }
+    carriedOver = Math.max(0, sumMoney([entry.limit, carriedOver, -spentIn(transactions, categoryId, m) as Money])) as Money;
+  }
+  if (!current.rollover) carriedOver = 0 as Money;
+
+  const available = sumMoney([current.limit, carriedOver]);
+  const spent = spentIn(transactions, categoryId, month);
+  const percentUsed = available > 0 ? (spent / available) * 100 : 0;
+  return {
+    categoryId,
+    month,
+    limit: current.limit,
+    carriedOver,
+    available,
+    spent,
+    percentUsed,
+    projected: projectSpend(spent, month, today),
+    state: stateFor(percentUsed)
+  };
+};
+
+export const computeBudgetStatuses = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  month: string,
+  today: string = todayISO()
+): BudgetStatus[] => {
+  const categories = Array.from(new Set(budgets.map(b => b.categoryId)));
+  return categories
+    .map(c => computeBudgetStatus(budgets, transactions, c, month, today))
+    .filter((s): s is BudgetStatus => s !== null)
+    .sort((a, b) => b.percentUsed - a.percentUsed);
+};
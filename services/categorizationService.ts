@@ -0,0 +1,77 @@
+import { CategorizationRule, CategoryChange, Transaction, TransactionType } from "../types";
+import { normalizeDescription } from "./duplicateService";
+import { isSplit } from "./splitService";
+
+type Matchable = Pick<Transaction, 'type' | 'amount' | 'description'>;
+
+const matchesText = (rule: CategorizationRule, description: string): boolean => {
+  if (!rule.pattern.trim()) return false;
+  if (rule.matchMode === 'regex') {
+    try {
+      return new RegExp(rule.pattern, 'i').test(description);
+    } catch {
+      return false;
+    }
+  }
+  return normalizeDescription(description).includes(normalizeDescription(rule.pattern));
+};
+
+export const ruleMatches = (rule: CategorizationRule, t: Matchable): boolean => {
+  if (!rule.enabled || t.type === TransactionType.TRANSFER) return false;
+  if (rule.type && rule.type !== t.type) return false;
+  if (rule.minAmount !== undefined && t.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && t.amount > rule.maxAmount) return false;
+  return matchesText(rule, t.description);
+};
+
+export const findMatchingRule = (rules: CategorizationRule[], t: Matchable): CategorizationRule | undefined =>
+  rules.find(rule => ruleMatches(rule, t));
+
+export const isValidPattern = (rule: Pick<CategorizationRule, 'pattern' | 'matchMode'>): boolean => {
+  if (rule.matchMode !== 'regex') return rule.pattern.trim().length > 0;
+  try {
+    new RegExp(rule.pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const categorizeAll = (rules: CategorizationRule[], transactions: Transaction[]): Transaction[] =>
+  transactions.map(t => {
+    // As regras não mexem em movimentos divididos à mão
+    const rule = isSplit(t) ? null : findMatchingRule(rules, t);
+    return rule ? { ...t, categoryId: rule.categoryId } : t;
+  });
+
+// Pré-visualização de "reaplicar regras ao histórico"
+export const previewReapply = (rules: CategorizationRule[], transactions: Transaction[]): CategoryChange[] =>
+  transactions.flatMap(t => {
+    const rule = isSplit(t) ? null : findMatchingRule(rules, t);
+    return rule && rule.categoryId !== t.categoryId
+      ? [{ transaction: t, from: t.categoryId, to: rule.categoryId, ruleId: rule.id }]
+      : [];
+  });
+
+// Proposta de regra quando o utilizador corrige a categoria de um movimento;
+// usa as primeiras palavras significativas da descrição
+export const suggestRuleFromCorrection = (
+  rules: CategorizationRule[],
+  t: Transaction
+): CategorizationRule | null => {
+  const keywords = normalizeDescription(t.description)
+    .split(' ')
+    .filter(w => w.length > 2)
+    .slice(0, 2)
+    .join(' ');
+  if (!keywords) return null;
+  if (findMatchingRule(rules, t)?.categoryId === t.categoryId) return null;
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    pattern: keywords,
+    matchMode: 'contains',
+    type: t.type,
+    categoryId: t.categoryId,
+    enabled: true
+  };
+};
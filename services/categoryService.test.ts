@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Money, Transaction, TransactionType } from '../types';
+import { categoryName, categoryUsage, CategoryReferences, renameCategory, replaceCategoryReferences, replaceFilterCategory, UNKNOWN_CATEGORY } from './categoryService';
+import { TRANSFER_CATEGORY, TRANSFER_CATEGORY_ID } from './accountService';
+import { EMPTY_FILTERS } from './queryService';
+
+const categories = [
+  { id: 'lazer', name: 'Lazer', color: '#000', icon: 'tag' },
+  { id: 'cultura', name: 'Cultura', color: '#111', icon: 'tag' }
+];
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 't1',
+  type: TransactionType.EXPENSE,
+  categoryId: 'lazer',
+  amount: 1000 as Money,
+  date: '2026-01-15',
+  description: '',
+  accountId: 'default',
+  ...overrides
+});
+
+const refs: CategoryReferences = {
+  transactions: [tx({}), tx({ id: 't2', categoryId: 'cultura', splits: [{ categoryId: 'cultura', amount: 600 as Money }, { categoryId: 'lazer', amount: 400 as Money }] })],
+  budgets: [{ categoryId: 'lazer', month: '2026-01', limit: 5000 as Money, rollover: false }],
+  recurringRules: [],
+  categorizationRules: [{ id: 'r', pattern: 'cinema', matchMode: 'contains', categoryId: 'lazer', enabled: true }],
+  goals: [{ id: 'g', name: 'Concertos', targetAmount: 10000 as Money, deadline: '2026-12-31', startDate: '2026-01-01', initialAmount: 0 as Money, categoryId: 'lazer' }],
+  filterPresets: [{ id: 'p', name: 'Lazer e Cultura', filters: { ...EMPTY_FILTERS, categoryIds: ['lazer', 'cultura'] } }]
+};
+
+describe('categoryName', () => {
+  it('resolve o nome atual e as transferências', () => {
+    expect(categoryName(renameCategory(categories, 'lazer', 'Tempos livres'), 'lazer')).toBe('Tempos livres');
+    expect(categoryName(categories, TRANSFER_CATEGORY_ID)).toBe(TRANSFER_CATEGORY);
+    expect(categoryName(categories, 'apagada')).toBe(UNKNOWN_CATEGORY);
+  });
+});
+
+describe('replaceCategoryReferences', () => {
+  it('passa todas as referências para a categoria de destino, incluindo objetivos e filtros', () => {
+    const next = replaceCategoryReferences(refs, 'lazer', 'cultura');
+
+    expect(next.transactions.map(t => t.categoryId)).toEqual(['cultura', 'cultura']);
+    expect(next.transactions[1].splits!.map(l => l.categoryId)).toEqual(['cultura', 'cultura']);
+    expect(next.budgets[0].categoryId).toBe('cultura');
+    expect(next.categorizationRules[0].categoryId).toBe('cultura');
+    expect(next.goals[0].categoryId).toBe('cultura');
+    expect(next.filterPresets[0].filters.categoryIds).toEqual(['cultura']);
+    expect(categoryUsage(next, 'lazer')).toBe(0);
+  });
+
+  it('tira a categoria dos filtros quando não há substituta', () => {
+    expect(replaceFilterCategory({ ...EMPTY_FILTERS, categoryIds: ['lazer', 'cultura'] }, 'lazer').categoryIds).toEqual(['cultura']);
+  });
+});
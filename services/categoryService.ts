@@ -0,0 +1,134 @@
+import { Budget, CategorizationRule, Category, FilterPreset, RecurringRule, SavingsGoal, Transaction, TransactionFilters } from "../types";
+import { categoryLines } from "./splitService";
+import { TRANSFER_CATEGORY, TRANSFER_CATEGORY_ID } from "./accountService";
+
+export const CATEGORY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#2dd4bf', '#fb7185', '#a855f7'];
+
+// Nomes dos ícones disponíveis (o desenho de cada um está em components/CategoryIcon)
+export const CATEGORY_ICONS = ['tag', 'home', 'cart', 'truck', 'heart', 'film', 'academic', 'briefcase', 'bolt', 'gift', 'banknotes', 'sparkles'] as const;
+
+// Nome mostrado quando o identificador não corresponde a nenhuma categoria
+export const UNKNOWN_CATEGORY = 'Sem categoria';
+
+// Listas que referem categorias pelo identificador; só mudam ao fundir ou apagar
+export interface CategoryReferences {
+  transactions: Transaction[];
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+  categorizationRules: CategorizationRule[];
+  goals: SavingsGoal[];
+  filterPresets: FilterPreset[];
+}
+
+export const createCategory = (name: string, index: number, parentId?: string): Category => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  parentId,
+  color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+  icon: 'tag'
+});
+
+// Dados anteriores às categorias com identificador (lista de nomes)
+export const categoriesFromNames = (names: string[]): Category[] =>
+  names.map((name, i) => createCategory(name, i));
+
+// Ignora maiúsculas e espaços, para nomes vindos de ficheiros, pesquisas ou da IA
+export const findCategoryByName = (categories: Category[], name: string): Category | undefined =>
+  categories.find(c => c.name.toLowerCase().trim() === name.toLowerCase().trim());
+
+export const categoryName = (categories: Category[], id: string): string =>
+  categories.find(c => c.id === id)?.name ?? (id === TRANSFER_CATEGORY_ID ? TRANSFER_CATEGORY : UNKNOWN_CATEGORY);
+
+export const isNameTaken = (categories: Category[], name: string, exceptId?: string): boolean =>
+  categories.some(c => c.id !== exceptId && c.name.toLowerCase().trim() === name.toLowerCase().trim());
+
+export const childrenOf = (categories: Category[], id: string): Category[] =>
+  categories.filter(c => c.parentId === id);
+
+// Categorias de topo seguidas das respetivas subcategorias
+export const orderCategories = (categories: Category[]): Category[] =>
+  categories
+    .filter(c => !c.parentId || !categories.some(p => p.id === c.parentId))
+    .flatMap(c => [c, ...childrenOf(categories, c.id)]);
+
+// Identificador da categoria de topo (a própria, se não tiver pai)
+export const rollupId = (categories: Category[], id: string): string =>
+  categories.find(c => c.id === id)?.parentId || id;
+
+// Movimentos com as categorias (e partes) substituídas pela categoria de topo
+export const rollupTransactions = (transactions: Transaction[], categories: Category[]): Transaction[] =>
+  transactions.map(t => {
+    const categoryId = rollupId(categories, t.categoryId);
+    const splits = t.splits?.map(l => ({ ...l, categoryId: rollupId(categories, l.categoryId) }));
+    return categoryId === t.categoryId && !t.splits ? t : { ...t, categoryId, splits };
+  });
+
+// Os filtros guardados não contam: deixam simplesmente de ter a categoria
+export const categoryUsage = (refs: CategoryReferences, id: string): number =>
+  refs.transactions.filter(t => categoryLines(t).some(l => l.categoryId === id)).length
+  + refs.budgets.filter(b => b.categoryId === id).length
+  + refs.recurringRules.filter(r => r.categoryId === id).length
+  + refs.categorizationRules.filter(r => r.categoryId === id).length
+  + refs.goals.filter(g => g.categoryId === id).length;
+
+// Troca `from` por `to` nos filtros; sem `to`, a categoria sai do filtro
+export const replaceFilterCategory = (filters: TransactionFilters, from: string, to?: string): TransactionFilters =>
+  filters.categoryIds.includes(from)
+    ? { ...filters, categoryIds: Array.from(new Set(filters.categoryIds.flatMap(c => (c !== from ? [c] : to ? [to] : [])))) }
+    : filters;
+
+// Ao fundir ou apagar com substituição, troca `from` por `to` em todas as referências.
+// Os orçamentos da categoria absorvida só passam para a outra nos meses em que esta não tem orçamento.
+export const replaceCategoryReferences = (refs: CategoryReferences, from: string, to: string): CategoryReferences => {
+  const replace = (id: string) => (id === from ? to : id);
+  return {
+    transactions: refs.transactions.map(t => {
+      if (!categoryLines(t).some(l => l.categoryId === from)) return t;
+      return { ...t, categoryId: replace(t.categoryId), splits: t.splits?.map(l => ({ ...l, categoryId: replace(l.categoryId) })) };
+    }),
+    budgets: refs.budgets
+      .filter(b => b.categoryId !== from || !refs.budgets.some(o => o.categoryId === to && o.month === b.month))
+      .map(b => (b.categoryId === from ? { ...b, categoryId: to } : b)),
+    recurringRules: refs.recurringRules.map(r => (r.categoryId === from ? { ...r, categoryId: to } : r)),
+    categorizationRules: refs.categorizationRules.map(r => (r.categoryId === from ? { ...r, categoryId: to } : r)),
+    goals: refs.goals.map(g => (g.categoryId === from ? { ...g, categoryId: to } : g)),
+    filterPresets: refs.filterPresets.map(p => ({ ...p, filters: replaceFilterCategory(p.filters, from, to) }))
+  };
+};
+
+export const renameCategory = (categories: Category[], id: string, name: string): Category[] =>
+  categories.map(c => (c.id === id ? { ...c, name } : c));
+
+// Só há um nível: uma categoria com subcategorias não pode passar a ser subcategoria
+export const canSetParent = (categories: Category[], id: string, parentId?: string): boolean => {
+  if (!parentId) return true;
+  const parent = categories.find(c => c.id === parentId);
+  return !!parent && parent.id !== id && !parent.parentId && childrenOf(categories, id).length === 0;
+};
+
+// Remove `sourceId`; as subcategorias passam para o destino (ou para o pai deste,
+// se o destino já for uma subcategoria)
+export const mergeCategories = (categories: Category[], sourceId: string, targetId: string): Category[] => {
+  const target = categories.find(c => c.id === targetId);
+  if (!target || sourceId === targetId) return categories;
+  const newParent = target.parentId || target.id;
+  return categories
+    .filter(c => c.id !== sourceId)
+    .map(c => (c.parentId === sourceId ? { ...c, parentId: newParent } : c));
+};
+
+// Sem referências: as subcategorias passam a categorias de topo
+export const removeCategory = (categories: Category[], id: string): Category[] =>
+  categories
+    .filter(c => c.id !== id)
+    .map(c => (c.parentId === id ? { ...c, parentId: undefined } : c));
+
+// Grupos de categorias com o mesmo nome (ignorando maiúsculas e espaços)
+export const findDuplicateCategories = (categories: Category[]): Category[][] => {
+  const groups = new Map<string, Category[]>();
+  categories.forEach(c => {
+    const key = c.name.toLowerCase().trim();
+    groups.set(key, [...(groups.get(key) || []), c]);
+  });
+  return Array.from(groups.values()).filter(g => g.length > 1);
+};
@@ -0,0 +1,82 @@
+import { EncryptedPayload } from "../types";
+
+export const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Chave em memória enquanto o cofre está desbloqueado; o salt é reutilizado
+// em todas as gravações para não ser preciso derivar a chave de novo
+export interface VaultKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  !!value && typeof value === 'object' && (value as EncryptedPayload).encrypted === true
+  && typeof (value as EncryptedPayload).ciphertext === 'string';
+
+export const deriveVaultKey = async (
+  passphrase: string,
+  salt: string = toBase64(crypto.getRandomValues(new Uint8Array(16))),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt, iterations };
+};
+
+export const encryptJson = async (value: unknown, vault: VaultKey): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, plaintext);
+  return {
+    encrypted: true,
+    kdf: 'PBKDF2-SHA256',
+    iterations: vault.iterations,
+    salt: vault.salt,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+// Falha (OperationError) se a chave não for a correta ou o conteúdo tiver sido alterado
+export const decryptJson = async <T = unknown>(payload: EncryptedPayload, vault: VaultKey): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, vault.key, fromBase64(payload.ciphertext));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// Deriva a chave a partir do salt guardado no conteúdo e confirma-a decifrando-o
+export const unlockPayload = async (passphrase: string, payload: EncryptedPayload): Promise<{ vault: VaultKey; value: unknown } | null> => {
+  const vault = await deriveVaultKey(passphrase, payload.salt, payload.iterations);
+  try {
+    return { vault, value: await decryptJson(payload, vault) };
+  } catch {
+    return null;
+  }
+};
+
+// As chaves não são exportáveis; compara-as cifrando com uma e decifrando com a outra
+export const verifyPassphrase = async (passphrase: string, vault: VaultKey): Promise<boolean> => {
+  const candidate = await deriveVaultKey(passphrase, vault.salt, vault.iterations);
+  try {
+    await decryptJson(await encryptJson(true, vault), candidate);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,116 @@
+import { Account, ExchangeRate, Money, Transaction } from "../types";
+import { fromMoney, scaleMoney } from "./moneyService";
+
+// As cotações são guardadas face ao Euro, como nas tabelas do BCE
+export const REFERENCE_CURRENCY = 'EUR';
+
+export const SUPPORTED_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'BRL', 'JPY', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN'];
+
+export const formatMoney = (v: Money, currency: string = REFERENCE_CURRENCY): string =>
+  fromMoney(v).toLocaleString('pt-PT', { style: 'currency', currency });
+
+export const transactionCurrency = (t: Transaction, accounts: Account[]): string =>
+  t.currency || accounts.find(a => a.id === t.accountId)?.currency || REFERENCE_CURRENCY;
+
+// Cotação em vigor na data: a mais recente até esse dia ou, na falta, a primeira conhecida
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): number | null => {
+  if (currency === REFERENCE_CURRENCY) return 1;
+  const sorted = rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return null;
+  const effective = sorted.filter(r => r.date <= date).pop() || sorted[0];
+  return effective.rate;
+};
+
+// Sem cotação disponível o valor é devolvido sem conversão; o convertido fica arredondado ao cêntimo
+export const convertAmount = (amount: Money, from: string, to: string, date: string, rates: ExchangeRate[]): Money => {
+  if (from === to) return amount;
+  const fromRate = findRate(rates, from, date);
+  const toRate = findRate(rates, to, date);
+  if (fromRate === null || toRate === null) return amount;
+  return scaleMoney(amount, toRate / fromRate);
+};
+
+export const findMissingCurrencies = (currencies: string[], base: string, rates: ExchangeRate[]): string[] =>
+  Array.from(new Set([...currencies, base]))
+    .filter(c => c !== REFERENCE_CURRENCY && !rates.some(r => r.currency === c));
+
+// Movimentos com o valor já convertido para a moeda base; o original fica em `currency`
+export const convertTransactions = (
+  transactions: Transaction[],
+  accounts: Account[],
+  base: string,
+  rates: ExchangeRate[]
+): Transaction[] =>
+  transactions.map(t => {
+    const currency = transactionCurrency(t, accounts);
+    if (currency === base) return t;
+    return {
+      ...t,
+      amount: convertAmount(t.amount, currency, base, t.date, rates),
+      splits: t.splits?.map(l => ({ ...l, amount: convertAmount(l.amount, currency, base, t.date, rates) }))
+    };
+  });
+
+export const upsertRate = (rates: ExchangeRate[], entry: ExchangeRate): ExchangeRate[] => [
+  ...rates.filter(r => !(r.currency === entry.currency && r.date === entry.date)),
+  entry
+];
+
+export const mergeRates = (rates: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] =>
+  incoming.reduce(upsertRate, rates);
+
+// Ficheiro eurofxref do BCE (diário ou histórico)
+export const parseEcbXml = (content: string): ExchangeRate[] => {
+  const result: ExchangeRate[] = [];
+  const days = content.match(/<Cube\s+time=["'][^"']+["'][\s\S]*?<\/Cube>/g) || [];
+  days.forEach(day => {
+    const date = day.match(/time=["']([^"']+)["']/)![1];
+    const entries = day.matchAll(/currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']/g);
+    for (const [, currency, rate] of entries) {
+      result.push({ date, currency, rate: parseFloat(rate) });
+    }
+  });
+  return result;
+};
+
+// Separa uma linha respeitando aspas ("1,0850" fica num só campo)
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === delimiter) { cells.push(field.trim()); field = ''; }
+    else field += ch;
+  }
+  cells.push(field.trim());
+  return cells;
+};
+
+const RATE = /^\d+([.,]\d+)?$/;
+
+// CSV simples: data;moeda;cotação (aceita vírgula decimal). O separador é escolhido para o
+// ficheiro inteiro; com vírgulas, a cotação com vírgula decimal tem de vir entre aspas.
+// Linhas com data mas que não se leem por inteiro ficam de fora e são devolvidas em `rejected`.
+export const parseRatesCsv = (content: string): { rates: ExchangeRate[]; rejected: number[] } => {
+  const delimiter = content.includes(';') ? ';' : content.includes('\t') ? '\t' : ',';
+  const rates: ExchangeRate[] = [];
+  const rejected: number[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    const cells = splitCsvLine(line, delimiter);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(cells[0])) return;
+    const [date, currency = '', rate = '', ...extra] = cells;
+    const value = RATE.test(rate) ? parseFloat(rate.replace(',', '.')) : NaN;
+    if (extra.some(Boolean) || !/^[A-Z]{3}$/i.test(currency) || !(value > 0)) {
+      rejected.push(i + 1);
+      return;
+    }
+    rates.push({ date, currency: currency.toUpperCase(), rate: value });
+  });
+  return { rates, rejected };
+};
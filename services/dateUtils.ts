@@ -0,0 +1,39 @@
+// Utilitários para datas no formato ISO (YYYY-MM-DD), calculados em UTC
+// para que o fuso horário do dispositivo não desloque os dias.
+
+export const toISODate = (d: Date): string => d.toISOString().split('T')[0];
+
+export const todayISO = (): string => toISODate(new Date());
+
+export const parseISODate = (iso: string): Date => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const daysInMonth = (year: number, monthIndex: number): number =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+export const addDays = (iso: string, days: number): string => {
+  const d = parseISODate(iso);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISODate(d);
+};
+
+// Soma meses mantendo o dia pretendido; em meses mais curtos usa o último dia
+export const addMonths = (iso: string, months: number, anchorDay?: number): string => {
+  const d = parseISODate(iso);
+  const total = d.getUTCFullYear() * 12 + d.getUTCMonth() + months;
+  const year = Math.floor(total / 12);
+  const month = total - year * 12;
+  const day = Math.min(anchorDay ?? d.getUTCDate(), daysInMonth(year, month));
+  return toISODate(new Date(Date.UTC(year, month, day)));
+};
+
+export const diffInDays = (fromIso: string, toIso: string): number =>
+  Math.round((parseISODate(toIso).getTime() - parseISODate(fromIso).getTime()) / 86400000);
+
+// Chaves de mês no formato YYYY-MM
+export const toMonthKey = (iso: string): string => iso.slice(0, 7);
+
+export const shiftMonthKey = (month: string, months: number): string =>
+  toMonthKey(addMonths(`${month}-01`, months));
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { toMoney } from './moneyService';
+import { categoriesFromNames } from './categoryService';
+import { defaultDecision, findImportConflicts, resolveImport } from './duplicateService';
+
+const categories = categoriesFromNames(['Lazer', 'Outros']);
+
+const tx = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'e1',
+  type: TransactionType.EXPENSE,
+  categoryId: categories[0].id,
+  amount: toMoney(2.5),
+  date: '2026-03-10',
+  description: 'Café Central',
+  accountId: 'default',
+  ...overrides
+});
+
+describe('findImportConflicts', () => {
+  it('usa cada movimento existente uma só vez: a segunda cobrança igual no mesmo dia entra', () => {
+    const imported = [tx({ id: 'i1' }), tx({ id: 'i2' })];
+    const conflicts = findImportConflicts(imported, [tx()], categories);
+
+    expect(conflicts.map(c => [c.duplicate.id, c.original.id, defaultDecision(c)])).toEqual([['i1', 'e1', 'skip']]);
+    expect(resolveImport(imported, conflicts, {}).added.map(t => t.id)).toEqual(['i2']);
+  });
+
+  it('compara as linhas do mesmo ficheiro, mas mantém-nas por omissão', () => {
+    const imported = [tx({ id: 'i1' }), tx({ id: 'i2' })];
+    const conflicts = findImportConflicts(imported, [], categories);
+
+    expect(conflicts).toEqual([expect.objectContaining({ original: imported[0], duplicate: imported[1], sameImport: true })]);
+    expect(defaultDecision(conflicts[0])).toBe('keep');
+    expect(resolveImport(imported, conflicts, { i2: 'merge' })).toEqual({ added: [imported[0]], updated: [] });
+  });
+
+  it('retira as linhas repetidas no ficheiro com o mesmo ID bancário', () => {
+    const imported = [tx({ id: 'i1', externalId: 'F1' }), tx({ id: 'i2', externalId: 'F1' })];
+    const conflicts = findImportConflicts(imported, [], categories);
+
+    expect(resolveImport(imported, conflicts, {}).added.map(t => t.id)).toEqual(['i1']);
+  });
+});
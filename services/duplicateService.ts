@@ -0,0 +1,175 @@
+import { Category, DuplicateMatch, ImportDecision, Transaction } from "../types";
+import { diffInDays } from "./dateUtils";
+import { categoryLines, isSplit } from "./splitService";
+import { uncategorizedId } from "./importService";
+
+export const DATE_TOLERANCE_DAYS = 3;
+export const MIN_CONFIDENCE = 0.6;
+export const HIGH_CONFIDENCE = 0.9;
+
+// Minúsculas, sem acentos, pontuação nem referências numéricas
+export const normalizeDescription = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !/^\d+$/.test(token))
+    .join(' ');
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+// Coeficiente de Dice sobre bigramas (0 = nada em comum, 1 = iguais)
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const na = normalizeDescription(a);
+  const nb = normalizeDescription(b);
+  if (na === nb) return 1;
+  if (na.length < 2 || nb.length < 2) return 0;
+  const counts = new Map<string, number>();
+  bigrams(na).forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  bigrams(nb).forEach(g => {
+    const c = counts.get(g) || 0;
+    if (c > 0) { overlap++; counts.set(g, c - 1); }
+  });
+  return (2 * overlap) / (na.length - 1 + nb.length - 1);
+};
+
+const splitSignature = (t: Transaction): string =>
+  categoryLines(t).map(l => `${l.categoryId}:${l.amount}`).sort().join('|');
+
+// Categorias compatíveis: pelo menos uma em comum, ou um dos lados ainda por categorizar
+// (a linha do banco costuma chegar sem categoria)
+const sameCategory = (a: Transaction, b: Transaction, uncategorized: string): boolean => {
+  const ca = categoryLines(a).map(l => l.categoryId);
+  const cb = categoryLines(b).map(l => l.categoryId);
+  return ca.includes(uncategorized) || cb.includes(uncategorized) || ca.some(c => cb.includes(c));
+};
+
+// Confiança de que `b` repete `a`; null quando não são comparáveis.
+// Compara-se sempre o total, para que a linha do banco case com o movimento dividido.
+// O mesmo valor no mesmo dia não chega: sem descrições parecidas fica abaixo de MIN_CONFIDENCE.
+export const matchConfidence = (a: Transaction, b: Transaction, uncategorized: string = ''): number | null => {
+  if (a.type !== b.type || a.amount !== b.amount) return null;
+  if (a.accountId !== b.accountId || (a.currency || '') !== (b.currency || '')) return null;
+  if (!sameCategory(a, b, uncategorized)) return null;
+  // Dois movimentos divididos de forma diferente foram registados de propósito
+  if (isSplit(a) && isSplit(b) && splitSignature(a) !== splitSignature(b)) return null;
+  const days = Math.abs(diffInDays(a.date, b.date));
+  if (days > DATE_TOLERANCE_DAYS) return null;
+  const dateScore = 1 - days / (DATE_TOLERANCE_DAYS + 1);
+  return 0.2 * dateScore + 0.8 * descriptionSimilarity(a.description, b.description);
+};
+
+const bucketKey = (t: Transaction) => `${t.type}-${t.amount}`;
+
+const bestMatch = (candidate: Transaction, pool: Transaction[], byExternalId: Map<string, Transaction>, uncategorized: string): DuplicateMatch | null => {
+  if (candidate.externalId) {
+    const same = byExternalId.get(candidate.externalId);
+    if (same && same.id !== candidate.id) return { original: same, duplicate: candidate, confidence: 1, reason: 'externalId' };
+  }
+  let best: DuplicateMatch | null = null;
+  pool.forEach(existing => {
+    if (existing.id === candidate.id) return;
+    // Movimentos com identificadores bancários diferentes nunca são o mesmo
+    if (existing.externalId && candidate.externalId && existing.externalId !== candidate.externalId) return;
+    const confidence = matchConfidence(existing, candidate, uncategorized);
+    if (confidence === null || confidence < MIN_CONFIDENCE) return;
+    if (!best || confidence > best.confidence) best = { original: existing, duplicate: candidate, confidence, reason: 'fuzzy' };
+  });
+  return best;
+};
+
+const createIndex = (categories: Category[]) => {
+  const uncategorized = uncategorizedId(categories);
+  const buckets = new Map<string, Transaction[]>();
+  const byExternalId = new Map<string, Transaction>();
+  return {
+    add: (t: Transaction) => {
+      const key = bucketKey(t);
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(t);
+      if (t.externalId && !byExternalId.has(t.externalId)) byExternalId.set(t.externalId, t);
+    },
+    remove: (t: Transaction) => {
+      const key = bucketKey(t);
+      buckets.set(key, (buckets.get(key) || []).filter(other => other !== t));
+      if (t.externalId && byExternalId.get(t.externalId) === t) byExternalId.delete(t.externalId);
+    },
+    match: (candidate: Transaction): DuplicateMatch | null =>
+      bestMatch(candidate, buckets.get(bucketKey(candidate)) || [], byExternalId, uncategorized)
+  };
+};
+
+// Pares suspeitos dentro do histórico; cada movimento só é apontado uma vez
+export const findDuplicatePairs = (transactions: Transaction[], categories: Category[]): DuplicateMatch[] => {
+  const index = createIndex(categories);
+  const matches: DuplicateMatch[] = [];
+  [...transactions]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(t => {
+      const match = index.match(t);
+      if (match) matches.push(match);
+      else index.add(t);
+    });
+  return matches.sort((a, b) => b.confidence - a.confidence);
+};
+
+// Para cada movimento importado, o existente mais parecido (se houver). Cada existente só
+// serve de original uma vez, para que duas cobranças iguais no mesmo dia não contem como uma;
+// as linhas sem par entram no índice e são comparadas com as seguintes do mesmo ficheiro
+export const findImportConflicts = (imported: Transaction[], existing: Transaction[], categories: Category[]): DuplicateMatch[] => {
+  const index = createIndex(categories);
+  existing.forEach(t => index.add(t));
+  const existingIds = new Set(existing.map(t => t.id));
+  const matches: DuplicateMatch[] = [];
+  imported.forEach(t => {
+    const match = index.match(t);
+    if (!match) {
+      index.add(t);
+      return;
+    }
+    index.remove(match.original);
+    matches.push(existingIds.has(match.original.id) ? match : { ...match, sameImport: true });
+  });
+  return matches;
+};
+
+// Linhas repetidas no mesmo ficheiro costumam ser cobranças reais: só saem com o mesmo ID bancário
+export const defaultDecision = (match: DuplicateMatch): ImportDecision => {
+  if (match.reason === 'externalId') return 'skip';
+  return !match.sameImport && match.confidence >= HIGH_CONFIDENCE ? 'skip' : 'keep';
+};
+
+// Aplica as decisões: "merge" atualiza o existente com os dados do banco,
+// mantendo a categoria e o id escolhidos pelo utilizador
+export const resolveImport = (
+  imported: Transaction[],
+  conflicts: DuplicateMatch[],
+  decisions: Record<string, ImportDecision>
+): { added: Transaction[]; updated: Transaction[] } => {
+  const conflictById = new Map(conflicts.map(c => [c.duplicate.id, c]));
+  const added: Transaction[] = [];
+  const updated: Transaction[] = [];
+  imported.forEach(t => {
+    const conflict = conflictById.get(t.id);
+    const decision = conflict ? decisions[t.id] || defaultDecision(conflict) : 'keep';
+    if (decision === 'keep') added.push(t);
+    // O original de uma linha repetida no ficheiro ainda não existe: não há o que atualizar
+    if (decision === 'merge' && conflict && !conflict.sameImport) {
+      updated.push({
+        ...conflict.original,
+        date: t.date,
+        amount: t.amount,
+        description: conflict.original.description || t.description,
+        externalId: t.externalId || conflict.original.externalId
+      });
+    }
+  });
+  return { added, updated };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './exportService';
+
+describe('toCsv', () => {
+  it('neutraliza o texto que a folha de cálculo leria como fórmula', () => {
+    const csv = toCsv(['Descrição', 'Valor'], [
+      ['=HYPERLINK("http://x";"ver")', -12.5],
+      ['+351 912', '-7,25'],
+      ['@SUM(A1)', '- desconto'],
+      ['Café', { date: '2026-01-05' }]
+    ]);
+
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'Descrição;Valor',
+      `"'=HYPERLINK(""http://x"";""ver"")";-12,50`,
+      "'+351 912;-7,25",
+      "'@SUM(A1);'- desconto",
+      'Café;05/01/2026',
+      ''
+    ]);
+  });
+});
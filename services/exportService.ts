@@ -0,0 +1,265 @@
+import { Account, Category, ExchangeRate, Money, ReportGranularity, Transaction, TransactionType } from "../types";
+import { convertAmount, formatMoney, transactionCurrency } from "./currencyService";
+import { categoryLines } from "./splitService";
+import { fromMoney, sumMoney } from "./moneyService";
+import { aggregateByPeriod, formatPeriodLabel, listPeriods, periodKey } from "./reportService";
+import { XlsxCell } from "./xlsxService";
+import { CATEGORY_COLORS, categoryName } from "./categoryService";
+
+export type SheetFormat = 'csv' | 'xlsx';
+
+// Relatórios em PDF: mensal (com o detalhe por semana) ou anual (por mês)
+export type PdfReportGranularity = Exclude<ReportGranularity, 'week'>;
+
+export const TYPE_LABELS: Record<TransactionType, string> = {
+  [TransactionType.INCOME]: 'Entrada',
+  [TransactionType.EXPENSE]: 'Saída',
+  [TransactionType.TRANSFER]: 'Transferência'
+};
+
+export const EXPORT_HEADER = [
+  'Data', 'Tipo', 'Categoria', 'Descrição', 'Conta', 'Conta de destino',
+  'Valor', 'Moeda', 'Valor (moeda base)', 'Moeda base', 'Etiquetas', 'Parte'
+];
+
+export const MIME_TYPES = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json;charset=utf-8'
+};
+
+// Datas e números no formato pt-PT (dd/mm/aaaa e vírgula decimal)
+export const formatDatePt = (iso: string): string =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString('pt-PT', { timeZone: 'UTC' });
+
+export const formatDecimalPt = (value: number): string =>
+  value.toLocaleString('pt-PT', { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false });
+
+// Uma linha por parte: um movimento dividido dá várias linhas com a mesma data e descrição.
+// As saídas ficam com sinal negativo, para que a coluna de valores some o saldo. Os valores saem em unidades.
+export const buildExportRows = (
+  transactions: Transaction[],
+  accounts: Account[],
+  categories: Category[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): XlsxCell[][] => {
+  const accountName = (id?: string) => (id ? accounts.find(a => a.id === id)?.name || id : '');
+  return transactions.flatMap(t => {
+    const currency = transactionCurrency(t, accounts);
+    const sign = t.type === TransactionType.EXPENSE ? -1 : 1;
+    const lines = categoryLines(t);
+    return lines.map((line, i): XlsxCell[] => [
+      { date: t.date },
+      TYPE_LABELS[t.type],
+      categoryName(categories, line.categoryId),
+      [t.description, line.description].filter(Boolean).join(' — '),
+      accountName(t.accountId),
+      accountName(t.toAccountId),
+      sign * fromMoney(line.amount),
+      currency,
+      sign * fromMoney(convertAmount(line.amount, currency, baseCurrency, t.date, rates)),
+      baseCurrency,
+      (t.tags || []).join(', '),
+      lines.length > 1 ? `${i + 1}/${lines.length}` : ''
+    ]);
+  });
+};
+
+// Cópia de segurança em JSON: os movimentos levam também o nome da categoria, para que
+// outro dispositivo (com identificadores diferentes) a reconheça ao importar
+export const buildBackupRecords = (transactions: Transaction[], categories: Category[]): Array<Transaction & { category: string }> =>
+  transactions.map(t => ({ ...t, category: categoryName(categories, t.categoryId) }));
+
+// Texto que a folha de cálculo leria como fórmula (ex.: uma descrição "=HYPERLINK(...)") sai com
+// um apóstrofo à frente; os números negativos escritos como texto ficam como estão
+const FORMULA_PREFIX = /^[=+\-@]/;
+const NEGATIVE_NUMBER = /^-\d+([.,]\d+)?$/;
+
+const csvValue = (cell: XlsxCell): string => {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return formatDecimalPt(cell);
+  if (typeof cell === 'object') return formatDatePt(cell.date);
+  const text = FORMULA_PREFIX.test(cell) && !NEGATIVE_NUMBER.test(cell) ? `'${cell}` : cell;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Separador ";" (a vírgula é o separador decimal) e BOM para o Excel reconhecer o UTF-8
+export const toCsv = (header: string[], rows: XlsxCell[][]): string =>
+  '\uFEFF' + [header, ...rows].map(row => row.map(csvValue).join(';')).join('\r\n') + '\r\n';
+
+export const exportFileName = (name: string, extension: string): string =>
+  `fintrack_${name}_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+// ---- Relatório para imprimir / PDF ----
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const periodBounds = (granularity: PdfReportGranularity, period: string): { start: string; end: string } =>
+  granularity === 'year'
+    ? { start: `${period}-01-01`, end: `${period}-12-31` }
+    : { start: `${period}-01`, end: `${period}-${new Date(Date.UTC(Number(period.slice(0, 4)), Number(period.slice(5, 7)), 0)).getUTCDate()}` };
+
+// Barras horizontais (categoria → valor) em SVG, para o relatório não depender do ecrã
+const horizontalBarsSvg = (items: Array<{ label: string; value: Money; color: string }>, format: (v: Money) => string): string => {
+  const rowHeight = 26;
+  const max = Math.max(...items.map(i => i.value), 1);
+  const rows = items.map((item, i) => {
+    const width = Math.max(2, (item.value / max) * 300);
+    const y = i * rowHeight;
+    return `<text x="150" y="${y + 17}" text-anchor="end" font-size="11" fill="#334155">${escapeHtml(item.label)}</text>`
+      + `<rect x="160" y="${y + 5}" width="${width}" height="16" rx="3" fill="${item.color}"/>`
+      + `<text x="${166 + width}" y="${y + 17}" font-size="11" fill="#475569">${escapeHtml(format(item.value))}</text>`;
+  }).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="620" height="${items.length * rowHeight + 4}" viewBox="0 0 620 ${items.length * rowHeight + 4}">${rows}</svg>`;
+};
+
+// Barras agrupadas de entradas e saídas por subperíodo
+const incomeExpenseSvg = (periods: Array<{ label: string; income: Money; expenses: Money }>): string => {
+  const height = 180;
+  const chartHeight = 140;
+  const slot = 620 / Math.max(periods.length, 1);
+  const barWidth = Math.min(18, slot / 3);
+  const max = Math.max(...periods.flatMap(p => [p.income, p.expenses]), 1);
+  const bars = periods.map((p, i) => {
+    const x = i * slot + slot / 2;
+    const hi = (p.income / max) * chartHeight;
+    const he = (p.expenses / max) * chartHeight;
+    return `<rect x="${x - barWidth - 1}" y="${chartHeight - hi + 10}" width="${barWidth}" height="${hi}" fill="#10b981"/>`
+      + `<rect x="${x + 1}" y="${chartHeight - he + 10}" width="${barWidth}" height="${he}" fill="#ef4444"/>`
+      + `<text x="${x}" y="${height - 8}" text-anchor="middle" font-size="10" fill="#475569">${escapeHtml(p.label)}</text>`;
+  }).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="620" height="${height}" viewBox="0 0 620 ${height}">`
+    + `<line x1="0" y1="${chartHeight + 10}" x2="620" y2="${chartHeight + 10}" stroke="#cbd5e1"/>${bars}</svg>`;
+};
+
+// Relatório em HTML pronto a imprimir; os valores têm de vir já na moeda base
+export const buildPrintableReport = (
+  transactions: Transaction[],
+  categories: Category[],
+  granularity: PdfReportGranularity,
+  period: string,
+  baseCurrency: string
+): string => {
+  const format = (v: Money) => formatMoney(v, baseCurrency);
+  const inPeriod = transactions.filter(t => periodKey(t.date, granularity) === period && t.type !== TransactionType.TRANSFER);
+  const income = sumMoney(inPeriod.filter(t => t.type === TransactionType.INCOME).map(t => t.amount));
+  const expenses = sumMoney(inPeriod.filter(t => t.type === TransactionType.EXPENSE).map(t => t.amount));
+  const net = income - expenses as Money;
+  const savingsRate = income > 0 ? (net / income) * 100 : null;
+
+  const expenseByCategory = new Map<string, Money>();
+  const balanceByCategory = new Map<string, Money>();
+  const add = (totals: Map<string, Money>, category: string, amount: Money) =>
+    totals.set(category, sumMoney([totals.get(category) || 0 as Money, amount]));
+  inPeriod.forEach(t => categoryLines(t).forEach(l => {
+    if (t.type === TransactionType.EXPENSE) add(expenseByCategory, l.categoryId, l.amount);
+    add(balanceByCategory, l.categoryId, t.type === TransactionType.INCOME ? l.amount : -l.amount as Money);
+  }));
+  const breakdown = Array.from(expenseByCategory.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, value], i) => ({
+      label: categoryName(categories, id),
+      value,
+      color: categories.find(c => c.id === id)?.color || CATEGORY_COLORS[i % CATEGORY_COLORS.length]
+    }));
+  const balances = Array.from(balanceByCategory.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, value]): [string, Money] => [categoryName(categories, id), value]);
+
+  const subGranularity: ReportGranularity = granularity === 'year' ? 'month' : 'week';
+  const { start, end } = periodBounds(granularity, period);
+  const summaries = new Map(aggregateByPeriod(inPeriod, subGranularity).map(s => [s.period, s]));
+  const series = listPeriods(start, end, subGranularity).map(p => ({
+    label: formatPeriodLabel(p, subGranularity),
+    income: summaries.get(p)?.income || 0 as Money,
+    expenses: summaries.get(p)?.expenses || 0 as Money
+  }));
+
+  const title = granularity === 'year'
+    ? `Relatório Anual ${period}`
+    : `Relatório Mensal — ${new Date(`${period}-01T00:00:00Z`).toLocaleDateString('pt-PT', { month: 'long', year: 'numeric', timeZone: 'UTC' })}`;
+
+  const card = (label: string, value: string, color: string) =>
+    `<div class="card"><span>${label}</span><strong style="color:${color}">${value}</strong></div>`;
+
+  return `<!DOCTYPE html>
+<html lang="pt-PT"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #0f172a; margin: 0; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .08em; color: #475569; margin: 28px 0 10px; }
+  .meta { color: #64748b; font-size: 11px; }
+  .cards { display: flex; gap: 10px; margin-top: 18px; }
+  .card { flex: 1; border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 12px; }
+  .card span { display: block; font-size: 10px; text-transform: uppercase; color: #64748b; }
+  .card strong { font-size: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th, td { padding: 5px 6px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+  td.num, th.num { text-align: right; white-space: nowrap; }
+  section { break-inside: avoid; }
+</style></head><body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${formatDatePt(start)} a ${formatDatePt(end)} • valores em ${baseCurrency} • gerado a ${new Date().toLocaleString('pt-PT')}</p>
+  <div class="cards">
+    ${card('Entradas', format(income), '#059669')}
+    ${card('Saídas', format(expenses), '#dc2626')}
+    ${card('Saldo', format(net), net >= 0 ? '#059669' : '#dc2626')}
+    ${card('Taxa de poupança', savingsRate === null ? '—' : `${savingsRate.toFixed(1).replace('.', ',')}%`, '#4f46e5')}
+  </div>
+  <section>
+    <h2>Entradas e saídas por ${subGranularity === 'month' ? 'mês' : 'semana'}</h2>
+    ${incomeExpenseSvg(series)}
+  </section>
+  <section>
+    <h2>Despesa por categoria</h2>
+    ${breakdown.length === 0 ? '<p class="meta">Sem despesas no período.</p>' : horizontalBarsSvg(breakdown, format)}
+    ${breakdown.length === 0 ? '' : `<table><thead><tr><th>Categoria</th><th class="num">Valor</th><th class="num">%</th></tr></thead><tbody>
+      ${breakdown.map(b => `<tr><td>${escapeHtml(b.label)}</td><td class="num">${format(b.value)}</td><td class="num">${((b.value / expenses) * 100).toFixed(1).replace('.', ',')}%</td></tr>`).join('')}
+    </tbody></table>`}
+  </section>
+  <section>
+    <h2>Saldos por categoria</h2>
+    <table><thead><tr><th>Categoria</th><th class="num">Saldo</th></tr></thead><tbody>
+      ${balances.map(([name, value]) => `<tr><td>${escapeHtml(name)}</td><td class="num" style="color:${value >= 0 ? '#059669' : '#dc2626'}">${format(value)}</td></tr>`).join('')}
+    </tbody></table>
+  </section>
+</body></html>`;
+};
+
+// ---- Gravação: diálogo nativo no desktop, transferência no browser ----
+
+export interface FileSaver {
+  // Devolvem false se o utilizador cancelar
+  save: (fileName: string, data: string | Uint8Array, mimeType: string) => Promise<boolean>;
+  savePdf: (html: string, fileName: string) => Promise<boolean>;
+}
+
+export const createBrowserFileSaver = (): FileSaver => ({
+  save: async (fileName, data, mimeType) => {
+    const url = URL.createObjectURL(new Blob([data as BlobPart], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return true;
+  },
+  // No browser o PDF sai pelo diálogo de impressão ("Guardar como PDF")
+  savePdf: async (html) => {
+    const win = window.open('', '_blank');
+    if (!win) return false;
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+    return true;
+  }
+});
+
+export const createElectronFileSaver = (api: any): FileSaver => ({
+  save: (fileName, data) => api.saveFile(fileName, data),
+  savePdf: (html, fileName) => api.exportPdf(html, fileName)
+});
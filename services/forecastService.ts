@@ -0,0 +1,224 @@
+import { Forecast, ForecastPoint, Money, RecurringPattern, RecurringRule, Transaction, TransactionType } from "../types";
+import { addDays, addMonths, daysInMonth, diffInDays, parseISODate } from "./dateUtils";
+import { normalizeDescription } from "./duplicateService";
+import { DEFAULT_ACCOUNT_ID, signedAmountFor } from "./accountService";
+import { getOccurrenceDates } from "./recurringService";
+import { categoryLines } from "./splitService";
+import { roundMoney, scaleMoney, sumMoney } from "./moneyService";
+
+export const FORECAST_HORIZONS = [30, 90];
+
+// Dias de histórico usados na média do gasto variável
+export const VARIABLE_WINDOW_DAYS = 90;
+
+// Ocorrências mínimas para considerar um movimento recorrente
+const MIN_OCCURRENCES = 3;
+
+// Intervalo de 80%: 1,28 desvios-padrão para cada lado
+const CONFIDENCE_Z = 1.28;
+
+interface Cadence {
+  days: number;
+  tolerance: number;
+  // Cadências mensais avançam por meses para manter o dia do mês
+  months?: number;
+}
+
+const CADENCES: Cadence[] = [
+  { days: 7, tolerance: 1 },
+  { days: 14, tolerance: 2 },
+  { days: 30, tolerance: 4, months: 1 },
+  { days: 91, tolerance: 8, months: 3 },
+  { days: 365, tolerance: 10, months: 12 }
+];
+
+export interface ForecastInput {
+  // Movimentos e regras já na moeda base
+  transactions: Transaction[];
+  rules: RecurringRule[];
+  balance: Money;
+  // Conta filtrada ou 'all'; com todas as contas as transferências não contam
+  account: string;
+  threshold: Money;
+  today: string;
+  horizon?: number;
+}
+
+interface ProjectedPattern {
+  pattern: RecurringPattern;
+  dates: string[];
+  variance: number;
+}
+
+const signedFlow = (t: Transaction, account: string): Money => {
+  if (account !== 'all') return signedAmountFor(t, account);
+  if (t.type === TransactionType.TRANSFER) return 0 as Money;
+  return t.type === TransactionType.INCOME ? t.amount : -t.amount as Money;
+};
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const variance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+};
+
+const patternKey = (t: Transaction) => `${t.type}|${t.categoryId}|${normalizeDescription(t.description)}`;
+
+const nextDates = (last: string, cadence: Cadence, today: string, end: string): string[] => {
+  const anchorDay = parseISODate(last).getUTCDate();
+  const dates: string[] = [];
+  for (let n = 1; ; n++) {
+    const date = cadence.months ? addMonths(last, n * cadence.months, anchorDay) : addDays(last, n * cadence.days);
+    if (date > end) break;
+    // Uma ocorrência atrasada conta para amanhã em vez de desaparecer
+    dates.push(date > today ? date : addDays(today, 1));
+  }
+  return [...new Set(dates)].filter(d => d <= end);
+};
+
+// Agrupa por descrição e categoria; um grupo é recorrente se a maioria dos
+// intervalos entre ocorrências bater certo com uma das cadências conhecidas
+const detectPatterns = (transactions: Transaction[], account: string, today: string, end: string): { projected: ProjectedPattern[]; matchedIds: Set<string> } => {
+  const groups = new Map<string, Transaction[]>();
+  transactions
+    .filter(t => !t.recurringRuleId && t.date <= today && normalizeDescription(t.description) && signedFlow(t, account) !== 0)
+    .forEach(t => groups.set(patternKey(t), [...(groups.get(patternKey(t)) || []), t]));
+
+  const projected: ProjectedPattern[] = [];
+  const matchedIds = new Set<string>();
+  groups.forEach((group, key) => {
+    // Vários movimentos no mesmo dia contam como uma ocorrência
+    const byDate = new Map<string, Money>();
+    group.forEach(t => byDate.set(t.date, sumMoney([byDate.get(t.date) || 0 as Money, signedFlow(t, account)])));
+    const dates = Array.from(byDate.keys()).sort();
+    if (dates.length < MIN_OCCURRENCES) return;
+
+    const intervals = dates.slice(1).map((d, i) => diffInDays(dates[i], d));
+    const typical = median(intervals);
+    const cadence = CADENCES.find(c => Math.abs(typical - c.days) <= c.tolerance);
+    if (!cadence) return;
+    const regular = intervals.filter(i => Math.abs(i - cadence.days) <= cadence.tolerance).length;
+    if (regular / intervals.length < 0.75) return;
+
+    group.forEach(t => matchedIds.add(t.id));
+    const last = dates[dates.length - 1];
+    // Deixou de acontecer: não se projeta
+    if (diffInDays(last, today) > cadence.days + 2 * cadence.tolerance) return;
+
+    const amounts = Array.from(byDate.values());
+    const future = nextDates(last, cadence, today, end);
+    if (future.length === 0) return;
+    const sample = group[group.length - 1];
+    projected.push({
+      pattern: {
+        key,
+        description: sample.description,
+        categoryId: sample.categoryId,
+        amount: roundMoney(median(amounts)),
+        intervalDays: cadence.days,
+        nextDate: future[0],
+        occurrences: dates.length,
+        source: 'detected'
+      },
+      dates: future,
+      variance: variance(amounts)
+    });
+  });
+  return { projected, matchedIds };
+};
+
+const projectRules = (rules: RecurringRule[], account: string, today: string, end: string): ProjectedPattern[] =>
+  rules.flatMap(rule => {
+    if (!rule.active || rule.type === TransactionType.TRANSFER) return [];
+    if (account !== 'all' && (rule.accountId || DEFAULT_ACCOUNT_ID) !== account) return [];
+    const dates = getOccurrenceDates(rule, end, today);
+    if (dates.length === 0) return [];
+    return [{
+      pattern: {
+        key: `rule|${rule.id}`,
+        description: rule.description,
+        categoryId: rule.categoryId,
+        amount: rule.type === TransactionType.INCOME ? rule.amount : -rule.amount as Money,
+        intervalDays: dates.length > 1 ? diffInDays(dates[0], dates[1]) : 0,
+        nextDate: dates[0],
+        occurrences: 0,
+        source: 'rule'
+      },
+      dates,
+      variance: 0
+    }];
+  });
+
+// Saídas que não fazem parte de nenhum padrão, em média por dia e por categoria.
+// A média fica em cêntimos sem arredondar, para não acumular erro ao longo da projeção.
+const variableSpend = (transactions: Transaction[], account: string, excluded: Set<string>, today: string) => {
+  const first = transactions.reduce((min, t) => t.date < min ? t.date : min, today);
+  const days = Math.max(1, Math.min(VARIABLE_WINDOW_DAYS, diffInDays(first, today) + 1));
+  const from = addDays(today, -days);
+  const daily = new Map<string, Money>();
+  const byCategory = new Map<string, Money>();
+  transactions
+    .filter(t => t.date > from && t.date <= today && !t.recurringRuleId && !excluded.has(t.id) && t.type === TransactionType.EXPENSE && signedFlow(t, account) < 0)
+    .forEach(t => {
+      daily.set(t.date, sumMoney([daily.get(t.date) || 0 as Money, t.amount]));
+      categoryLines(t).forEach(l => byCategory.set(l.categoryId, sumMoney([byCategory.get(l.categoryId) || 0 as Money, l.amount])));
+    });
+  const totals = Array.from({ length: days }, (_, i) => daily.get(addDays(from, i + 1)) || 0 as Money);
+  return {
+    mean: sumMoney(totals) / days,
+    variance: variance(totals),
+    byCategory: Array.from(byCategory.entries())
+      .map(([categoryId, total]) => ({ categoryId, daily: scaleMoney(total, 1 / days) }))
+      .sort((a, b) => b.daily - a.daily)
+  };
+};
+
+const monthEndOf = (iso: string): string => {
+  const d = parseISODate(iso);
+  return `${iso.slice(0, 7)}-${String(daysInMonth(d.getUTCFullYear(), d.getUTCMonth())).padStart(2, '0')}`;
+};
+
+export const buildForecast = ({ transactions, rules, balance, account, threshold, today, horizon = FORECAST_HORIZONS[FORECAST_HORIZONS.length - 1] }: ForecastInput): Forecast => {
+  const end = addDays(today, horizon);
+  const { projected: detected, matchedIds } = detectPatterns(transactions, account, today, end);
+  const projected = [...projectRules(rules, account, today, end), ...detected];
+  const variable = variableSpend(transactions, account, matchedIds, today);
+
+  const events = new Map<string, { amount: Money; variance: number }>();
+  projected.forEach(p => p.dates.forEach(date => {
+    const current = events.get(date) || { amount: 0 as Money, variance: 0 };
+    events.set(date, { amount: sumMoney([current.amount, p.pattern.amount]), variance: current.variance + p.variance });
+  }));
+
+  const points: ForecastPoint[] = [{ date: today, balance, low: balance, high: balance }];
+  // Os movimentos previstos somam-se em cêntimos; só o gasto variável médio é fracionário
+  let scheduled = balance;
+  let accumulated = 0;
+  for (let day = 1; day <= horizon; day++) {
+    const date = addDays(today, day);
+    const event = events.get(date);
+    if (event) scheduled = sumMoney([scheduled, event.amount]);
+    const running = scheduled - variable.mean * day;
+    accumulated += variable.variance + (event?.variance || 0);
+    const spread = CONFIDENCE_Z * Math.sqrt(accumulated);
+    points.push({ date, balance: roundMoney(running), low: roundMoney(running - spread), high: roundMoney(running + spread) });
+  }
+
+  const incomeDates = projected.filter(p => p.pattern.amount > 0).flatMap(p => p.dates).sort();
+  const nextIncome = incomeDates[0] || null;
+  const monthEnd = monthEndOf(today);
+  return {
+    points,
+    patterns: projected.map(p => p.pattern).sort((a, b) => a.nextDate.localeCompare(b.nextDate)),
+    variableByCategory: variable.byCategory,
+    nextIncome,
+    monthEnd: points.find(p => p.date === monthEnd) || null,
+    alert: points.find(p => (!nextIncome || p.date < nextIncome) && p.balance < threshold) || null
+  };
+};
@@ -0,0 +1,87 @@
+import { GoalProgress, GoalState, Money, SavingsGoal, Transaction, TransactionType } from "../types";
+import { addMonths, diffInDays, shiftMonthKey, toMonthKey, todayISO } from "./dateUtils";
+import { aggregateByPeriod } from "./reportService";
+import { categoryLines } from "./splitService";
+import { scaleMoney, sumMoney } from "./moneyService";
+
+// Meses completos usados na média do saldo líquido
+export const RECENT_MONTHS = 3;
+
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+export const GOAL_STATE_LABELS: Record<GoalState, string> = {
+  reached: 'Atingido',
+  'on-track': 'No bom caminho',
+  behind: 'Atrasado',
+  overdue: 'Prazo ultrapassado'
+};
+
+// Conta ligada: entradas e transferências recebidas somam, saídas e transferências
+// enviadas subtraem. Categoria ligada: o que se "gasta" na categoria (ex.: Poupança)
+// é contribuição e as entradas nessa categoria são levantamentos.
+const contribution = (goal: SavingsGoal, t: Transaction): Money => {
+  if (goal.accountId) {
+    if (t.type === TransactionType.TRANSFER) {
+      return sumMoney([
+        t.toAccountId === goal.accountId ? t.amount : 0 as Money,
+        t.accountId === goal.accountId ? -t.amount as Money : 0 as Money
+      ]);
+    }
+    if (t.accountId !== goal.accountId) return 0 as Money;
+    return t.type === TransactionType.INCOME ? t.amount : -t.amount as Money;
+  }
+  if (!goal.categoryId) return 0 as Money;
+  const amount = sumMoney(categoryLines(t).filter(l => l.categoryId === goal.categoryId).map(l => l.amount));
+  return t.type === TransactionType.INCOME ? -amount as Money : amount;
+};
+
+export const goalSaved = (goal: SavingsGoal, transactions: Transaction[], today: string = todayISO()): Money =>
+  sumMoney([
+    goal.initialAmount,
+    ...transactions.filter(t => t.date >= goal.startDate && t.date <= today).map(t => contribution(goal, t))
+  ]);
+
+// Média do saldo líquido nos últimos meses completos; meses sem movimentos contam como zero
+export const averageMonthlyNet = (transactions: Transaction[], today: string = todayISO(), months: number = RECENT_MONTHS): Money => {
+  const currentMonth = toMonthKey(today);
+  const firstMonth = shiftMonthKey(currentMonth, -months);
+  const recent = transactions.filter(t => toMonthKey(t.date) >= firstMonth && toMonthKey(t.date) < currentMonth);
+  return scaleMoney(sumMoney(aggregateByPeriod(recent, 'month').map(p => p.net)), 1 / months);
+};
+
+export const computeGoalProgress = (
+  goal: SavingsGoal,
+  transactions: Transaction[],
+  averageNet: Money,
+  today: string = todayISO()
+): GoalProgress => {
+  const saved = goalSaved(goal, transactions, today);
+  const remaining = Math.max(0, goal.targetAmount - saved) as Money;
+  const monthsLeft = Math.max(0, Math.ceil(diffInDays(today, goal.deadline) / AVERAGE_MONTH_DAYS));
+  const projectedAmount = sumMoney([saved, scaleMoney(averageNet, monthsLeft)]);
+
+  let state: GoalState = 'behind';
+  if (remaining === 0) state = 'reached';
+  else if (goal.deadline < today) state = 'overdue';
+  else if (projectedAmount >= goal.targetAmount) state = 'on-track';
+
+  return {
+    goal,
+    saved,
+    percent: goal.targetAmount > 0 ? Math.min(100, Math.max(0, (saved / goal.targetAmount) * 100)) : 100,
+    remaining,
+    monthsLeft,
+    requiredMonthly: scaleMoney(remaining, 1 / Math.max(1, monthsLeft)),
+    averageNet,
+    projectedAmount,
+    // Ao ritmo atual; sem poupança média positiva não há data prevista
+    projectedDate: remaining === 0 ? null : averageNet > 0 ? addMonths(today, Math.ceil(remaining / averageNet)) : null,
+    state
+  };
+};
+
+export const computeGoalsProgress = (goals: SavingsGoal[], transactions: Transaction[], today: string = todayISO()): GoalProgress[] => {
+  const averageNet = averageMonthlyNet(transactions, today);
+  return goals.map(g => computeGoalProgress(g, transactions, averageNet, today));
+};
+
@@ -0,0 +1,117 @@
+import { AuditChange, AuditEntry, Category, Money, TrackedData, Transaction, TransactionSplit } from "../types";
+import { fromMoney } from "./moneyService";
+import { categoryName } from "./categoryService";
+
+export const MAX_UNDO_STEPS = 100;
+export const MAX_AUDIT_ENTRIES = 500;
+
+export const diffTransactions = (before: Transaction[], after: Transaction[]): AuditChange[] => {
+  const beforeById = new Map(before.map(t => [t.id, t]));
+  const afterById = new Map(after.map(t => [t.id, t]));
+  const changes: AuditChange[] = [];
+  before.forEach(t => {
+    const next = afterById.get(t.id);
+    if (!next) changes.push({ entity: 'transaction', id: t.id, before: t, after: null });
+    // As atualizações de estado criam objetos novos só para os movimentos alterados
+    else if (next !== t && JSON.stringify(next) !== JSON.stringify(t)) changes.push({ entity: 'transaction', id: t.id, before: t, after: next });
+  });
+  after.forEach(t => {
+    if (!beforeById.has(t.id)) changes.push({ entity: 'transaction', id: t.id, before: null, after: t });
+  });
+  return changes;
+};
+
+type ListEntity = Exclude<AuditChange['entity'], 'transaction'>;
+
+const LIST_ENTITIES: ListEntity[] = ['categories', 'budgets', 'recurringRules', 'categorizationRules', 'goals', 'filterPresets'];
+
+// As restantes listas são pequenas e guardam-se inteiras, antes e depois
+const diffList = (entity: ListEntity, before: unknown[], after: unknown[]): AuditChange[] =>
+  JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ entity, before, after } as AuditChange];
+
+export const diffTrackedData = (before: TrackedData, after: Partial<TrackedData>): AuditChange[] => [
+  ...(after.transactions ? diffTransactions(before.transactions, after.transactions) : []),
+  ...LIST_ENTITIES.flatMap(entity => after[entity] ? diffList(entity, before[entity], after[entity]!) : [])
+];
+
+export const createAuditEntry = (action: string, changes: AuditChange[]): AuditEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  timestamp: new Date().toISOString(),
+  action,
+  changes
+});
+
+export const appendAuditEntry = (log: AuditEntry[], entry: AuditEntry): AuditEntry[] =>
+  [...log, entry].slice(-MAX_AUDIT_ENTRIES);
+
+export const invertChanges = (changes: AuditChange[]): AuditChange[] =>
+  changes.map(c => ({ ...c, before: c.after, after: c.before }) as AuditChange).reverse();
+
+// Aplica as alterações movimento a movimento, para que anular um passo não
+// desfaça alterações posteriores a outros movimentos
+export const applyChanges = (data: TrackedData, changes: AuditChange[]): TrackedData => {
+  const next = { ...data };
+  changes.forEach(c => {
+    if (c.entity !== 'transaction') {
+      (next[c.entity] as unknown[]) = c.after;
+      return;
+    }
+    const exists = next.transactions.some(t => t.id === c.id);
+    if (!c.after) next.transactions = next.transactions.filter(t => t.id !== c.id);
+    else if (exists) next.transactions = next.transactions.map(t => t.id === c.id ? c.after! : t);
+    else next.transactions = [c.after, ...next.transactions];
+  });
+  return next;
+};
+
+const formatAmount = (amount: Money): string => fromMoney(amount).toFixed(2);
+
+// Partes e etiquetas são listas; o resto são valores simples. Os valores aparecem em unidades
+// e as categorias pelo nome atual.
+const formatValue = (key: keyof Transaction, value: unknown, categories: Category[]): string => {
+  if (value == null) return '—';
+  if (key === 'amount') return formatAmount(value as Money);
+  if (key === 'categoryId') return categoryName(categories, value as string);
+  if (key === 'splits') return (value as TransactionSplit[]).map(l => `${categoryName(categories, l.categoryId)}: ${formatAmount(l.amount)}`).join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const describeCategories = (before: Category[], after: Category[]): string => {
+  const beforeById = new Map(before.map(c => [c.id, c]));
+  const added = after.filter(c => !beforeById.has(c.id)).map(c => c.name);
+  const removed = before.filter(c => !after.some(a => a.id === c.id)).map(c => c.name);
+  const renamed = after
+    .filter(c => beforeById.has(c.id) && beforeById.get(c.id)!.name !== c.name)
+    .map(c => `${beforeById.get(c.id)!.name} → ${c.name}`);
+  const parts = [
+    ...(added.length ? [`+ ${added.join(', ')}`] : []),
+    ...(removed.length ? [`− ${removed.join(', ')}`] : []),
+    ...renamed
+  ];
+  return `Categorias: ${parts.join(' ') || 'cor, ícone ou grupo alterado'}`;
+};
+
+const LIST_LABELS: Record<Exclude<ListEntity, 'categories'>, string> = {
+  budgets: 'Orçamentos',
+  recurringRules: 'Regras recorrentes',
+  categorizationRules: 'Regras de categorização',
+  goals: 'Objetivos',
+  filterPresets: 'Filtros guardados'
+};
+
+const describeList = (before: unknown[], after: unknown[]): string =>
+  before.length === after.length ? 'conteúdo alterado' : `${before.length} → ${after.length}`;
+
+export const describeAuditChange = (change: AuditChange, categories: Category[]): string => {
+  if (change.entity === 'categories') return describeCategories(change.before, change.after);
+  if (change.entity !== 'transaction') return `${LIST_LABELS[change.entity]}: ${describeList(change.before, change.after)}`;
+  const t = change.after || change.before!;
+  const label = `${t.description || categoryName(categories, t.categoryId)} (${t.date}, ${formatAmount(t.amount)})`;
+  if (!change.before) return `Criado: ${label}`;
+  if (!change.after) return `Apagado: ${label}`;
+  const fields = (Object.keys(change.after) as Array<keyof Transaction>)
+    .filter(k => JSON.stringify(change.before![k]) !== JSON.stringify(change.after![k]));
+  return `Alterado: ${label} — ${fields.map(k => `${k}: ${formatValue(k, change.before![k], categories)} → ${formatValue(k, change.after![k], categories)}`).join('; ')}`;
+};
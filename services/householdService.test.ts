@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { narrowToMember } from './householdService';
+import { toMoney } from './moneyService';
+
+let nextId = 0;
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: String(++nextId),
+  type: TransactionType.EXPENSE,
+  categoryId: 'supermercado',
+  amount: toMoney(60),
+  date: '2026-01-15',
+  description: '',
+  accountId: 'default',
+  ...overrides
+});
+
+describe('narrowToMember', () => {
+  it('conta por inteiro os movimentos pessoais que o membro pagou', () => {
+    const own = tx({ paidBy: 'ana' });
+    const other = tx({ paidBy: 'rui' });
+    const nobody = tx({});
+
+    expect(narrowToMember([own, other, nobody], 'ana')).toEqual([own]);
+  });
+
+  it('fica só com a parte do membro nos movimentos partilhados', () => {
+    const shared = tx({ paidBy: 'rui', splitBetween: ['ana', 'rui', 'eva'] });
+    const notMine = tx({ paidBy: 'rui', splitBetween: ['rui', 'eva'] });
+
+    expect(narrowToMember([shared, notMine], 'ana').map(t => [t.id, t.amount])).toEqual([[shared.id, toMoney(20)]]);
+  });
+
+  it('devolve tudo para todos os membros', () => {
+    const transactions = [tx({ paidBy: 'ana' }), tx({})];
+    expect(narrowToMember(transactions, 'all')).toBe(transactions);
+  });
+});
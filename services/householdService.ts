@@ -0,0 +1,95 @@
+import { Account, Member, MemberBalance, Money, Settlement, Transaction, TransactionType } from "../types";
+import { TRANSFER_CATEGORY_ID } from "./accountService";
+import { allocateMoney, scaleMoney, sumMoney } from "./moneyService";
+import { splitsTotal } from "./splitService";
+
+const isShared = (t: Transaction): boolean => !!t.paidBy && (t.splitBetween?.length || 0) > 0;
+
+// Uma saída ou um acerto (transferência) põe quem pagou a crédito e os restantes a dever;
+// uma entrada partilhada (ex.: reembolso) faz o contrário
+const direction = (t: Transaction): number => t.type === TransactionType.INCOME ? -1 : 1;
+
+// Parte de cada membro; o cêntimo que não divide certo fica com os primeiros da lista
+const shareOf = (t: Transaction, memberId: string): Money =>
+  allocateMoney(t.amount, t.splitBetween!.length)[t.splitBetween!.indexOf(memberId)];
+
+// Os valores têm de vir na mesma moeda
+export const computeMemberBalances = (members: Member[], transactions: Transaction[]): MemberBalance[] => {
+  const paid = new Map<string, Money>();
+  const share = new Map<string, Money>();
+  const add = (totals: Map<string, Money>, id: string, amount: Money) =>
+    totals.set(id, sumMoney([totals.get(id) || 0 as Money, amount]));
+  transactions.filter(isShared).forEach(t => {
+    add(paid, t.paidBy!, direction(t) * t.amount as Money);
+    t.splitBetween!.forEach(id => add(share, id, direction(t) * shareOf(t, id) as Money));
+  });
+  return members.map(member => {
+    const memberPaid = paid.get(member.id) || 0 as Money;
+    const memberShare = share.get(member.id) || 0 as Money;
+    return { member, paid: memberPaid, share: memberShare, balance: memberPaid - memberShare as Money };
+  });
+};
+
+// Quem mais deve paga a quem mais tem a receber, até as contas ficarem certas;
+// no máximo há um pagamento a menos do que o número de membros
+export const settleUp = (balances: MemberBalance[]): Settlement[] => {
+  const debtors = balances.filter(b => b.balance < 0).map(b => ({ id: b.member.id, amount: -b.balance })).sort((a, b) => b.amount - a.amount);
+  const creditors = balances.filter(b => b.balance > 0).map(b => ({ id: b.member.id, amount: b.balance as number })).sort((a, b) => b.amount - a.amount);
+  const settlements: Settlement[] = [];
+  let d = 0, c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    settlements.push({ from: debtors[d].id, to: creditors[c].id, amount: amount as Money });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount === 0) d++;
+    if (creditors[c].amount === 0) c++;
+  }
+  return settlements;
+};
+
+// Um acerto só pode ser registado entre membros com contas diferentes atribuídas
+export const settlementProblem = (settlement: Settlement, members: Member[]): string | null => {
+  const from = members.find(m => m.id === settlement.from);
+  const to = members.find(m => m.id === settlement.to);
+  if (!from?.accountId || !to?.accountId) return 'Atribua uma conta a cada membro para registar o acerto.';
+  if (from.accountId === to.accountId) return `${from.name} e ${to.name} usam a mesma conta.`;
+  return null;
+};
+
+// Transferência da conta de quem deve para a de quem recebe. O valor está na moeda base,
+// que fica registada no movimento se for diferente da moeda da conta
+export const createSettlementTransfer = (settlement: Settlement, members: Member[], accounts: Account[], currency: string, date: string): Transaction => {
+  const from = members.find(m => m.id === settlement.from)!;
+  const to = members.find(m => m.id === settlement.to)!;
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    type: TransactionType.TRANSFER,
+    categoryId: TRANSFER_CATEGORY_ID,
+    amount: settlement.amount,
+    date,
+    description: `Acerto de contas: ${from.name} → ${to.name}`,
+    accountId: from.accountId!,
+    toAccountId: to.accountId!,
+    currency: accounts.find(a => a.id === from.accountId)?.currency !== currency ? currency : undefined,
+    paidBy: from.id,
+    splitBetween: [to.id]
+  };
+};
+
+// Para relatórios por membro: os movimentos pessoais que o membro pagou contam por inteiro,
+// e cada movimento partilhado fica só com a parte desse membro
+export const narrowToMember = (transactions: Transaction[], memberId: string): Transaction[] => {
+  if (memberId === 'all') return transactions;
+  return transactions.flatMap(t => {
+    if (!isShared(t)) return t.paidBy === memberId ? [t] : [];
+    if (!t.splitBetween!.includes(memberId)) return [];
+    if (t.splitBetween!.length === 1) return [t];
+    if (!t.splits?.length) return [{ ...t, amount: shareOf(t, memberId) }];
+    const splits = t.splits.map(l => ({ ...l, amount: scaleMoney(l.amount, 1 / t.splitBetween!.length) }));
+    return [{ ...t, amount: splitsTotal(splits), splits }];
+  });
+};
+
+export const isMemberInUse = (memberId: string, transactions: Transaction[]): boolean =>
+  transactions.some(t => t.paidBy === memberId || t.splitBetween?.includes(memberId));
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionType } from '../types';
+import {
+  DEFAULT_CSV_MAPPING, detectDelimiter, detectFormat, mapCsvRows, parseCsv, parseDate, parseJson, parseOfx, parseQif, rowsToTransactions, unknownCategoryIssues, UNCATEGORIZED
+} from './importService';
+import { toMoney } from './moneyService';
+import { categoriesFromNames } from './categoryService';
+import { buildBackupRecords } from './exportService';
+
+describe('detectFormat / detectDelimiter', () => {
+  it('reconhece o formato pela extensão ou pelo conteúdo', () => {
+    expect(detectFormat('extrato.ofx', '')).toBe('ofx');
+    expect(detectFormat('extrato.txt', '<OFX>')).toBe('ofx');
+    expect(detectFormat('dados.qif', '')).toBe('qif');
+    expect(detectFormat('dados', '[{"amount": 1}]')).toBe('json');
+    expect(detectFormat('extrato.csv', 'a;b')).toBe('csv');
+  });
+
+  it('escolhe o separador com mais campos', () => {
+    expect(detectDelimiter('Data;Descrição;Valor\n01/01/2026;Café;-1,50')).toBe(';');
+    expect(detectDelimiter('Date,Description,Amount\n2026-01-01,Coffee,-1.50')).toBe(',');
+  });
+});
+
+describe('parseCsv', () => {
+  it('respeita aspas, aspas escapadas e linhas em branco', () => {
+    expect(parseCsv('a;"b;c";"d ""e"""\r\n\r\n1;2;3', ';')).toEqual([['a', 'b;c', 'd "e"'], ['1', '2', '3']]);
+  });
+});
+
+describe('parseDate', () => {
+  it('lê os três formatos e anos com dois dígitos', () => {
+    expect(parseDate('05/02/2026', 'dd/mm/yyyy')).toBe('2026-02-05');
+    expect(parseDate('02/05/2026', 'mm/dd/yyyy')).toBe('2026-02-05');
+    expect(parseDate('2026-02-05', 'yyyy-mm-dd')).toBe('2026-02-05');
+    expect(parseDate('5.2.26', 'dd/mm/yyyy')).toBe('2026-02-05');
+  });
+
+  it('rejeita datas que não existem no calendário', () => {
+    expect(parseDate('31/02/2026', 'dd/mm/yyyy')).toBeNull();
+    expect(parseDate('29/02/2025', 'dd/mm/yyyy')).toBeNull();
+    expect(parseDate('29/02/2024', 'dd/mm/yyyy')).toBe('2024-02-29');
+    expect(parseDate('01/13/2026', 'dd/mm/yyyy')).toBeNull();
+    expect(parseDate('01/01/1850', 'dd/mm/yyyy')).toBeNull();
+  });
+});
+
+describe('mapCsvRows', () => {
+  const csv = parseCsv([
+    'Data;Descrição;Valor;Categoria',
+    '01/02/2026;Café;-1,50;Lazer',
+    '31/02/2026;Data errada;-3,00;',
+    '03/02/2026;Valor errado;abc;',
+    '04/02/2026;Sem valor;0;',
+    '05/02/2026;Ordenado;1.234,56;Inventada'
+  ].join('\n'), ';');
+
+  it('devolve as linhas válidas em cêntimos e os problemas das restantes', () => {
+    const { rows, issues } = mapCsvRows(csv, { ...DEFAULT_CSV_MAPPING, categoryColumn: 3 });
+
+    expect(rows).toEqual([
+      { line: 2, date: '2026-02-01', amount: -150, description: 'Café', category: 'Lazer' },
+      { line: 6, date: '2026-02-05', amount: 123456, description: 'Ordenado', category: 'Inventada' }
+    ]);
+    expect(issues.map(i => [i.line, i.field, i.value, i.severity])).toEqual([
+      [3, 'date', '31/02/2026', 'error'],
+      [4, 'amount', 'abc', 'error'],
+      [5, 'amount', '0', 'error']
+    ]);
+  });
+
+  it('combina colunas de débito e crédito e pode inverter o sinal', () => {
+    const split = parseCsv('01/02/2026;Compra;12,00;\n02/02/2026;Reembolso;;5,00\n03/02/2026;Nada;;', ';');
+    const { rows, issues } = mapCsvRows(split, {
+      ...DEFAULT_CSV_MAPPING, hasHeader: false, amountMode: 'split', debitColumn: 2, creditColumn: 3, invertSign: true
+    });
+
+    expect(rows.map(r => r.amount)).toEqual([1200, -500]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(3);
+  });
+});
+
+describe('parseOfx', () => {
+  it('lê os movimentos e assinala os inválidos', () => {
+    const ofx = `<OFX><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260201120000<TRNAMT>-12.34<FITID>A1<NAME>Pingo Doce<MEMO>Compra
+</STMTTRN><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260230<TRNAMT>-1.00<FITID>A2<NAME>Data errada
+</STMTTRN></BANKTRANLIST></OFX>`;
+    const { rows, issues } = parseOfx(ofx);
+
+    expect(rows).toEqual([{ line: 1, date: '2026-02-01', amount: -1234, description: 'Pingo Doce - Compra', externalId: 'A1' }]);
+    expect(issues).toEqual([expect.objectContaining({ line: 2, field: 'date', value: '20260230' })]);
+  });
+});
+
+describe('parseQif', () => {
+  it('lê os registos com o formato de data e o separador escolhidos', () => {
+    const qif = '!Type:Bank\nD05/02/2026\nT-1.234,50\nPRenda\nLRenda\n^\nD99/99/2026\nT-2,00\n^\n';
+    const { rows, issues } = parseQif(qif, 'dd/mm/yyyy', ',');
+
+    expect(rows).toEqual([{ line: 1, date: '2026-02-05', amount: -123450, description: 'Renda', category: 'Renda' }]);
+    expect(issues.map(i => [i.line, i.field])).toEqual([[2, 'date']]);
+  });
+});
+
+describe('parseJson', () => {
+  it('valida cada registo', () => {
+    const { rows, issues } = parseJson(JSON.stringify([
+      { type: TransactionType.EXPENSE, date: '2026-01-01', amount: '12,30', category: 'Lazer', description: 'Cinema' },
+      { type: TransactionType.INCOME, date: '2026-01-02', amount: 1000 },
+      { type: TransactionType.TRANSFER, date: '2026-01-01', amount: 5 },
+      { type: TransactionType.INCOME, amount: 5 },
+      5,
+      { type: 'OUTRO', date: '2026-13-01', amount: 'x' }
+    ]));
+
+    expect(rows).toEqual([
+      { line: 1, date: '2026-01-01', amount: -1230, description: 'Cinema', category: 'Lazer', type: TransactionType.EXPENSE, externalId: undefined },
+      { line: 2, date: '2026-01-02', amount: 100000, description: '', category: undefined, type: TransactionType.INCOME, externalId: undefined }
+    ]);
+    expect(issues.map(i => [i.line, i.field])).toEqual([
+      [3, 'type'],
+      [4, 'date'],
+      [5, 'record'],
+      [6, 'type'],
+      [6, 'date'],
+      [6, 'amount']
+    ]);
+  });
+
+  it('lê os valores das cópias da própria aplicação, já em cêntimos', () => {
+    const { rows, issues } = parseJson(JSON.stringify([
+      { id: 't1', type: TransactionType.EXPENSE, date: '2026-01-01', amount: 1230, categoryId: 'lazer', description: 'Cinema' },
+      { id: 't2', type: TransactionType.EXPENSE, date: '2026-01-01', amount: 12.3, categoryId: 'lazer' }
+    ]));
+
+    expect(rows.map(r => [r.amount, r.categoryId])).toEqual([[-1230, 'lazer']]);
+    expect(issues.map(i => [i.line, i.field])).toEqual([[2, 'amount']]);
+  });
+});
+
+describe('rowsToTransactions', () => {
+  it('infere o tipo pelo sinal, guarda o valor absoluto e avisa das categorias desconhecidas', () => {
+    const rows = [
+      { line: 1, date: '2026-01-01', amount: toMoney(-1.5), description: 'Café', category: 'lazer' },
+      { line: 2, date: '2026-01-02', amount: toMoney(-9.9), description: 'Farmácia', category: 'Farmácia' },
+      { line: 3, date: '2026-01-03', amount: toMoney(1000), description: 'Ordenado' }
+    ];
+    const categories = categoriesFromNames(['Lazer', 'Salário', UNCATEGORIZED]);
+    const [lazer, salario, outros] = categories.map(c => c.id);
+    const transactions = rowsToTransactions(rows, categories, [], 'main');
+
+    expect(transactions.map(t => [t.type, t.amount, t.categoryId, t.accountId])).toEqual([
+      [TransactionType.EXPENSE, 150, lazer, 'main'],
+      [TransactionType.EXPENSE, 990, outros, 'main'],
+      [TransactionType.INCOME, 100000, salario, 'main']
+    ]);
+    expect(unknownCategoryIssues(rows, transactions, categories)).toEqual([
+      { line: 2, field: 'category', value: 'Farmácia', message: `Categoria desconhecida: fica em ${UNCATEGORIZED}.`, severity: 'warning' }
+    ]);
+  });
+
+  it('usa o identificador das cópias da própria aplicação, mesmo depois de a categoria mudar de nome', () => {
+    const categories = categoriesFromNames(['Lazer', UNCATEGORIZED]);
+    const rows = [{ line: 1, date: '2026-01-01', amount: toMoney(-5), description: 'Cinema', category: 'Cultura', categoryId: categories[0].id }];
+
+    expect(rowsToTransactions(rows, categories)[0].categoryId).toBe(categories[0].id);
+    expect(unknownCategoryIssues(rows, rowsToTransactions(rows, categories), categories)).toEqual([]);
+  });
+
+  it('reconhece pelo nome as categorias de uma cópia feita noutro dispositivo e avisa dos identificadores desconhecidos', () => {
+    const source = categoriesFromNames(['Lazer', 'Ginásio']);
+    const categories = categoriesFromNames(['Lazer', UNCATEGORIZED]);
+    const backup = buildBackupRecords([
+      { id: 't1', type: TransactionType.EXPENSE, categoryId: source[0].id, amount: toMoney(5), date: '2026-01-01', description: 'Cinema', accountId: 'default' },
+      { id: 't2', type: TransactionType.EXPENSE, categoryId: source[1].id, amount: toMoney(30), date: '2026-01-02', description: 'Mensalidade', accountId: 'default' }
+    ], source);
+    const { rows } = parseJson(JSON.stringify([...backup, { ...backup[1], category: undefined }]));
+    const transactions = rowsToTransactions(rows, categories);
+
+    expect(transactions.map(t => t.categoryId)).toEqual([categories[0].id, categories[1].id, categories[1].id]);
+    expect(unknownCategoryIssues(rows, transactions, categories).map(i => [i.line, i.value])).toEqual([[2, 'Ginásio'], [3, source[1].id]]);
+  });
+});
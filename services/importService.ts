@@ -0,0 +1,294 @@
+import { CategorizationRule, Category, CsvMapping, DateFormat, ImportFormat, ImportIssue, ImportParseResult, ImportedRow, Money, Transaction, TransactionType } from "../types";
+import { findMatchingRule } from "./categorizationService";
+import { DEFAULT_ACCOUNT_ID } from "./accountService";
+import { daysInMonth } from "./dateUtils";
+import { isAmount, parseMoney, toMoney } from "./moneyService";
+import { categoryName, findCategoryByName } from "./categoryService";
+
+export const DEFAULT_CSV_MAPPING: CsvMapping = {
+  delimiter: ';',
+  decimalSeparator: ',',
+  dateFormat: 'dd/mm/yyyy',
+  hasHeader: true,
+  skipRows: 0,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountMode: 'signed',
+  amountColumn: 2,
+  debitColumn: -1,
+  creditColumn: -1,
+  categoryColumn: -1,
+  invertSign: false
+};
+
+export const detectFormat = (fileName: string, content: string): ImportFormat => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'ofx' || ext === 'qfx' || /<OFX>/i.test(content)) return 'ofx';
+  if (ext === 'qif' || /^!Type:/im.test(content)) return 'qif';
+  if (ext === 'json' || /^\s*[[{]/.test(content)) return 'json';
+  return 'csv';
+};
+
+// Tenta adivinhar o separador pela linha com mais campos
+export const detectDelimiter = (content: string): string => {
+  const sample = content.split(/\r?\n/).slice(0, 5).join('\n');
+  const candidates = [';', ',', '\t', '|'];
+  return candidates
+    .map(d => ({ d, count: sample.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+};
+
+export const parseCsv = (content: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows.map(r => r.map(f => f.trim()));
+};
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+const validDate = (y: number, m: number, d: number): string | null => {
+  if (y < MIN_YEAR || y > MAX_YEAR || m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m - 1)) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+export const parseDate = (raw: string, format: DateFormat): string | null => {
+  const parts = raw.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+  let [y, m, d] = format === 'yyyy-mm-dd'
+    ? [parts[0], parts[1], parts[2]]
+    : format === 'mm/dd/yyyy' ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+  if (y < 100) y += 2000;
+  return validDate(y, m, d);
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const parseISO = (raw: string): string | null => {
+  const match = raw.match(ISO_DATE);
+  return match ? validDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+// Data já no formato guardado (AAAA-MM-DD) e que existe no calendário
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && parseISO(value) === value;
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  'dd/mm/yyyy': 'dd/mm/aaaa',
+  'mm/dd/yyyy': 'mm/dd/aaaa',
+  'yyyy-mm-dd': 'aaaa-mm-dd'
+};
+
+const error = (line: number, field: ImportIssue['field'], value: unknown, message: string): ImportIssue =>
+  ({ line, field, value: value === undefined || value === null ? '' : String(value), message, severity: 'error' });
+
+// Cada parser devolve as linhas válidas e os problemas das restantes, para rever antes de importar
+export const mapCsvRows = (rows: string[][], mapping: CsvMapping): ImportParseResult => {
+  const offset = mapping.skipRows + (mapping.hasHeader ? 1 : 0);
+  const result: ImportParseResult = { rows: [], issues: [] };
+  rows.slice(offset).forEach((cells, i) => {
+    const line = offset + i + 1;
+    const issues: ImportIssue[] = [];
+    const rawDate = cells[mapping.dateColumn] || '';
+    const date = parseDate(rawDate, mapping.dateFormat);
+    if (!date) issues.push(error(line, 'date', rawDate, `Data inválida (esperado ${DATE_FORMAT_LABELS[mapping.dateFormat]}).`));
+    const readAmount = (raw: string): Money | null => {
+      const money = raw ? parseMoney(raw, mapping.decimalSeparator) : 0 as Money;
+      if (money === null) issues.push(error(line, 'amount', raw, 'Montante não numérico.'));
+      return money;
+    };
+    let amount: Money | null;
+    if (mapping.amountMode === 'split') {
+      const credit = readAmount(cells[mapping.creditColumn] || '');
+      const debit = readAmount(cells[mapping.debitColumn] || '');
+      amount = credit === null || debit === null ? null : Math.abs(credit) - Math.abs(debit) as Money;
+    } else {
+      amount = readAmount(cells[mapping.amountColumn] || '');
+    }
+    if (amount === 0) issues.push(error(line, 'amount', '0', 'Montante em falta ou igual a zero.'));
+    if (issues.length > 0 || !date || !amount) {
+      result.issues.push(...issues);
+      return;
+    }
+    result.rows.push({
+      line,
+      date,
+      amount: mapping.invertSign ? -amount as Money : amount,
+      description: cells[mapping.descriptionColumn] || '',
+      category: mapping.categoryColumn >= 0 ? cells[mapping.categoryColumn] || undefined : undefined
+    });
+  });
+  return result;
+};
+
+const ofxField = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+export const parseOfx = (content: string): ImportParseResult => {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const result: ImportParseResult = { rows: [], issues: [] };
+  blocks.forEach((block, i) => {
+    const line = i + 1;
+    const posted = ofxField(block, 'DTPOSTED') || '';
+    const date = parseISO(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`);
+    const rawAmount = ofxField(block, 'TRNAMT') || '';
+    const amount = parseMoney(rawAmount, '.');
+    if (!date) result.issues.push(error(line, 'date', posted, 'Data inválida.'));
+    if (amount === null) result.issues.push(error(line, 'amount', rawAmount, 'Montante não numérico.'));
+    if (!date || amount === null) return;
+    const name = ofxField(block, 'NAME') || '';
+    const memo = ofxField(block, 'MEMO') || '';
+    result.rows.push({
+      line,
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(' - '),
+      externalId: ofxField(block, 'FITID')
+    });
+  });
+  return result;
+};
+
+export const parseQif = (content: string, dateFormat: DateFormat, decimalSeparator: ',' | '.'): ImportParseResult => {
+  const result: ImportParseResult = { rows: [], issues: [] };
+  let current: Record<string, string> = {};
+  let line = 0;
+  content.split(/\r?\n/).forEach(text => {
+    if (!text || text.startsWith('!')) return;
+    const code = text[0];
+    if (code === '^') {
+      line++;
+      const date = parseDate((current.D || '').replace("'", '/'), dateFormat);
+      const rawAmount = current.T || current.U || '';
+      const amount = parseMoney(rawAmount, decimalSeparator);
+      if (!date) result.issues.push(error(line, 'date', current.D, `Data inválida (esperado ${DATE_FORMAT_LABELS[dateFormat]}).`));
+      if (amount === null) result.issues.push(error(line, 'amount', rawAmount, 'Montante não numérico.'));
+      if (date && amount !== null) {
+        result.rows.push({
+          line,
+          date,
+          amount,
+          description: [current.P, current.M].filter(Boolean).join(' - '),
+          category: current.L
+        });
+      }
+      current = {};
+      return;
+    }
+    current[code] = text.slice(1).trim();
+  });
+  return result;
+};
+
+const IMPORTABLE_TYPES: string[] = [TransactionType.INCOME, TransactionType.EXPENSE];
+
+// Ficheiros JSON no formato das cópias de segurança / incomes.json / expenses.json, validados
+// registo a registo; transferências ficam de fora porque dependem das contas do ficheiro de origem
+export const parseJson = (content: string): ImportParseResult => {
+  const json = JSON.parse(content);
+  const result: ImportParseResult = { rows: [], issues: [] };
+  (Array.isArray(json) ? json : [json]).forEach((t: any, i: number) => {
+    const line = i + 1;
+    if (!t || typeof t !== 'object' || Array.isArray(t)) {
+      result.issues.push(error(line, 'record', JSON.stringify(t), 'O registo não é um movimento.'));
+      return;
+    }
+    const issues: ImportIssue[] = [];
+    if (t.type === TransactionType.TRANSFER) issues.push(error(line, 'type', t.type, 'As transferências não são importadas.'));
+    else if (t.type !== undefined && !IMPORTABLE_TYPES.includes(t.type)) issues.push(error(line, 'type', t.type, 'Tipo desconhecido.'));
+    const date = typeof t.date === 'string' ? parseISO(t.date) : null;
+    if (!date) issues.push(error(line, 'date', t.date, 'Data em falta ou inválida (esperado aaaa-mm-dd).'));
+    // As cópias da própria aplicação trazem o identificador da categoria e os valores já em cêntimos
+    const amount = typeof t.amount === 'string' ? parseMoney(t.amount)
+      : typeof t.categoryId === 'string' ? (isAmount(t.amount) ? t.amount : null)
+      : typeof t.amount === 'number' && isFinite(t.amount) ? toMoney(t.amount) : null;
+    if (amount === null) issues.push(error(line, 'amount', t.amount, 'Montante não numérico.'));
+    else if (amount === 0) issues.push(error(line, 'amount', t.amount, 'Montante igual a zero.'));
+    if (issues.length > 0 || !date || !amount) {
+      result.issues.push(...issues);
+      return;
+    }
+    result.rows.push({
+      line,
+      date,
+      amount: t.type === TransactionType.EXPENSE ? -Math.abs(amount) as Money : amount,
+      description: typeof t.description === 'string' ? t.description : '',
+      category: typeof t.category === 'string' && t.category ? t.category : undefined,
+      categoryId: typeof t.categoryId === 'string' && t.categoryId ? t.categoryId : undefined,
+      type: t.type,
+      externalId: typeof t.externalId === 'string' ? t.externalId : undefined
+    });
+  });
+  return result;
+};
+
+// Categoria das saídas que nenhuma regra conseguiu classificar
+export const UNCATEGORIZED = 'Outros';
+const INCOME_CATEGORY = 'Salário';
+
+// Procurada pelo nome; se o utilizador a apagou, o movimento fica sem categoria ('')
+export const uncategorizedId = (categories: Category[]): string =>
+  findCategoryByName(categories, UNCATEGORIZED)?.id ?? '';
+
+const defaultCategoryId = (categories: Category[], type: TransactionType): string =>
+  (type === TransactionType.INCOME && findCategoryByName(categories, INCOME_CATEGORY)?.id) || uncategorizedId(categories);
+
+// O tipo é inferido pelo sinal; categorias desconhecidas passam pelas regras
+// de categorização e, sem correspondência, caem no valor por omissão
+export const rowsToTransactions = (
+  rows: ImportedRow[],
+  categories: Category[],
+  rules: CategorizationRule[] = [],
+  accountId: string = DEFAULT_ACCOUNT_ID
+): Transaction[] =>
+  rows.map(r => {
+    const type = r.type || (r.amount >= 0 ? TransactionType.INCOME : TransactionType.EXPENSE);
+    const amount = Math.abs(r.amount) as Money;
+    const known = categories.find(c => c.id === r.categoryId) || (r.category ? findCategoryByName(categories, r.category) : undefined);
+    const ruled = !known ? findMatchingRule(rules, { type, amount, description: r.description }) : undefined;
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      type,
+      amount,
+      categoryId: known?.id || ruled?.categoryId || defaultCategoryId(categories, type),
+      date: r.date,
+      description: r.description,
+      accountId,
+      ...(r.externalId ? { externalId: r.externalId } : {})
+    };
+  });
+
+// Categorias do ficheiro que não existem (nem pelo identificador nem pelo nome): o movimento
+// entra na mesma, com a categoria que as regras (ou o valor por omissão) lhe deram
+export const unknownCategoryIssues = (rows: ImportedRow[], converted: Transaction[], categories: Category[]): ImportIssue[] =>
+  rows.flatMap((r, i) => (r.category || r.categoryId) && !categories.some(c => c.id === r.categoryId) && !(r.category && findCategoryByName(categories, r.category))
+    ? [{ line: r.line, field: 'category' as const, value: (r.category || r.categoryId)!, message: `Categoria desconhecida: fica em ${categoryName(categories, converted[i].categoryId)}.`, severity: 'warning' as const }]
+    : []);
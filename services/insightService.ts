@@ -0,0 +1,256 @@
+import { AiClient, AiProviderKind, AiSettings, Category, Insight, InsightProvider, InsightSeverity, InsightStats, Money, Transaction, TransactionType } from "../types";
+import { aggregateByPeriod, categoryTrends } from "./reportService";
+import { categoryLines } from "./splitService";
+import { formatMoney } from "./currencyService";
+import { normalizeText } from "./queryService";
+import { categoryName } from "./categoryService";
+import { parseISODate, shiftMonthKey, toMonthKey, todayISO } from "./dateUtils";
+import { averageMonthlyNet } from "./goalService";
+import { createGeminiClient } from "./geminiService";
+import { createOpenAiCompatibleClient } from "./openAiService";
+import { fromMoney, scaleMoney, sumMoney, toMoney } from "./moneyService";
+
+// Meses incluídos nas estatísticas, contando com o atual
+export const INSIGHT_MONTHS = 6;
+
+export const PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  offline: 'Offline (sem IA)',
+  gemini: 'Google Gemini',
+  openai: 'Compatível com OpenAI'
+};
+
+export const DEFAULT_MODELS: Record<AiProviderKind, string> = {
+  offline: '',
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1'
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'offline',
+  model: '',
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1'
+};
+
+const SEVERITIES: InsightSeverity[] = ['positive', 'info', 'warning', 'critical'];
+
+const MAX_INSIGHTS = 6;
+
+export interface InsightResult {
+  insights: Insight[];
+  provider: AiProviderKind;
+  // Preenchido quando o fornecedor configurado falhou e se usou a análise offline
+  error?: string;
+}
+
+export const buildInsightStats = (transactions: Transaction[], categories: Category[], currency: string, today: string = todayISO()): InsightStats => {
+  const firstMonth = shiftMonthKey(toMonthKey(today), -(INSIGHT_MONTHS - 1));
+  const recent = transactions.filter(t => toMonthKey(t.date) >= firstMonth && t.date <= today);
+  const months = aggregateByPeriod(recent, 'month');
+
+  const byCategory = new Map<string, Money>();
+  recent
+    .filter(t => t.type === TransactionType.EXPENSE)
+    .flatMap(categoryLines)
+    .forEach(l => byCategory.set(l.categoryId, sumMoney([byCategory.get(l.categoryId) || 0 as Money, l.amount])));
+  const totalExpenses = sumMoney(Array.from(byCategory.values()));
+  const topCategories = Array.from(byCategory.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([categoryId, amount]) => ({ categoryId, amount, share: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0 }));
+
+  const latest = months[months.length - 1];
+  return {
+    currency,
+    months,
+    topCategories,
+    trends: latest ? categoryTrends(recent, latest.period, 'month').slice(0, 5) : [],
+    averageNet: averageMonthlyNet(transactions, today),
+    categories
+  };
+};
+
+// O modelo recebe e devolve valores em unidades da moeda, não em cêntimos
+export const buildInsightPrompt = (stats: InsightStats): string => {
+  const name = (id: string) => categoryName(stats.categories, id);
+  const data = {
+    meses: stats.months.map(m => ({
+      mes: m.period,
+      entradas: fromMoney(m.income),
+      saidas: fromMoney(m.expenses),
+      saldo: fromMoney(m.net),
+      taxaPoupanca: m.savingsRate === null ? null : Math.round(m.savingsRate)
+    })),
+    maioresCategorias: stats.topCategories.map(c => ({ categoria: name(c.categoryId), total: fromMoney(c.amount), percentagem: Math.round(c.share) })),
+    variacoesUltimoMes: stats.trends.map(t => ({ categoria: name(t.categoryId), atual: fromMoney(t.current), anterior: fromMoney(t.previous), variacao: fromMoney(t.change) })),
+    saldoMedioMensal: fromMoney(stats.averageNet)
+  };
+  return `
+    Analise estas estatísticas financeiras mensais (valores em ${stats.currency}) e forneça de 3 a 5 observações concisas e profissionais com conselhos sobre os hábitos de consumo.
+
+    REGRAS IMPORTANTES:
+    1. O texto DEVE ser em Português (pode ser PT-BR ou PT-PT).
+    2. Foque em áreas de melhoria, tendências de gastos ou sinais positivos de economia.
+    3. Seja direto e prático, com um tom prestativo, moderno e motivador.
+    4. Considere que todos os valores já estão convertidos para ${stats.currency}.
+    5. Responda APENAS com um objeto JSON neste formato:
+       {"insights":[{"title":"título curto","detail":"uma ou duas frases","severity":"positive|info|warning|critical","categories":["nomes de categorias"],"suggestedSaving":número mensal em ${stats.currency} ou null}]}
+    6. Em "categories" use só nomes de categorias que aparecem nas estatísticas.
+
+    Estatísticas: ${JSON.stringify(data)}
+  `;
+};
+
+// Os modelos às vezes embrulham o JSON em blocos de código ou texto
+export const parseJsonResponse = (text: string): any => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  try {
+    if (start < 0 || end < start) throw new Error();
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('A IA devolveu uma resposta num formato inválido.');
+  }
+};
+
+// Valida a resposta do modelo; o modelo responde com nomes, que passam a ids, e as
+// categorias desconhecidas são descartadas
+export const parseInsights = (text: string, knownCategories: Category[]): Insight[] => {
+  const json = parseJsonResponse(text);
+  if (!Array.isArray(json.insights)) throw new Error('A IA devolveu uma resposta sem observações.');
+  const byNormalized = new Map(knownCategories.map(c => [normalizeText(c.name), c.id]));
+  return json.insights
+    .filter((i: any) => i && typeof i.title === 'string' && i.title.trim())
+    .slice(0, MAX_INSIGHTS)
+    .map((i: any): Insight => ({
+      title: i.title.trim(),
+      detail: typeof i.detail === 'string' ? i.detail.trim() : '',
+      severity: SEVERITIES.includes(i.severity) ? i.severity : 'info',
+      categoryIds: Array.isArray(i.categories)
+        ? [...new Set(i.categories.map((c: unknown) => byNormalized.get(normalizeText(String(c)))).filter(Boolean) as string[])]
+        : [],
+      suggestedSaving: typeof i.suggestedSaving === 'number' && i.suggestedSaving > 0 ? toMoney(i.suggestedSaving) : null
+    }));
+};
+
+const statsCategories = (stats: InsightStats): Category[] => {
+  const ids = new Set([...stats.topCategories.map(c => c.categoryId), ...stats.trends.map(t => t.categoryId)]);
+  return stats.categories.filter(c => ids.has(c.id));
+};
+
+// Análise determinística a partir das estatísticas, usada sem IA ou quando esta falha
+export const createOfflineProvider = (): InsightProvider => ({
+  kind: 'offline',
+  generate: async (stats) => {
+    const format = (v: Money) => formatMoney(v, stats.currency);
+    const name = (id: string) => categoryName(stats.categories, id);
+    const latest = stats.months[stats.months.length - 1];
+    if (!latest) return [];
+
+    const insights: Insight[] = [];
+    const label = parseISODate(`${latest.period}-01`).toLocaleDateString('pt-PT', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    insights.push(latest.net >= 0
+      ? {
+        title: `Saldo positivo em ${label}`,
+        detail: `Sobraram ${format(latest.net)}${latest.savingsRate !== null ? ` (${Math.round(latest.savingsRate)}% das entradas)` : ''}.`,
+        severity: latest.savingsRate !== null && latest.savingsRate >= 20 ? 'positive' : 'info',
+        categoryIds: [],
+        suggestedSaving: null
+      }
+      : {
+        title: `Saldo negativo em ${label}`,
+        detail: `Gastou mais ${format(-latest.net as Money)} do que recebeu.`,
+        severity: 'warning',
+        categoryIds: [],
+        suggestedSaving: -latest.net as Money
+      });
+
+    // Cortar 10% na maior categoria, em média por mês
+    const top = stats.topCategories[0];
+    if (top) insights.push({
+      title: `${name(top.categoryId)} é a maior despesa`,
+      detail: `${format(top.amount)} nos últimos meses (${Math.round(top.share)}% do total).`,
+      severity: 'info',
+      categoryIds: [top.categoryId],
+      suggestedSaving: scaleMoney(top.amount, 0.1 / stats.months.length)
+    });
+
+    const rise = stats.trends.find(t => t.change > 0);
+    const fall = stats.trends.find(t => t.change < 0);
+    if (rise) insights.push({
+      title: `${name(rise.categoryId)} subiu`,
+      detail: `Mais ${format(rise.change)} face ao mês anterior${rise.changePercent !== null ? ` (+${Math.round(rise.changePercent)}%)` : ''}.`,
+      severity: 'warning',
+      categoryIds: [rise.categoryId],
+      suggestedSaving: rise.change
+    });
+    if (fall) insights.push({
+      title: `${name(fall.categoryId)} desceu`,
+      detail: `Menos ${format(-fall.change as Money)} face ao mês anterior.`,
+      severity: 'positive',
+      categoryIds: [fall.categoryId],
+      suggestedSaving: null
+    });
+
+    insights.push(stats.averageNet >= 0
+      ? {
+        title: 'Média mensal positiva',
+        detail: `Em média sobram ${format(stats.averageNet)} por mês.`,
+        severity: 'positive',
+        categoryIds: [],
+        suggestedSaving: null
+      }
+      : {
+        title: 'Gastos acima das entradas',
+        detail: `Em média as saídas excedem as entradas em ${format(-stats.averageNet as Money)} por mês.`,
+        severity: 'critical',
+        categoryIds: [],
+        suggestedSaving: -stats.averageNet as Money
+      });
+
+    return insights;
+  }
+});
+
+const createAiInsightProvider = (kind: AiProviderKind, client: AiClient): InsightProvider => ({
+  kind,
+  generate: async stats => parseInsights(await client.complete(buildInsightPrompt(stats), { json: true }), statsCategories(stats))
+});
+
+// Sem modelo definido usa-se o predefinido do fornecedor
+export const resolveAiSettings = (settings: AiSettings): AiSettings => ({
+  ...settings,
+  model: settings.model.trim() || DEFAULT_MODELS[settings.provider]
+});
+
+export const createAiClient = (settings: AiSettings): AiClient | null => {
+  const resolved = resolveAiSettings(settings);
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiClient(resolved);
+    case 'openai':
+      return createOpenAiCompatibleClient(resolved);
+    default:
+      return null;
+  }
+};
+
+export const createInsightProvider = (settings: AiSettings): InsightProvider => {
+  const client = createAiClient(settings);
+  return client ? createAiInsightProvider(settings.provider, client) : createOfflineProvider();
+};
+
+export const getFinancialInsights = async (settings: AiSettings, transactions: Transaction[], categories: Category[], currency: string): Promise<InsightResult> => {
+  const stats = buildInsightStats(transactions, categories, currency);
+  const provider = createInsightProvider(settings);
+  try {
+    return { insights: await provider.generate(stats), provider: provider.kind };
+  } catch (error) {
+    console.error("AI Error:", error);
+    return {
+      insights: await createOfflineProvider().generate(stats),
+      provider: 'offline',
+      error: error instanceof Error ? error.message : 'Erro ao contactar o serviço de IA.'
+    };
+  }
+};
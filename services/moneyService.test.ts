@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Money } from '../types';
+import { allocateMoney, fromMoney, isAmount, MAX_AMOUNT, parseMoney, roundMoney, scaleMoney, sumMoney, toMoney, validateAmountInput } from './moneyService';
+
+describe('toMoney', () => {
+  it('arredonda ao cêntimo a partir de meio cêntimo, nos dois sentidos', () => {
+    expect(toMoney(1.005)).toBe(101);
+    expect(toMoney(-1.005)).toBe(-101);
+    expect(toMoney(0.1 + 0.2)).toBe(30);
+    expect(toMoney(-0.001)).toBe(0);
+  });
+
+  it('volta a unidades sem perder cêntimos', () => {
+    expect(fromMoney(toMoney(1234.56))).toBe(1234.56);
+    expect(sumMoney([toMoney(0.1), toMoney(0.2)])).toBe(30);
+  });
+
+  it('só aceita de fora cêntimos inteiros dentro do máximo', () => {
+    expect(isAmount(1250)).toBe(true);
+    expect(isAmount(12.5)).toBe(false);
+    expect(isAmount('1250')).toBe(false);
+    expect(isAmount(toMoney(MAX_AMOUNT) + 1)).toBe(false);
+  });
+});
+
+describe('roundMoney e scaleMoney', () => {
+  it('arredondam frações de cêntimo a partir de meio, nos dois sentidos', () => {
+    expect(roundMoney(12.5)).toBe(13);
+    expect(roundMoney(-12.5)).toBe(-13);
+    expect(roundMoney(-0.4)).toBe(0);
+    expect(scaleMoney(1000 as Money, 1 / 3)).toBe(333);
+    expect(scaleMoney(999 as Money, 0.5)).toBe(500);
+  });
+});
+
+describe('allocateMoney', () => {
+  it('reparte sem perder cêntimos, com o resto nas primeiras partes', () => {
+    expect(allocateMoney(1000 as Money, 3)).toEqual([334, 333, 333]);
+    expect(allocateMoney(-1000 as Money, 3)).toEqual([-334, -333, -333]);
+    expect(sumMoney(allocateMoney(101 as Money, 4))).toBe(101);
+  });
+});
+
+describe('parseMoney', () => {
+  it.each([
+    ['1.234,56', 123456],
+    ['1,234.56', 123456],
+    ['1 234,56 €', 123456],
+    ['EUR 12.50', 1250],
+    ['12,5', 1250],
+    ['-12,50', -1250],
+    ['+3', 300],
+    ['(12,50)', -1250],
+    ['12,50-', -1250],
+    ['.5', 50],
+    ['12.345.678,9', 1234567890]
+  ])('lê "%s"', (raw, cents) => {
+    expect(parseMoney(raw)).toBe(cents);
+  });
+
+  it('usa o separador decimal indicado', () => {
+    expect(parseMoney('1.234', ',')).toBe(123400);
+    expect(parseMoney('1.234,5', ',')).toBe(123450);
+  });
+
+  it('rejeita mais de dois decimais mesmo com o separador indicado', () => {
+    expect(parseMoney('1,005', ',')).toBeNull();
+    expect(parseMoney('1.234', '.')).toBeNull();
+  });
+
+  it.each(['', 'abc', '12a', '1.2.3', '1,2,3,4', '1,234,56', '--5', '0,125', '0.125'])('rejeita "%s"', raw => {
+    expect(parseMoney(raw)).toBeNull();
+  });
+
+  // Um único separador seguido de três dígitos tanto pode ser milhares como decimais
+  it.each(['1,234', '1.234', '-1,234', '12,345', '999.000'])('rejeita "%s" sem separador decimal indicado', raw => {
+    expect(parseMoney(raw)).toBeNull();
+  });
+
+  it('rejeita valores acima do máximo', () => {
+    expect(parseMoney('2.000.000.000')).toBeNull();
+  });
+});
+
+describe('validateAmountInput', () => {
+  it('aceita valores positivos', () => {
+    expect(validateAmountInput('12,30')).toEqual({ amount: 1230 });
+  });
+
+  it('explica o que está errado', () => {
+    expect(validateAmountInput('0')).toEqual({ error: 'O valor tem de ser maior que zero.' });
+    expect(validateAmountInput('-4')).toEqual({ error: 'O valor tem de ser maior que zero.' });
+    expect(validateAmountInput('x')).toEqual({ error: '"x" não é um valor válido.' });
+  });
+});
@@ -0,0 +1,91 @@
+import { Money } from "../types";
+
+// Maior valor aceite num movimento (mil milhões), bem dentro dos inteiros exatos
+export const MAX_AMOUNT = 1e9;
+
+// Arredonda ao cêntimo por excesso a partir de meio cêntimo, tanto para positivos como negativos;
+// o toPrecision corrige casos como 1.005 * 100 = 100.49999999999999
+export const toMoney = (amount: number): Money => {
+  const cents = parseFloat((Math.abs(amount) * 100).toPrecision(12));
+  return (Math.sign(amount) * Math.round(cents) || 0) as Money;
+};
+
+export const fromMoney = (money: Money): number => money / 100;
+
+export const isMoney = (value: unknown): value is Money =>
+  typeof value === 'number' && Number.isSafeInteger(value);
+
+// Valor vindo de fora (ficheiro, outro dispositivo): cêntimos inteiros sem passar do máximo
+export const isAmount = (value: unknown): value is Money =>
+  isMoney(value) && Math.abs(value) <= MAX_AMOUNT * 100;
+
+export const sumMoney = (values: Money[]): Money =>
+  values.reduce((s, v) => s + v, 0) as Money;
+
+// Arredonda ao cêntimo um valor já em cêntimos (uma média, uma conversão, uma proporção)
+export const roundMoney = (cents: number): Money =>
+  (Math.sign(cents) * Math.round(Math.abs(cents)) || 0) as Money;
+
+export const scaleMoney = (money: Money, factor: number): Money => roundMoney(money * factor);
+
+// Divide em partes iguais sem perder cêntimos: as primeiras partes ficam com o cêntimo que sobra
+export const allocateMoney = (total: Money, parts: number): Money[] => {
+  const base = Math.trunc(total / parts);
+  const rest = total - base * parts;
+  return Array.from({ length: parts }, (_, i) => (base + (i < Math.abs(rest) ? Math.sign(rest) : 0)) as Money);
+};
+
+const CURRENCY_MARKS = /[€$£¥]|\b[A-Z]{3}\b/g;
+
+// Separador decimal de um número escrito à mão: o último separador é decimal se for o único desse tipo
+const guessDecimal = (digits: string): ',' | '.' | null => {
+  const last = Math.max(digits.lastIndexOf(','), digits.lastIndexOf('.'));
+  if (last < 0) return null;
+  const mark = digits[last] as ',' | '.';
+  const other = mark === ',' ? '.' : ',';
+  if (digits.includes(other)) return digits.indexOf(other) < last ? mark : other;
+  if (digits.split(mark).length > 2) return other;
+  return mark;
+};
+
+// Um só separador entre um grupo de um a três dígitos e três dígitos ("1.234", "1,234") tanto pode
+// ser milhares como decimal. Depois de um "0" só pode ser decimal ("0,125"), e aí sobram casas.
+const AMBIGUOUS = /^[1-9]\d{0,2}[.,]\d{3}$/;
+
+// Aceita "1.234,56", "1,234.56", "1 234,56 €", "-12,5", "(12,50)" e "12,50-".
+// Sem separador decimal indicado, é deduzido do próprio texto e os casos ambíguos são recusados.
+// Mais de dois decimais nunca se arredondam ("1,005"). Devolve null se não for um número.
+export const parseMoney = (raw: string, decimalSeparator?: ',' | '.'): Money | null => {
+  let value = raw.replace(CURRENCY_MARKS, '').replace(/[\s']/g, '');
+  if (!value) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  const sign = value.match(/^[-+]|-$/);
+  if (sign) {
+    negative = negative || sign[0] === '-';
+    value = sign.index === 0 ? value.slice(1) : value.slice(0, -1);
+  }
+  if (!/^\d[\d.,]*$/.test(value) && !/^[.,]\d+$/.test(value)) return null;
+  if (decimalSeparator === undefined && AMBIGUOUS.test(value)) return null;
+  const decimal = decimalSeparator || guessDecimal(value);
+  const thousands = decimal === ',' ? '.' : ',';
+  const [grouped, fraction = '', extra] = value.split(decimal || thousands);
+  if (extra !== undefined || fraction.length > 2) return null;
+  // Os milhares só valem em grupos de três dígitos: "1.2.3" não é um número
+  if (grouped.includes(thousands) && !new RegExp(`^\\d{1,3}(\\${thousands}\\d{3})+$`).test(grouped)) return null;
+  const whole = grouped.split(thousands).join('');
+  const amount = Number(`${whole || '0'}.${fraction || '0'}`);
+  if (!isFinite(amount) || amount > MAX_AMOUNT) return null;
+  return toMoney(negative ? -amount : amount);
+};
+
+// Valor de um campo de formulário: positivo, com no máximo dois decimais
+export const validateAmountInput = (raw: string): { amount: Money } | { error: string } => {
+  const money = parseMoney(raw);
+  if (money === null) return { error: `"${raw}" não é um valor válido.` };
+  if (money <= 0) return { error: 'O valor tem de ser maior que zero.' };
+  return { amount: money };
+};
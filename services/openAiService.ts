@@ -0,0 +1,29 @@
+import { AiClient, AiSettings } from "../types";
+
+// Qualquer servidor com o endpoint /chat/completions da OpenAI (Ollama, LM Studio, llama.cpp...)
+export const createOpenAiCompatibleClient = (settings: AiSettings): AiClient => ({
+  complete: async (prompt, options) => {
+    if (!settings.baseUrl) throw new Error('Falta o endereço do servidor nas definições de IA.');
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Os servidores locais normalmente não pedem chave
+        ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.4,
+        ...(options?.json && { response_format: { type: 'json_object' } })
+      })
+    }).catch(() => {
+      throw new Error(`Não foi possível contactar o servidor de IA em ${settings.baseUrl}.`);
+    });
+    if (!response.ok) throw new Error(`O servidor de IA respondeu com o erro ${response.status}.`);
+    const json = await response.json();
+    const text = json.choices?.[0]?.message?.content;
+    if (!text) throw new Error('O servidor de IA não devolveu texto.');
+    return text;
+  }
+});
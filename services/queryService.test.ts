@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionType } from '../types';
+import { isEmptyQuery, parseQuery } from './queryService';
+
+describe('parseQuery', () => {
+  it('lê os valores em cêntimos e aponta os filtros que não consegue ler', () => {
+    const query = parseQuery('valor>50 valor<1.000 tipo:saida tipo:outro cinema');
+
+    expect(query.amount).toEqual([{ op: '>', value: 5000 }]);
+    expect(query.types).toEqual([TransactionType.EXPENSE]);
+    expect(query.terms).toEqual(['cinema']);
+    expect(query.ignored).toEqual(['valor<1.000', 'tipo:outro']);
+  });
+
+  it('não conta os filtros ignorados como pesquisa', () => {
+    expect(isEmptyQuery(parseQuery('valor>1,005'))).toBe(true);
+  });
+});
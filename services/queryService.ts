@@ -0,0 +1,184 @@
+import { Account, Category, Comparison, ParsedQuery, SortField, Transaction, TransactionFilters, TransactionSort, TransactionType } from "../types";
+import { categoryLines, transactionCategories } from "./splitService";
+import { parseMoney } from "./moneyService";
+import { categoryName } from "./categoryService";
+
+export const EMPTY_FILTERS: TransactionFilters = {
+  search: '',
+  categoryIds: [],
+  tags: [],
+  startDate: '',
+  endDate: '',
+  type: 'all',
+  account: 'all',
+  member: 'all',
+  minAmount: null,
+  maxAmount: null
+};
+
+export const DEFAULT_SORT: TransactionSort = { field: 'date', direction: 'desc' };
+
+export const SORT_LABELS: Record<SortField, string> = {
+  date: 'Data',
+  amount: 'Valor',
+  category: 'Categoria',
+  description: 'Descrição'
+};
+
+export const QUERY_HELP = 'cat:Lazer  tag:férias  tipo:saida  valor>50  data>=2024-01  conta:Poupança  "jantar fora"  -uber';
+
+const KEY_ALIASES: Record<string, 'category' | 'tag' | 'account' | 'type' | 'amount' | 'date'> = {
+  cat: 'category', categoria: 'category', category: 'category',
+  tag: 'tag', etiqueta: 'tag',
+  conta: 'account', account: 'account',
+  tipo: 'type', type: 'type',
+  valor: 'amount', amount: 'amount', montante: 'amount',
+  data: 'date', date: 'date'
+};
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  entrada: TransactionType.INCOME, entradas: TransactionType.INCOME, income: TransactionType.INCOME,
+  saida: TransactionType.EXPENSE, saidas: TransactionType.EXPENSE, expense: TransactionType.EXPENSE,
+  transferencia: TransactionType.TRANSFER, transferencias: TransactionType.TRANSFER, transfer: TransactionType.TRANSFER
+};
+
+// Minúsculas e sem acentos, para que "saúde" encontre "Saude"
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// -? chave operador? ("frase" | palavra)
+const TOKEN_PATTERN = /(-)?(?:([a-zA-ZÀ-ÿ]+)(>=|<=|:|>|<|=))?(?:"([^"]*)"?|(\S+))/g;
+
+export const parseQuery = (input: string): ParsedQuery => {
+  const query: ParsedQuery = {
+    terms: [], excludedTerms: [], categories: [], excludedCategories: [], tags: [], accounts: [], types: [], amount: [], date: [], ignored: []
+  };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negated, rawKey, rawOp, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const key = rawKey ? KEY_ALIASES[normalizeText(rawKey)] : undefined;
+    const op = (rawOp === ':' ? '=' : rawOp) as Comparison['op'];
+    if (!value) continue;
+
+    if (!key) {
+      // Chaves desconhecidas (ex.: "http:") contam como texto livre
+      const text = normalizeText(rawKey ? raw.replace(/^-/, '') : value);
+      (negated ? query.excludedTerms : query.terms).push(text);
+      continue;
+    }
+
+    switch (key) {
+      case 'category':
+        (negated ? query.excludedCategories : query.categories).push(normalizeText(value));
+        break;
+      case 'tag':
+        query.tags.push(normalizeText(value));
+        break;
+      case 'account':
+        query.accounts.push(normalizeText(value));
+        break;
+      case 'type': {
+        const type = TYPE_ALIASES[normalizeText(value)];
+        if (type) query.types.push(type);
+        else query.ignored.push(raw);
+        break;
+      }
+      // Em cêntimos, como os valores dos movimentos
+      case 'amount': {
+        const amount = parseMoney(value);
+        if (amount !== null) query.amount.push({ op, value: amount });
+        else query.ignored.push(raw);
+        break;
+      }
+      case 'date':
+        query.date.push({ op, value });
+        break;
+    }
+  }
+  return query;
+};
+
+const compare = (actual: number | string, { op, value }: Comparison): boolean => {
+  switch (op) {
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    // Nas datas, "=" aceita prefixos: data:2024-03 corresponde a todo o mês
+    case '=': return typeof actual === 'string' ? actual.startsWith(String(value)) : actual === value;
+  }
+};
+
+// As datas parciais comparam-se só pelo comprimento indicado (data<2024-03 = antes de março)
+const compareDate = (date: string, comparison: Comparison): boolean =>
+  compare(comparison.op === '=' ? date : date.slice(0, String(comparison.value).length), comparison);
+
+export const isEmptyQuery = ({ ignored, ...query }: ParsedQuery): boolean =>
+  Object.values(query).every(list => list.length === 0);
+
+// A pesquisa usa os nomes atuais das categorias, por isso "cat:" acompanha as mudanças de nome
+export const matchesQuery = (t: Transaction, query: ParsedQuery, accounts: Account[] = [], categoryList: Category[] = []): boolean => {
+  const lines = categoryLines(t);
+  const names = lines.map(l => categoryName(categoryList, l.categoryId));
+  const haystack = normalizeText([t.description, ...names, ...lines.map(l => l.description || ''), ...(t.tags || [])].join(' '));
+  const categories = names.map(normalizeText);
+  const tags = (t.tags || []).map(normalizeText);
+  const accountNames = [t.accountId, t.toAccountId]
+    .filter(Boolean)
+    .map(id => normalizeText(accounts.find(a => a.id === id)?.name || id!));
+
+  return query.terms.every(term => haystack.includes(term))
+    && !query.excludedTerms.some(term => haystack.includes(term))
+    && (query.categories.length === 0 || query.categories.some(c => categories.some(category => category.includes(c))))
+    && !query.excludedCategories.some(c => categories.some(category => category.includes(c)))
+    && query.tags.every(tag => tags.includes(tag))
+    && (query.accounts.length === 0 || query.accounts.some(a => accountNames.some(name => name.includes(a))))
+    && (query.types.length === 0 || query.types.includes(t.type))
+    && query.amount.every(c => compare(t.amount, c))
+    && query.date.every(c => compareDate(t.date, c));
+};
+
+export const filterTransactions = (transactions: Transaction[], filters: TransactionFilters, accounts: Account[] = [], categories: Category[] = []): Transaction[] => {
+  const query = parseQuery(filters.search);
+  const hasQuery = !isEmptyQuery(query);
+  return transactions.filter(t =>
+    (filters.categoryIds.length === 0 || transactionCategories(t).some(c => filters.categoryIds.includes(c))) &&
+    (filters.tags.length === 0 || filters.tags.some(tag => t.tags?.includes(tag))) &&
+    (filters.type === 'all' || t.type === filters.type) &&
+    (filters.account === 'all' || t.accountId === filters.account || t.toAccountId === filters.account) &&
+    (filters.member === 'all' || t.paidBy === filters.member || !!t.splitBetween?.includes(filters.member)) &&
+    (!filters.startDate || t.date >= filters.startDate) &&
+    (!filters.endDate || t.date <= filters.endDate) &&
+    (filters.minAmount === null || t.amount >= filters.minAmount) &&
+    (filters.maxAmount === null || t.amount <= filters.maxAmount) &&
+    (!hasQuery || matchesQuery(t, query, accounts, categories))
+  );
+};
+
+// Conta os filtros da janela de filtros; a pesquisa tem a sua própria caixa
+export const countActiveFilters = (filters: TransactionFilters): number =>
+  [
+    filters.categoryIds.length > 0,
+    filters.tags.length > 0,
+    !!filters.startDate || !!filters.endDate,
+    filters.type !== 'all',
+    filters.account !== 'all',
+    filters.member !== 'all',
+    filters.minAmount !== null || filters.maxAmount !== null
+  ].filter(Boolean).length;
+
+export const sortTransactions = (transactions: Transaction[], sort: TransactionSort, categories: Category[] = []): Transaction[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...transactions].sort((a, b) => {
+    let result: number;
+    switch (sort.field) {
+      case 'amount': result = a.amount - b.amount; break;
+      case 'category': result = categoryName(categories, a.categoryId).localeCompare(categoryName(categories, b.categoryId), 'pt'); break;
+      case 'description': result = (a.description || '').localeCompare(b.description || '', 'pt'); break;
+      default: result = a.date.localeCompare(b.date);
+    }
+    // Empates ficam ordenados do mais recente para o mais antigo
+    return result * factor || b.date.localeCompare(a.date);
+  });
+};
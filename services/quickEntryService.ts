@@ -0,0 +1,324 @@
+import { AiProviderKind, AiSettings, CategorizationRule, Category, CategorySuggestion, Money, ParsedEntry, Transaction, TransactionType } from "../types";
+import { normalizeText } from "./queryService";
+import { normalizeDescription } from "./duplicateService";
+import { findMatchingRule } from "./categorizationService";
+import { uncategorizedId } from "./importService";
+import { fromMoney, parseMoney, toMoney } from "./moneyService";
+import { SUPPORTED_CURRENCIES } from "./currencyService";
+import { addDays, daysInMonth, parseISODate } from "./dateUtils";
+import { createAiClient, parseJsonResponse } from "./insightService";
+
+// Movimentos por pedido de sugestões em lote
+const SUGGESTION_BATCH = 40;
+
+const MAX_DESCRIPTION = 60;
+
+export interface EntryContext {
+  categories: Category[];
+  rules: CategorizationRule[];
+  // Movimentos já registados, para aprender a categoria habitual de cada descrição
+  history: Transaction[];
+  today: string;
+}
+
+export interface QuickEntryResult {
+  entry: ParsedEntry;
+  provider: AiProviderKind;
+  // Preenchido quando o fornecedor configurado falhou e se usou a leitura local
+  error?: string;
+}
+
+export interface SuggestionResult {
+  suggestions: CategorySuggestion[];
+  provider: AiProviderKind;
+  error?: string;
+}
+
+type SuggestionItem = Pick<Transaction, 'id' | 'type' | 'amount' | 'description'>;
+
+// Palavras-chave de comerciantes comuns; só se usam se a categoria existir
+const CATEGORY_HINTS: Record<string, string[]> = {
+  supermercado: ['continente', 'pingo doce', 'lidl', 'aldi', 'mercadona', 'minipreco', 'intermarche', 'auchan', 'mercearia', 'supermercado'],
+  alimentacao: ['continente', 'pingo doce', 'lidl', 'aldi', 'mercadona', 'minipreco', 'intermarche', 'auchan', 'mercearia', 'supermercado', 'padaria', 'talho'],
+  restaurantes: ['restaurante', 'cafe', 'pastelaria', 'jantar', 'almoco', 'mcdonalds', 'burger', 'pizza', 'glovo', 'uber eats'],
+  transporte: ['uber', 'bolt', 'metro', 'carris', 'comboio', 'cp', 'galp', 'repsol', 'prio', 'combustivel', 'gasolina', 'gasoleo', 'portagem', 'via verde', 'estacionamento', 'taxi'],
+  lazer: ['cinema', 'netflix', 'spotify', 'disney', 'hbo', 'concerto', 'bilhete', 'restaurante', 'cafe', 'jantar', 'bar'],
+  saude: ['farmacia', 'hospital', 'clinica', 'dentista', 'consulta', 'medico', 'analises'],
+  servicos: ['edp', 'endesa', 'meo', 'vodafone', 'digi', 'agua', 'eletricidade', 'gas', 'internet', 'telemovel', 'seguro'],
+  renda: ['renda', 'senhorio', 'condominio', 'prestacao casa'],
+  educacao: ['escola', 'propinas', 'livraria', 'curso', 'faculdade'],
+  salario: ['salario', 'ordenado', 'vencimento', 'processamento']
+};
+
+const INCOME_WORDS = /\b(recebi|recebido|recebida|recebeu|salario|ordenado|vencimento|reembolso|devolucao|deposito|transferencia recebida|entrada de)\b/;
+
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/€|\beur(os?)?\b/i, 'EUR'],
+  [/\$|\busd\b|\bdolar(es)?\b/i, 'USD'],
+  [/£|\bgbp\b|\blibras?\b/i, 'GBP'],
+  [/\bR\$|\bbrl\b|\bre(al|ais)\b/i, 'BRL']
+];
+
+// Palavras que descrevem o movimento e não o comerciante
+const FILLER_WORDS = new Set([
+  'compra', 'pagamento', 'paguei', 'gastei', 'recebi', 'recebido', 'recebida', 'movimento', 'debito', 'credito', 'cartao',
+  'de', 'do', 'da', 'em', 'no', 'na', 'com', 'a', 'o', 'as', 'ao', 'por', 'para', 'valor', 'montante', 'total', 'data', 'dia',
+  'hoje', 'ontem', 'anteontem', 'ha', 'dias', 'eur', 'euro', 'euros', 'usd', 'gbp', 'efetuada', 'efetuado', 'realizada', 'realizado',
+  'domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado', 'feira', 'passada', 'passado'
+]);
+
+const WEEKDAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+
+const NUMBER_PATTERN = /\d{1,3}(?:[.\s]\d{3})+(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?/g;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const SHORT_DATE_PATTERN = /\b(\d{1,2})([/.-])(\d{1,2})(?:\2(\d{2,4}))?\b/;
+const TIME_PATTERN = /\b\d{1,2}[:h]\d{2}(?::\d{2})?\b/gi;
+const CARD_PATTERN = /\*+\s?\d+/g;
+
+const validDate = (year: number, month: number, day: number): string | null =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month - 1)
+    ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    : null;
+
+// Sem ano, assume-se a ocorrência mais recente que não seja futura
+const withoutYear = (month: number, day: number, today: string): string | null => {
+  const year = parseISODate(today).getUTCFullYear();
+  const date = validDate(year, month, day);
+  return date && date > today ? validDate(year - 1, month, day) : date;
+};
+
+interface Match {
+  value: string;
+  text: string;
+}
+
+const findDate = (text: string, today: string): Match | null => {
+  const iso = text.match(ISO_DATE_PATTERN);
+  if (iso) {
+    const date = validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (date) return { value: date, text: iso[0] };
+  }
+  const short = text.match(SHORT_DATE_PATTERN);
+  // "2.50" é um valor, não uma data: com ponto o ano é obrigatório
+  if (short && !(short[2] === '.' && !short[4])) {
+    const [day, month] = [Number(short[1]), Number(short[3])];
+    let date: string | null;
+    if (short[4]) {
+      const year = Number(short[4]);
+      date = validDate(year < 100 ? year + 2000 : year, month, day);
+    } else {
+      date = withoutYear(month, day, today);
+    }
+    if (date) return { value: date, text: short[0] };
+  }
+
+  const normalized = normalizeText(text);
+  const daysAgo = normalized.match(/\bha (\d{1,2}) dias?\b/);
+  if (daysAgo) return { value: addDays(today, -Number(daysAgo[1])), text: '' };
+  if (/\banteontem\b/.test(normalized)) return { value: addDays(today, -2), text: '' };
+  if (/\bontem\b/.test(normalized)) return { value: addDays(today, -1), text: '' };
+  if (/\bhoje\b/.test(normalized)) return { value: today, text: '' };
+  const weekday = WEEKDAYS.findIndex(w => new RegExp(`\\b${w}\\b`).test(normalized));
+  if (weekday >= 0) {
+    const back = (parseISODate(today).getUTCDay() - weekday + 7) % 7;
+    return { value: addDays(today, -back), text: '' };
+  }
+  return null;
+};
+
+const tokenAmount = (token: string): Money | null => {
+  const compact = token.replace(/\s/g, '');
+  // O último separador seguido de 1 ou 2 dígitos é o decimal
+  const decimal = /\.\d{1,2}$/.test(compact) ? '.' : ',';
+  return parseMoney(compact, decimal);
+};
+
+// Nos talões o total ganha; depois valores junto a uma moeda; depois valores com cêntimos
+const findAmount = (text: string, dateText: string): Match | null => {
+  let best: (Match & { score: number }) | null = null;
+  const cleaned = (dateText ? text.replace(dateText, ' ') : text).replace(TIME_PATTERN, ' ').replace(CARD_PATTERN, ' ');
+  cleaned.split('\n').forEach(line => {
+    const totalLine = /\b(total|a pagar|montante|valor|importancia)\b/.test(normalizeText(line)) && !/\bsub-?total\b/i.test(line);
+    for (const m of line.matchAll(NUMBER_PATTERN)) {
+      const amount = tokenAmount(m[0]);
+      if (amount === null || amount <= 0) continue;
+      const around = line.slice(Math.max(0, m.index! - 4), m.index! + m[0].length + 6);
+      const score = (totalLine ? 4 : 0)
+        + (CURRENCY_MARKERS.some(([pattern]) => pattern.test(around)) ? 2 : 0)
+        + (/[.,]\d{1,2}$/.test(m[0]) ? 1 : 0);
+      // Em empate fica o último: num talão o total vem no fim
+      if (!best || score >= best.score) best = { value: String(amount), text: m[0], score };
+    }
+  });
+  return best;
+};
+
+const findCurrency = (text: string): string | null => {
+  const marker = CURRENCY_MARKERS.find(([pattern]) => pattern.test(text));
+  if (marker) return marker[1];
+  const code = text.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(c => SUPPORTED_CURRENCIES.includes(c));
+  return code || null;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Num talão a primeira linha com letras costuma ser o comerciante;
+// numa frase ou SMS retiram-se valores, datas e palavras de ligação
+const findDescription = (text: string, removed: string[]): string => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const source = lines.length > 1
+    ? lines.find(l => /[a-zA-ZÀ-ÿ]{3}/.test(l)) || ''
+    : removed.filter(Boolean).reduce((s, r) => s.replace(r, ' '), text);
+  const words = source
+    .replace(TIME_PATTERN, ' ')
+    .replace(CARD_PATTERN, ' ')
+    .split(/\s+/)
+    .filter(w => {
+      const plain = normalizeText(w).replace(/[^a-z0-9]/g, '');
+      return plain && !FILLER_WORDS.has(plain) && !/^\d+$/.test(plain) && !/^[€$£]$/.test(w);
+    });
+  return capitalize(words.join(' ').replace(/^[\s,.;:-]+|[\s,.;:-]+$/g, '').slice(0, MAX_DESCRIPTION));
+};
+
+const containsWords = (haystack: string, needle: string) => ` ${haystack} `.includes(` ${needle} `);
+
+// Regras do utilizador, depois a categoria mais usada em descrições parecidas, depois palavras-chave.
+// Devolve o identificador da categoria
+export const suggestCategoryLocally = (item: Pick<Transaction, 'type' | 'amount' | 'description'>, context: EntryContext): string | null => {
+  const rule = findMatchingRule(context.rules, item);
+  if (rule) return rule.categoryId;
+  const uncategorized = uncategorizedId(context.categories);
+
+  const words = normalizeDescription(item.description).split(' ').filter(w => w.length > 2);
+  if (words.length === 0) return null;
+  const counts = new Map<string, number>();
+  context.history
+    .filter(t => t.type === item.type && t.categoryId !== uncategorized && containsWords(normalizeDescription(t.description), words[0]))
+    .forEach(t => counts.set(t.categoryId, (counts.get(t.categoryId) || 0) + 1));
+  const usual = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (usual && context.categories.some(c => c.id === usual[0])) return usual[0];
+
+  const description = normalizeDescription(item.description);
+  const hinted = context.categories.find(c => c.id !== uncategorized && (CATEGORY_HINTS[normalizeText(c.name)] || []).some(k => containsWords(description, k)));
+  return hinted?.id || null;
+};
+
+export const parseEntryLocally = (text: string, context: EntryContext): ParsedEntry => {
+  const date = findDate(text, context.today);
+  const amount = findAmount(text, date?.text || '');
+  const type = INCOME_WORDS.test(normalizeText(text)) ? TransactionType.INCOME : TransactionType.EXPENSE;
+  const description = findDescription(text, [amount?.text || '', date?.text || '']);
+  const parsedAmount = amount ? Number(amount.value) as Money : null;
+  return {
+    amount: parsedAmount,
+    date: date?.value || null,
+    type,
+    description,
+    categoryId: description ? suggestCategoryLocally({ type, amount: parsedAmount || 0 as Money, description }, context) : null,
+    currency: findCurrency(text)
+  };
+};
+
+const buildEntryPrompt = (text: string, context: EntryContext): string => `
+    Extraia um único movimento financeiro do texto abaixo. Pode ser uma frase curta, um talão de compra ou um SMS do banco.
+
+    REGRAS IMPORTANTES:
+    1. Hoje é ${context.today}; converta datas relativas ("ontem", "sexta") para AAAA-MM-DD.
+    2. Num talão use o valor total pago, não as linhas individuais.
+    3. "description" é o nome do comerciante ou um resumo curto, sem valores nem datas.
+    4. "category" tem de ser uma destas: ${JSON.stringify(context.categories.map(c => c.name))}, ou null se nenhuma servir.
+    5. Responda APENAS com um objeto JSON neste formato:
+       {"amount":número positivo ou null,"date":"AAAA-MM-DD" ou null,"type":"EXPENSE|INCOME","description":"texto","category":"categoria" ou null,"currency":"código ISO" ou null}
+
+    Texto: """${text}"""
+  `;
+
+// O modelo responde com o nome; devolve o identificador da categoria
+const matchCategory = (value: unknown, categories: Category[]): string | null =>
+  typeof value === 'string' ? categories.find(c => normalizeText(c.name) === normalizeText(value))?.id || null : null;
+
+// Valida a resposta do modelo; o que faltar ou vier inválido mantém a leitura local
+const parseAiEntry = (text: string, local: ParsedEntry, context: EntryContext): ParsedEntry => {
+  const json = parseJsonResponse(text);
+  const date = typeof json.date === 'string' && ISO_DATE_PATTERN.test(json.date)
+    ? validDate(...(json.date.split('-').map(Number) as [number, number, number]))
+    : null;
+  const currency = typeof json.currency === 'string' ? json.currency.toUpperCase() : '';
+  return {
+    amount: typeof json.amount === 'number' && json.amount > 0 ? toMoney(json.amount) : local.amount,
+    date: date || local.date,
+    type: json.type === TransactionType.INCOME || json.type === TransactionType.EXPENSE ? json.type : local.type,
+    description: typeof json.description === 'string' && json.description.trim() ? json.description.trim().slice(0, MAX_DESCRIPTION) : local.description,
+    categoryId: matchCategory(json.category, context.categories) || local.categoryId,
+    currency: SUPPORTED_CURRENCIES.includes(currency) ? currency : local.currency
+  };
+};
+
+export const parseQuickEntry = async (settings: AiSettings, text: string, context: EntryContext): Promise<QuickEntryResult> => {
+  const local = parseEntryLocally(text, context);
+  const client = createAiClient(settings);
+  if (!client) return { entry: local, provider: 'offline' };
+  try {
+    const response = await client.complete(buildEntryPrompt(text, context), { json: true });
+    return { entry: parseAiEntry(response, local, context), provider: settings.provider };
+  } catch (error) {
+    console.error("AI Error:", error);
+    return {
+      entry: local,
+      provider: 'offline',
+      error: error instanceof Error ? error.message : 'Erro ao contactar o serviço de IA.'
+    };
+  }
+};
+
+const localSuggestions = (items: SuggestionItem[], context: EntryContext): CategorySuggestion[] =>
+  items.flatMap(item => {
+    const categoryId = suggestCategoryLocally(item, context);
+    return categoryId && categoryId !== uncategorizedId(context.categories) ? [{ id: item.id, categoryId }] : [];
+  });
+
+const buildSuggestionPrompt = (items: SuggestionItem[], context: EntryContext): string => `
+    Atribua uma categoria a cada um destes movimentos bancários.
+
+    REGRAS IMPORTANTES:
+    1. Use apenas estas categorias: ${JSON.stringify(context.categories.filter(c => c.id !== uncategorizedId(context.categories)).map(c => c.name))}.
+    2. Se nenhuma servir, omita o movimento da resposta.
+    3. Responda APENAS com um objeto JSON neste formato:
+       {"suggestions":[{"id":"id do movimento","category":"categoria"}]}
+
+    Movimentos: ${JSON.stringify(items.map(i => ({ id: i.id, descricao: i.description, valor: fromMoney(i.amount), tipo: i.type })))}
+  `;
+
+const parseSuggestions = (text: string, items: SuggestionItem[], context: EntryContext): CategorySuggestion[] => {
+  const json = parseJsonResponse(text);
+  if (!Array.isArray(json.suggestions)) throw new Error('A IA devolveu uma resposta sem sugestões.');
+  const ids = new Set(items.map(i => i.id));
+  return json.suggestions.flatMap((s: any): CategorySuggestion[] => {
+    const categoryId = s && ids.has(String(s.id)) ? matchCategory(s.category, context.categories) : null;
+    return categoryId && categoryId !== uncategorizedId(context.categories) ? [{ id: String(s.id), categoryId }] : [];
+  });
+};
+
+// Sugestões para movimentos sem categoria; os que a IA não souber ficam com a sugestão local
+export const suggestCategories = async (settings: AiSettings, items: SuggestionItem[], context: EntryContext): Promise<SuggestionResult> => {
+  const local = localSuggestions(items, context);
+  const client = createAiClient(settings);
+  if (!client || items.length === 0) return { suggestions: local, provider: 'offline' };
+  try {
+    const suggested: CategorySuggestion[] = [];
+    for (let i = 0; i < items.length; i += SUGGESTION_BATCH) {
+      const batch = items.slice(i, i + SUGGESTION_BATCH);
+      suggested.push(...parseSuggestions(await client.complete(buildSuggestionPrompt(batch, context), { json: true }), batch, context));
+    }
+    const byId = new Map(suggested.map(s => [s.id, s]));
+    local.forEach(s => { if (!byId.has(s.id)) byId.set(s.id, s); });
+    return { suggestions: items.flatMap(i => byId.get(i.id) || []), provider: settings.provider };
+  } catch (error) {
+    console.error("AI Error:", error);
+    return {
+      suggestions: local,
+      provider: 'offline',
+      error: error instanceof Error ? error.message : 'Erro ao contactar o serviço de IA.'
+    };
+  }
+};
@@ -0,0 +1,94 @@
+import { RecurringRule, RecurrenceFrequency, Transaction } from "../types";
+import { addDays, addMonths, parseISODate, todayISO } from "./dateUtils";
+import { DEFAULT_ACCOUNT_ID } from "./accountService";
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: 'Diária',
+  [RecurrenceFrequency.WEEKLY]: 'Semanal',
+  [RecurrenceFrequency.MONTHLY]: 'Mensal',
+  [RecurrenceFrequency.YEARLY]: 'Anual'
+};
+
+// Data da n-ésima ocorrência, sempre calculada a partir do início para não
+// acumular desvios (31 Jan -> 28 Fev -> 31 Mar).
+const occurrenceAt = (rule: RecurringRule, n: number): string => {
+  const anchorDay = rule.dayOfMonth || parseISODate(rule.startDate).getUTCDate();
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(rule.startDate, n);
+    case RecurrenceFrequency.WEEKLY:
+      return addDays(rule.startDate, n * 7);
+    case RecurrenceFrequency.MONTHLY:
+      return addMonths(rule.startDate, n, anchorDay);
+    case RecurrenceFrequency.YEARLY:
+      return addMonths(rule.startDate, n * 12, anchorDay);
+  }
+};
+
+// Com um dia do mês anterior ao do início (início a 20, dia 5), a primeira data
+// calculada cai antes de a regra existir e não conta como ocorrência
+const isBeforeStart = (rule: RecurringRule, date: string): boolean => date < rule.startDate;
+
+export const getOccurrenceDates = (rule: RecurringRule, until: string, after?: string): string[] => {
+  const limit = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = occurrenceAt(rule, n);
+    if (date > limit) break;
+    if (isBeforeStart(rule, date)) continue;
+    if (!after || date > after) dates.push(date);
+  }
+  return dates;
+};
+
+export const getNextOccurrence = (rule: RecurringRule): string | null => {
+  const after = rule.lastGeneratedDate;
+  for (let n = 0; ; n++) {
+    const date = occurrenceAt(rule, n);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (isBeforeStart(rule, date)) continue;
+    if (!after || date > after) return date;
+  }
+};
+
+// O identificador vem da regra e da data, para que dois dispositivos que gerem a mesma
+// ocorrência produzam o mesmo movimento e a sincronização não o duplique
+export const createOccurrence = (rule: RecurringRule, date: string): Transaction => ({
+  id: `${rule.id}:${date}`,
+  type: rule.type,
+  amount: rule.amount,
+  categoryId: rule.categoryId,
+  date,
+  description: rule.description,
+  accountId: rule.accountId || DEFAULT_ACCOUNT_ID,
+  recurringRuleId: rule.id,
+  occurrenceDate: date
+});
+
+// Gera as ocorrências em falta até hoje e avança o cursor de cada regra,
+// para que ocorrências apagadas pelo utilizador não voltem a ser criadas.
+export const materializeRecurringRules = (
+  rules: RecurringRule[],
+  today: string = todayISO()
+): { generated: Transaction[]; rules: RecurringRule[] } => {
+  const generated: Transaction[] = [];
+  const updatedRules = rules.map(rule => {
+    if (!rule.active) return rule;
+    const dates = getOccurrenceDates(rule, today, rule.lastGeneratedDate);
+    if (dates.length === 0) return rule;
+    generated.push(...dates.map(date => createOccurrence(rule, date)));
+    return { ...rule, lastGeneratedDate: dates[dates.length - 1] };
+  });
+  return { generated, rules: updatedRules };
+};
+
+// Propaga os novos valores a esta ocorrência e às seguintes da mesma regra
+export const applyToFutureOccurrences = (
+  transactions: Transaction[],
+  ruleId: string,
+  fromDate: string,
+  changes: Pick<Transaction, 'type' | 'amount' | 'categoryId' | 'description'>
+): Transaction[] =>
+  transactions.map(t =>
+    t.recurringRuleId === ruleId && (t.occurrenceDate || t.date) >= fromDate ? { ...t, ...changes } : t
+  );
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { toMoney } from './moneyService';
+import { aggregateByPeriod, categoryTrends, expensesByCategoryOverTime, listPeriods, OTHER_CATEGORIES, periodKey } from './reportService';
+
+let nextId = 0;
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: String(++nextId),
+  type: TransactionType.EXPENSE,
+  categoryId: 'lazer',
+  amount: toMoney(10),
+  date: '2026-01-15',
+  description: '',
+  accountId: 'default',
+  ...overrides
+});
+
+describe('periodKey', () => {
+  it('identifica as semanas pela segunda-feira', () => {
+    expect(periodKey('2026-01-15', 'week')).toBe('2026-01-12');
+    expect(periodKey('2026-01-12', 'week')).toBe('2026-01-12');
+    expect(periodKey('2026-01-18', 'week')).toBe('2026-01-12');
+  });
+
+  it('usa YYYY-MM para meses e YYYY para anos', () => {
+    expect(periodKey('2026-01-15', 'month')).toBe('2026-01');
+    expect(periodKey('2026-01-15', 'year')).toBe('2026');
+  });
+
+  it('lista os períodos intermédios, mesmo sem movimentos', () => {
+    expect(listPeriods('2025-11-30', '2026-02-01', 'month')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+  });
+});
+
+describe('aggregateByPeriod', () => {
+  it('soma entradas e saídas por mês e acumula o saldo', () => {
+    const summary = aggregateByPeriod([
+      tx({ type: TransactionType.INCOME, categoryId: 'salario', amount: toMoney(1000), date: '2026-01-01' }),
+      tx({ amount: toMoney(250.5), date: '2026-01-10' }),
+      tx({ amount: toMoney(49.5), date: '2026-01-20' }),
+      tx({ amount: toMoney(100), date: '2026-03-05' })
+    ], 'month');
+
+    expect(summary).toEqual([
+      { period: '2026-01', income: 100000, expenses: 30000, net: 70000, balance: 70000, savingsRate: 70 },
+      { period: '2026-02', income: 0, expenses: 0, net: 0, balance: 70000, savingsRate: null },
+      { period: '2026-03', income: 0, expenses: 10000, net: -10000, balance: 60000, savingsRate: null }
+    ]);
+  });
+
+  it('ignora as transferências, também no intervalo de períodos', () => {
+    const summary = aggregateByPeriod([
+      tx({ type: TransactionType.TRANSFER, amount: toMoney(500), date: '2025-12-01', toAccountId: 'savings' }),
+      tx({ amount: toMoney(20), date: '2026-01-10' })
+    ], 'month');
+
+    expect(summary.map(s => s.period)).toEqual(['2026-01']);
+    expect(summary[0].expenses).toBe(2000);
+  });
+
+  it('soma em cêntimos, sem erros de vírgula flutuante', () => {
+    const summary = aggregateByPeriod([tx({ amount: toMoney(0.1) }), tx({ amount: toMoney(0.2) })], 'month');
+    expect(summary[0].expenses).toBe(30);
+  });
+});
+
+describe('expensesByCategoryOverTime', () => {
+  it('reparte os movimentos divididos pelas categorias das partes', () => {
+    const { categories, rows } = expensesByCategoryOverTime([
+      tx({
+        amount: toMoney(100),
+        categoryId: 'supermercado',
+        date: '2026-01-05',
+        splits: [{ categoryId: 'supermercado', amount: toMoney(70) }, { categoryId: 'saude', amount: toMoney(30) }]
+      }),
+      tx({ amount: toMoney(25), categoryId: 'saude', date: '2026-02-05' }),
+      tx({ type: TransactionType.INCOME, amount: toMoney(1000), categoryId: 'salario', date: '2026-01-01' })
+    ], 'month');
+
+    expect(categories).toEqual(['supermercado', 'saude']);
+    expect(rows).toEqual([
+      { period: '2026-01', supermercado: 7000, saude: 3000 },
+      { period: '2026-02', supermercado: 0, saude: 2500 }
+    ]);
+  });
+
+  it('agrupa as categorias fora do limite em Outras', () => {
+    const { categories, rows } = expensesByCategoryOverTime([
+      tx({ amount: toMoney(50), categoryId: 'renda' }),
+      tx({ amount: toMoney(30), categoryId: 'lazer' }),
+      tx({ amount: toMoney(15), categoryId: 'transporte' }),
+      tx({ amount: toMoney(5), categoryId: 'servicos' })
+    ], 'month', 2);
+
+    expect(categories).toEqual(['renda', 'lazer', OTHER_CATEGORIES]);
+    expect(rows[0][OTHER_CATEGORIES]).toBe(2000);
+  });
+});
+
+describe('categoryTrends', () => {
+  it('compara a despesa de cada categoria com o período anterior', () => {
+    const trends = categoryTrends([
+      tx({ amount: toMoney(100), categoryId: 'lazer', date: '2026-01-10' }),
+      tx({ amount: toMoney(150), categoryId: 'lazer', date: '2026-02-10' }),
+      tx({ amount: toMoney(20), categoryId: 'saude', date: '2026-02-11' }),
+      tx({ amount: toMoney(500), categoryId: 'renda', date: '2025-12-01' })
+    ], '2026-02', 'month');
+
+    expect(trends).toEqual([
+      { categoryId: 'lazer', current: 15000, previous: 10000, change: 5000, changePercent: 50 },
+      { categoryId: 'saude', current: 2000, previous: 0, change: 2000, changePercent: null }
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { CategoryTrend, Money, PeriodSummary, ReportGranularity, Transaction, TransactionType } from "../types";
+import { addDays, parseISODate, shiftMonthKey, toMonthKey } from "./dateUtils";
+import { categoryLines } from "./splitService";
+import { sumMoney } from "./moneyService";
+
+export const GRANULARITY_LABELS: Record<ReportGranularity, string> = {
+  week: 'Semanal',
+  month: 'Mensal',
+  year: 'Anual'
+};
+
+export const OTHER_CATEGORIES = 'Outras';
+
+// Semanas identificadas pela segunda-feira (YYYY-MM-DD), meses por YYYY-MM e anos por YYYY
+export const periodKey = (date: string, granularity: ReportGranularity): string => {
+  switch (granularity) {
+    case 'week':
+      return addDays(date, -((parseISODate(date).getUTCDay() + 6) % 7));
+    case 'month':
+      return toMonthKey(date);
+    case 'year':
+      return date.slice(0, 4);
+  }
+};
+
+const nextPeriodKey = (key: string, granularity: ReportGranularity): string => {
+  switch (granularity) {
+    case 'week':
+      return addDays(key, 7);
+    case 'month':
+      return shiftMonthKey(key, 1);
+    case 'year':
+      return String(Number(key) + 1);
+  }
+};
+
+// Todos os períodos entre as duas datas, incluindo os que não têm movimentos
+export const listPeriods = (from: string, to: string, granularity: ReportGranularity): string[] => {
+  const last = periodKey(to, granularity);
+  const periods: string[] = [];
+  for (let key = periodKey(from, granularity); key <= last; key = nextPeriodKey(key, granularity)) {
+    periods.push(key);
+  }
+  return periods;
+};
+
+// As transferências só mudam o dinheiro de conta, por isso ficam fora dos relatórios
+const periodsFor = (transactions: Transaction[], granularity: ReportGranularity): string[] => {
+  const dates = transactions.filter(t => t.type !== TransactionType.TRANSFER).map(t => t.date).sort();
+  return dates.length === 0 ? [] : listPeriods(dates[0], dates[dates.length - 1], granularity);
+};
+
+const ZERO = 0 as Money;
+
+// Soma `amount` ao total guardado em `key`
+const addTo = <K>(totals: Map<K, Money>, key: K, amount: Money) =>
+  totals.set(key, sumMoney([totals.get(key) || ZERO, amount]));
+
+export const aggregateByPeriod = (transactions: Transaction[], granularity: ReportGranularity): PeriodSummary[] => {
+  const income = new Map<string, Money>();
+  const expenses = new Map<string, Money>();
+  transactions.forEach(t => {
+    if (t.type === TransactionType.TRANSFER) return;
+    addTo(t.type === TransactionType.INCOME ? income : expenses, periodKey(t.date, granularity), t.amount);
+  });
+
+  let balance = ZERO;
+  return periodsFor(transactions, granularity).map(period => {
+    const periodIncome = income.get(period) || ZERO;
+    const periodExpenses = expenses.get(period) || ZERO;
+    const net = periodIncome - periodExpenses as Money;
+    balance = sumMoney([balance, net]);
+    return {
+      period,
+      income: periodIncome,
+      expenses: periodExpenses,
+      net,
+      balance,
+      savingsRate: periodIncome > 0 ? (net / periodIncome) * 100 : null
+    };
+  });
+};
+
+// Despesa por categoria e período (Money), para um gráfico de áreas empilhadas, com uma
+// coluna por identificador de categoria. As fora das `limit` maiores são agrupadas em "Outras".
+export const expensesByCategoryOverTime = (
+  transactions: Transaction[],
+  granularity: ReportGranularity,
+  limit: number = 6
+): { categories: string[]; rows: Array<Record<string, number | string>> } => {
+  const expenses = transactions.filter(t => t.type === TransactionType.EXPENSE);
+  const totals = new Map<string, Money>();
+  expenses.flatMap(categoryLines).forEach(l => addTo(totals, l.categoryId, l.amount));
+  const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  const top = new Set(ranked.slice(0, limit));
+  const categories = ranked.length > limit ? [...ranked.slice(0, limit), OTHER_CATEGORIES] : ranked;
+
+  const rows = new Map<string, Record<string, number | string>>();
+  periodsFor(expenses, granularity).forEach(period => {
+    const row: Record<string, number | string> = { period };
+    categories.forEach(c => { row[c] = 0; });
+    rows.set(period, row);
+  });
+  expenses.forEach(t => {
+    const row = rows.get(periodKey(t.date, granularity))!;
+    categoryLines(t).forEach(l => {
+      const category = top.has(l.categoryId) ? l.categoryId : OTHER_CATEGORIES;
+      row[category] = sumMoney([row[category] as Money, l.amount]);
+    });
+  });
+
+  return { categories, rows: Array.from(rows.values()) };
+};
+
+// Variação da despesa por categoria entre o período indicado e o anterior
+export const categoryTrends = (transactions: Transaction[], period: string, granularity: ReportGranularity): CategoryTrend[] => {
+  const previousPeriod = granularity === 'week'
+    ? addDays(period, -7)
+    : granularity === 'month' ? shiftMonthKey(period, -1) : String(Number(period) - 1);
+
+  const current = new Map<string, Money>();
+  const previous = new Map<string, Money>();
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.EXPENSE) return;
+    const key = periodKey(t.date, granularity);
+    const target = key === period ? current : key === previousPeriod ? previous : null;
+    if (target) categoryLines(t).forEach(l => addTo(target, l.categoryId, l.amount));
+  });
+
+  const categoryIds = new Set([...current.keys(), ...previous.keys()]);
+  return Array.from(categoryIds)
+    .map(categoryId => {
+      const cur = current.get(categoryId) || ZERO;
+      const prev = previous.get(categoryId) || ZERO;
+      return {
+        categoryId,
+        current: cur,
+        previous: prev,
+        change: cur - prev as Money,
+        changePercent: prev > 0 ? ((cur - prev) / prev) * 100 : null
+      };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+};
+
+export const formatPeriodLabel = (period: string, granularity: ReportGranularity): string => {
+  if (granularity === 'year') return period;
+  const d = parseISODate(granularity === 'month' ? `${period}-01` : period);
+  return granularity === 'month'
+    ? d.toLocaleDateString('pt-PT', { month: 'short', year: '2-digit', timeZone: 'UTC' })
+    : d.toLocaleDateString('pt-PT', { day: '2-digit', month: 'short', timeZone: 'UTC' });
+};
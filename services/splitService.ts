@@ -0,0 +1,51 @@
+import { Money, Transaction, TransactionSplit } from "../types";
+import { fromMoney, sumMoney } from "./moneyService";
+
+// Linhas por categoria de um movimento: as partes, ou uma só linha se não estiver dividido
+export const categoryLines = (t: Transaction): TransactionSplit[] =>
+  t.splits?.length ? t.splits : [{ categoryId: t.categoryId, amount: t.amount }];
+
+export const transactionCategories = (t: Transaction): string[] =>
+  Array.from(new Set(categoryLines(t).map(l => l.categoryId)));
+
+export const isSplit = (t: Transaction): boolean => (t.splits?.length || 0) > 1;
+
+export const splitsTotal = (splits: TransactionSplit[]): Money =>
+  sumMoney(splits.map(l => l.amount));
+
+// A categoria principal de um movimento dividido é a da maior parte
+export const primaryCategory = (splits: TransactionSplit[]): string =>
+  splits.reduce((best, l) => (l.amount > best.amount ? l : best), splits[0]).categoryId;
+
+export const validateSplits = (total: Money, splits: TransactionSplit[]): string | null => {
+  if (splits.length < 2) return 'Uma divisão precisa de pelo menos duas partes.';
+  if (splits.some(l => !l.categoryId)) return 'Todas as partes precisam de uma categoria.';
+  if (splits.some(l => !(l.amount > 0))) return 'Todas as partes precisam de um valor positivo.';
+  // Comparação ao cêntimo, sem tolerâncias de vírgula flutuante
+  const diff = total - splitsTotal(splits) as Money;
+  if (diff !== 0) {
+    return `As partes somam ${fromMoney(splitsTotal(splits)).toFixed(2)}, mas o total é ${fromMoney(total).toFixed(2)} (diferença de ${fromMoney(diff).toFixed(2)}).`;
+  }
+  return null;
+};
+
+// Para relatórios filtrados por categoria: cada movimento fica só com as partes
+// das categorias escolhidas, e o valor passa a ser a soma dessas partes
+export const narrowToCategories = (transactions: Transaction[], categoryIds: string[]): Transaction[] => {
+  if (categoryIds.length === 0) return transactions;
+  return transactions.flatMap(t => {
+    if (!isSplit(t)) return categoryIds.includes(t.categoryId) ? [t] : [];
+    const lines = t.splits!.filter(l => categoryIds.includes(l.categoryId));
+    if (lines.length === 0) return [];
+    return [{ ...t, amount: splitsTotal(lines), categoryId: primaryCategory(lines), splits: lines }];
+  });
+};
+
+// Etiquetas escritas à mão ("férias-2026, #reembolsável") em minúsculas e sem repetições
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(
+    input
+      .split(/[,;\n]/)
+      .map(tag => tag.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase())
+      .filter(Boolean)
+  ));
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, EncryptedPayload, StorageEnvelope, TransactionType } from '../types';
+import { createEmptyData, loadAppData, migrate, SCHEMA_VERSION, StorageBackend, unwrapEnvelope, wrapEnvelope } from './storageService';
+import { DEFAULT_ACCOUNT_ID, TRANSFER_CATEGORY_ID } from './accountService';
+
+// Backend em memória: `main` é o ficheiro principal e `backups` as cópias, da mais recente para a mais antiga
+const memoryBackend = (main: unknown | null, backups: Record<string, unknown> = {}, legacy: Partial<AppData> | null = null): StorageBackend => {
+  let stored = main;
+  return {
+    read: async () => {
+      if (stored instanceof Error) throw stored;
+      return stored;
+    },
+    write: async (payload: StorageEnvelope | EncryptedPayload) => { stored = payload; },
+    listBackups: async () => Object.keys(backups),
+    readBackup: async name => backups[name],
+    writeBackup: async (name, payload) => { backups[name] = payload; },
+    readLegacy: async () => legacy,
+    clearLegacy: async () => {}
+  };
+};
+
+describe('migrate', () => {
+  it('converte os dados antigos (v0) para a versão atual', () => {
+    const data = migrate({
+      transactions: [{ type: TransactionType.EXPENSE, category: 'Lazer', amount: 12.5, date: '2024-05-01', description: 'Cinema' }],
+      categories: ['Lazer', 'Renda']
+    }, 0);
+
+    expect(data.transactions).toHaveLength(1);
+    expect(data.transactions[0].id).toBeTruthy();
+    expect(data.transactions[0].accountId).toBe(DEFAULT_ACCOUNT_ID);
+    expect(data.transactions[0].amount).toBe(1250);
+    expect(data.categories.map(c => c.name)).toEqual(['Lazer', 'Renda']);
+    expect(data.categories.every(c => c.id && c.color)).toBe(true);
+    expect(data.transactions[0].categoryId).toBe(data.categories[0].id);
+    expect(data.auditLog).toEqual([]);
+    expect(data.filterPresets).toEqual([]);
+    expect(data.goals).toEqual([]);
+    expect(data.members).toEqual([]);
+    expect(data.sync.deviceId).toBeTruthy();
+  });
+
+  it('acrescenta o filtro por membro aos filtros guardados (v9)', () => {
+    const v8 = { ...createEmptyData(), filterPresets: [{ id: 'p', name: 'Lazer', filters: { account: 'all' } }] } as any;
+    delete v8.members;
+    const data = migrate(v8, 8);
+
+    expect(data.members).toEqual([]);
+    expect(data.filterPresets[0].filters.member).toBe('all');
+  });
+
+  it('passa os valores para cêntimos, também no histórico e nos conflitos (v10)', () => {
+    const before = { id: 't', type: TransactionType.EXPENSE, category: 'Lazer', amount: 10, date: '2026-01-01', description: '', accountId: 'default' };
+    const after = { ...before, amount: 12.5, splits: [{ category: 'Lazer', amount: 10 }, { category: 'Saúde', amount: 2.5 }] };
+    const v9 = {
+      ...createEmptyData(),
+      transactions: [after],
+      budgets: [{ category: 'Lazer', limit: 150.5, month: '2026-01', rollover: false }],
+      lowBalanceThreshold: 100,
+      auditLog: [{ id: 'a', timestamp: '2026-01-02T00:00:00.000Z', action: 'Editar', changes: [{ entity: 'transaction', id: 't', before, after }] }],
+      sync: {
+        ...createEmptyData().sync,
+        stamps: {},
+        tombstones: {},
+        conflicts: [{ id: 'c', transactionId: 't', label: '', field: 'amount', kept: 12.5, discarded: 10, keptFrom: 'A', discardedFrom: 'B' }]
+      }
+    } as any;
+    const data = migrate(v9, 9);
+
+    expect(data.transactions[0].amount).toBe(1250);
+    expect(data.transactions[0].splits!.map(l => l.amount)).toEqual([1000, 250]);
+    expect(data.budgets[0].limit).toBe(15050);
+    expect(data.lowBalanceThreshold).toBe(10000);
+    const change = data.auditLog[0].changes[0];
+    expect(change.entity === 'transaction' && [change.before!.amount, change.after!.amount]).toEqual([1000, 1250]);
+    expect(data.sync.conflicts[0]).toMatchObject({ kept: 1250, discarded: 1000 });
+  });
+
+  it('passa as referências a categorias do nome para o identificador (v11)', () => {
+    const stamp = { at: '2026-01-02T00:00:00.000Z', device: 'A' };
+    const lazer = { id: 'l', name: 'Lazer', color: '#000', icon: 'tag' };
+    const comida = { id: 'c', name: 'Comida', color: '#111', icon: 'tag' };
+    const cinema = { id: 't1', type: TransactionType.EXPENSE, category: 'Lazer', amount: 1000, date: '2026-01-01', description: '', accountId: 'default' };
+    const v10 = {
+      ...createEmptyData(),
+      categories: [lazer, comida],
+      transactions: [
+        cinema,
+        { ...cinema, id: 't2', splits: [{ category: 'Lazer', amount: 600 }, { category: 'Ginásio', amount: 400 }] },
+        { ...cinema, id: 't3', type: TransactionType.TRANSFER, category: 'Transferência', toAccountId: 'savings' }
+      ],
+      budgets: [{ category: 'Lazer', limit: 5000, month: '2026-01', rollover: false }],
+      goals: [{ id: 'g', name: 'Jantares', targetAmount: 10000, deadline: '2026-12-31', startDate: '2026-01-01', initialAmount: 0, category: 'Comida' }],
+      filterPresets: [{ id: 'p', name: 'Lazer', filters: { account: 'all', categories: ['Lazer', 'Apagada'] } }],
+      auditLog: [{
+        id: 'a',
+        timestamp: stamp.at,
+        action: 'Categorias',
+        changes: [
+          { entity: 'categories', before: [lazer, { ...comida, name: 'Alimentação' }, { id: 'r', name: 'Restaurantes', color: '#222', icon: 'tag' }], after: [lazer, comida] },
+          { entity: 'transaction', id: 't4', before: { ...cinema, id: 't4', category: 'Restaurantes' }, after: { ...cinema, id: 't4', category: 'Alimentação' } }
+        ]
+      }],
+      sync: {
+        ...createEmptyData().sync,
+        stamps: { t1: { '*': stamp, category: stamp } },
+        tombstones: {},
+        conflicts: [{ id: 'x', transactionId: 't1', label: '', field: 'category', kept: 'Lazer', discarded: 'Comida', keptFrom: 'A', discardedFrom: 'B' }]
+      }
+    } as any;
+    const data = migrate(v10, 10);
+
+    // Usada num movimento sem existir na lista: volta à lista
+    const ginasio = data.categories.find(c => c.name === 'Ginásio')!;
+    expect(data.categories.map(c => c.name)).toEqual(['Lazer', 'Comida', 'Ginásio']);
+    expect(data.transactions.map(t => t.categoryId)).toEqual(['l', 'l', TRANSFER_CATEGORY_ID]);
+    expect(data.transactions[1].splits!.map(l => l.categoryId)).toEqual(['l', ginasio.id]);
+    expect(data.transactions[0]).not.toHaveProperty('category');
+    expect(data.budgets[0].categoryId).toBe('l');
+    expect(data.goals[0].categoryId).toBe('c');
+    expect(data.filterPresets[0].filters.categoryIds).toEqual(['l']);
+    // No histórico os nomes antigos e os das categorias apagadas chegam pelo identificador
+    const change = data.auditLog[0].changes[1];
+    expect(change.entity === 'transaction' && [change.before!.categoryId, change.after!.categoryId]).toEqual(['r', 'c']);
+    expect(data.sync.stamps.transactions.t1).toEqual({ '*': stamp, categoryId: stamp });
+    expect(data.sync.conflicts[0]).toMatchObject({ field: 'categoryId', kept: 'l', discarded: 'c' });
+  });
+
+  it('separa o registo de sincronização por coleção (v12)', () => {
+    const stamp = { at: '2026-01-02T00:00:00.000Z', device: 'A' };
+    const v11 = {
+      ...createEmptyData(),
+      sync: {
+        ...createEmptyData().sync,
+        stamps: { t1: { '*': stamp } },
+        tombstones: { t2: stamp },
+        conflicts: [{ id: 'x', transactionId: 't1', label: '', field: 'amount', kept: 1250, discarded: 1000, keptFrom: 'A', discardedFrom: 'B' }]
+      }
+    } as any;
+    const data = migrate(v11, 11);
+
+    expect(data.sync.stamps).toMatchObject({ transactions: { t1: { '*': stamp } }, categories: {}, accounts: {}, members: {} });
+    expect(data.sync.tombstones.transactions.t2).toMatchObject(stamp);
+    expect(data.sync.tombstones.transactions.t2.known > stamp.at).toBe(true);
+    expect(data.sync.conflicts[0]).toMatchObject({ entity: 'transactions', recordId: 't1' });
+    expect(data.sync.conflicts[0]).not.toHaveProperty('transactionId');
+  });
+
+  it('recusa dados de uma versão mais recente', () => {
+    expect(() => migrate(createEmptyData(), SCHEMA_VERSION + 1)).toThrow(/versão mais recente/);
+  });
+});
+
+describe('unwrapEnvelope', () => {
+  it('devolve os dados de um envelope da versão atual sem alterações', () => {
+    const data = createEmptyData();
+    expect(unwrapEnvelope(wrapEnvelope(data))).toEqual(data);
+  });
+
+  it('rejeita conteúdo que não é um envelope', () => {
+    expect(() => unwrapEnvelope(null)).toThrow('Formato de dados inválido.');
+    expect(() => unwrapEnvelope({ version: 1, data: {} })).toThrow('Formato de dados inválido.');
+  });
+});
+
+describe('loadAppData', () => {
+  it('começa vazio quando não há dados nem formato antigo', async () => {
+    const result = await loadAppData(memoryBackend(null));
+    expect(result.status).toBe('new');
+  });
+
+  it('migra os dados do formato antigo', async () => {
+    const result = await loadAppData(memoryBackend(null, {}, { categories: ['Lazer'] as any }));
+    expect(result.status).toBe('migrated');
+    expect(result.data?.categories.map(c => c.name)).toEqual(['Lazer']);
+  });
+
+  it('recupera a primeira cópia legível quando o ficheiro principal está corrompido', async () => {
+    const good = createEmptyData();
+    const result = await loadAppData(memoryBackend(new Error('JSON inválido'), { b0: { nope: true }, b1: wrapEnvelope(good) }));
+
+    expect(result.status).toBe('recovered');
+    expect(result.data).toEqual(good);
+    expect(result.message).toMatch(/b1/);
+  });
+
+  it('indica quando nada se consegue ler', async () => {
+    const result = await loadAppData(memoryBackend({ nope: true }, { b0: 'x' }));
+    expect(result.status).toBe('corrupted');
+    expect(result.data).toBeNull();
+  });
+});
@@ -0,0 +1,448 @@
+import {
+  Account, AppData, AuditChange, AuditEntry, Budget, CategorizationRule, Category, EncryptedPayload, FilterPreset, LoadResult, Money,
+  RecurringRule, SavingsGoal, StorageEnvelope, Transaction, TransactionSplit, TransactionType
+} from "../types";
+import { DEFAULT_ACCOUNTS, migrateToAccounts, TRANSFER_CATEGORY, TRANSFER_CATEGORY_ID } from "./accountService";
+import { REFERENCE_CURRENCY } from "./currencyService";
+import { categoriesFromNames, createCategory } from "./categoryService";
+import { decryptJson, encryptJson, isEncryptedPayload, VaultKey } from "./cryptoService";
+import { DEFAULT_AI_SETTINGS } from "./insightService";
+import { createSyncState } from "./syncService";
+import { toMoney } from "./moneyService";
+
+export const SCHEMA_VERSION = 12;
+export const DATA_FILE = 'fintrack-data.json';
+export const BACKUP_COUNT = 5;
+
+const DATA_KEY = 'fintrack_data';
+const BACKUP_KEY_PREFIX = 'fintrack_data_backup_';
+const LEGACY_KEYS = [
+  'fintrack_transactions', 'fintrack_categories', 'fintrack_budgets', 'fintrack_recurring_rules', 'fintrack_import_profiles',
+  'fintrack_categorization_rules', 'fintrack_accounts', 'fintrack_exchange_rates', 'fintrack_base_currency'
+];
+const LEGACY_FILES = ['incomes.json', 'expenses.json', 'transfers.json'];
+
+export const DEFAULT_CATEGORY_NAMES = ['Salário', 'Supermercado', 'Renda', 'Lazer', 'Transporte', 'Serviços', 'Saúde', 'Outros'];
+
+// As categorias iniciais têm identificadores fixos (a partir do nome), para que dois
+// dispositivos começados do zero não as dupliquem ao sincronizar
+export const createDefaultCategories = (): Category[] =>
+  categoriesFromNames(DEFAULT_CATEGORY_NAMES).map(c => ({
+    ...c,
+    id: `default-${c.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()}`
+  }));
+
+export const createEmptyData = (): AppData => ({
+  transactions: [],
+  categories: createDefaultCategories(),
+  budgets: [],
+  recurringRules: [],
+  importProfiles: [],
+  categorizationRules: [],
+  accounts: DEFAULT_ACCOUNTS,
+  exchangeRates: [],
+  baseCurrency: REFERENCE_CURRENCY,
+  auditLog: [],
+  filterPresets: [],
+  goals: [],
+  aiSettings: DEFAULT_AI_SETTINGS,
+  lowBalanceThreshold: 0 as Money,
+  sync: createSyncState(),
+  members: []
+});
+
+// Onde os dados são guardados: localStorage no browser, ficheiros via IPC no desktop.
+// `read` devolve null se ainda não houver dados e lança erro se estiverem ilegíveis.
+export interface StorageBackend {
+  read: () => Promise<unknown | null>;
+  write: (payload: StorageEnvelope | EncryptedPayload) => Promise<void>;
+  listBackups: () => Promise<string[]>;
+  readBackup: (name: string) => Promise<unknown>;
+  // Substitui uma cópia existente sem rodar as restantes (usado ao mudar a cifra)
+  writeBackup: (name: string, payload: StorageEnvelope | EncryptedPayload) => Promise<void>;
+  readLegacy: () => Promise<Partial<AppData> | null>;
+  clearLegacy: () => Promise<void>;
+}
+
+// Conversão dos valores em unidades (até à v9) para cêntimos
+const optionalToMoney = <T extends number | null | undefined>(value: T) =>
+  (typeof value === 'number' ? toMoney(value) : value) as T extends number ? Money : T;
+
+const transactionToMoney = (t: Transaction): Transaction => ({
+  ...t,
+  amount: toMoney(t.amount),
+  ...(t.splits && { splits: t.splits.map(l => ({ ...l, amount: toMoney(l.amount) })) })
+});
+
+// Nos conflitos o valor depende do campo: '*' guarda o movimento inteiro (ou null)
+const conflictValueToMoney = (field: string, value: unknown): unknown => {
+  if (field === 'amount' && typeof value === 'number') return toMoney(value);
+  if (field === 'splits' && Array.isArray(value)) return value.map((l: TransactionSplit) => ({ ...l, amount: toMoney(l.amount) }));
+  if (field === '*' && value) return transactionToMoney(value as Transaction);
+  return value;
+};
+
+const LIST_TO_MONEY = {
+  accounts: (a: Account): Account => ({ ...a, openingBalance: toMoney(a.openingBalance) }),
+  budgets: (b: Budget): Budget => ({ ...b, limit: toMoney(b.limit) }),
+  recurringRules: (r: RecurringRule): RecurringRule => ({ ...r, amount: toMoney(r.amount) }),
+  categorizationRules: (r: CategorizationRule): CategorizationRule => ({
+    ...r,
+    minAmount: optionalToMoney(r.minAmount),
+    maxAmount: optionalToMoney(r.maxAmount)
+  }),
+  goals: (g: SavingsGoal): SavingsGoal => ({ ...g, targetAmount: toMoney(g.targetAmount), initialAmount: toMoney(g.initialAmount) }),
+  filterPresets: (p: FilterPreset): FilterPreset => ({
+    ...p,
+    filters: { ...p.filters, minAmount: optionalToMoney(p.filters.minAmount), maxAmount: optionalToMoney(p.filters.maxAmount) }
+  })
+};
+
+const changeToMoney = (c: AuditChange): AuditChange => {
+  if (c.entity === 'transaction') {
+    return { ...c, before: c.before && transactionToMoney(c.before), after: c.after && transactionToMoney(c.after) };
+  }
+  if (c.entity === 'categories') return c;
+  const convert = LIST_TO_MONEY[c.entity] as (item: unknown) => unknown;
+  return { ...c, before: c.before.map(convert), after: c.after.map(convert) } as AuditChange;
+};
+
+// Até à v10 as referências a categorias eram nomes. Os nomes das categorias apagadas vêm
+// do histórico; se ainda estiverem em uso voltam à lista, se só aparecerem no histórico não.
+const categoryIdsFromNames = (data: any): AppData => {
+  const categories: Category[] = [...data.categories];
+  const known = new Map<string, Category>(categories.map(c => [c.name, c]));
+  const ids = new Map<string, string>([[TRANSFER_CATEGORY, TRANSFER_CATEGORY_ID]]);
+  categories.forEach(c => ids.set(c.name, c.id));
+  data.auditLog.forEach((entry: any) => entry.changes.forEach((c: any) => {
+    if (c.entity === 'categories') [...c.before, ...c.after].forEach((old: Category) => { if (!known.has(old.name)) known.set(old.name, old); });
+  }));
+
+  const historyId = (name: string): string => {
+    if (!name) return '';
+    if (!ids.has(name)) ids.set(name, known.get(name)?.id || createCategory(name, 0).id);
+    return ids.get(name)!;
+  };
+  const liveId = (name: string): string => {
+    const id = historyId(name);
+    if (id && id !== TRANSFER_CATEGORY_ID && !categories.some(c => c.id === id)) {
+      categories.push({ ...createCategory(name, categories.length), ...known.get(name), id });
+    }
+    return id;
+  };
+
+  const convertTransaction = ({ category, splits, ...t }: any, id: (name: string) => string): Transaction => ({
+    ...t,
+    categoryId: t.type === TransactionType.TRANSFER ? TRANSFER_CATEGORY_ID : id(category),
+    ...(splits && { splits: splits.map(({ category, ...l }: any): TransactionSplit => ({ ...l, categoryId: id(category) })) })
+  });
+  const convertItem = ({ category, ...item }: any, id: (name: string) => string) =>
+    category === undefined ? item : { ...item, categoryId: id(category) };
+  // Nos filtros, os nomes que já não existem caem
+  const convertPreset = ({ filters: { categories: names = [], ...filters }, ...preset }: any): FilterPreset => ({
+    ...preset,
+    filters: { ...filters, categoryIds: names.filter((name: string) => ids.has(name)).map((name: string) => ids.get(name)!) }
+  });
+  const convertChange = (c: any): AuditChange => {
+    switch (c.entity) {
+      case 'categories': return c;
+      case 'transaction':
+        return { ...c, before: c.before && convertTransaction(c.before, historyId), after: c.after && convertTransaction(c.after, historyId) };
+      case 'filterPresets': return { ...c, before: c.before.map(convertPreset), after: c.after.map(convertPreset) };
+      default: return { ...c, before: c.before.map((i: any) => convertItem(i, historyId)), after: c.after.map((i: any) => convertItem(i, historyId)) };
+    }
+  };
+  const convertConflictValue = (field: string, value: any): unknown => {
+    if (field === 'category' && typeof value === 'string') return historyId(value);
+    if (field === 'splits' && Array.isArray(value)) return value.map(l => convertItem(l, historyId));
+    if (field === '*' && value) return convertTransaction(value, historyId);
+    return value;
+  };
+  const renameField = (field: string) => (field === 'category' ? 'categoryId' : field);
+
+  const transactions = data.transactions.map((t: any) => convertTransaction(t, liveId));
+  const budgets = data.budgets.map((b: any) => convertItem(b, liveId));
+  const recurringRules = data.recurringRules.map((r: any) => convertItem(r, liveId));
+  const categorizationRules = data.categorizationRules.map((r: any) => convertItem(r, liveId));
+  const goals = data.goals.map((g: any) => convertItem(g, liveId));
+  return {
+    ...data,
+    categories,
+    transactions,
+    budgets,
+    recurringRules,
+    categorizationRules,
+    goals,
+    filterPresets: data.filterPresets.map(convertPreset),
+    auditLog: data.auditLog.map((entry: AuditEntry) => ({ ...entry, changes: entry.changes.map(convertChange) })),
+    sync: {
+      ...data.sync,
+      stamps: Object.fromEntries(Object.entries(data.sync.stamps).map(([id, fields]: [string, any]) => [
+        id,
+        Object.fromEntries(Object.entries(fields).map(([field, stamp]) => [renameField(field), stamp]))
+      ])),
+      conflicts: data.sync.conflicts.map((c: any) => ({
+        ...c,
+        field: renameField(c.field),
+        kept: convertConflictValue(c.field, c.kept),
+        discarded: convertConflictValue(c.field, c.discarded)
+      }))
+    }
+  };
+};
+
+// Até à v11 só os movimentos se sincronizavam e o registo não indicava a coleção. As remoções
+// contam como chegadas agora, para só serem esquecidas depois das próximas exportações completas
+const syncByEntity = (data: any): AppData => {
+  const known = new Date().toISOString();
+  const { stamps, tombstones } = createSyncState();
+  return {
+    ...data,
+    sync: {
+      ...data.sync,
+      stamps: { ...stamps, transactions: data.sync.stamps },
+      tombstones: {
+        ...tombstones,
+        transactions: Object.fromEntries(Object.entries(data.sync.tombstones).map(([id, stamp]: [string, any]) => [id, { ...stamp, known }]))
+      },
+      conflicts: data.sync.conflicts.map(({ transactionId, ...c }: any) => ({ ...c, entity: 'transactions', recordId: transactionId }))
+    }
+  };
+};
+
+// Migrações: a função na posição N converte dados da versão N para N + 1.
+// A versão 0 corresponde ao formato antigo, com cada coleção guardada à parte.
+const MIGRATIONS: Array<(data: any) => any> = [
+  (legacy: Partial<AppData>) => {
+    const empty = createEmptyData();
+    return {
+      ...empty,
+      ...legacy,
+      transactions: migrateToAccounts((legacy.transactions || []).map(t => ({ ...t, id: t.id || Math.random().toString(36).substr(2, 9) }))),
+      categories: legacy.categories?.length ? legacy.categories : DEFAULT_CATEGORY_NAMES,
+      accounts: legacy.accounts?.length ? legacy.accounts : empty.accounts
+    };
+  },
+  // v2: histórico de alterações guardado com os dados
+  (data: AppData) => ({ ...data, auditLog: data.auditLog || [] }),
+  // v3: filtros guardados do histórico
+  (data: AppData) => ({ ...data, filterPresets: data.filterPresets || [] }),
+  // v4: categorias com identificador, cor, ícone e pai (antes eram só nomes)
+  (data: Omit<AppData, 'categories'> & { categories: string[] }) => {
+    const categories = categoriesFromNames(data.categories);
+    const toEntities = (names: string[]): Category[] =>
+      names.map((name, i) => categories.find(c => c.name === name) || createCategory(name, i));
+    const auditLog: AuditEntry[] = data.auditLog.map(entry => ({
+      ...entry,
+      changes: entry.changes.map((c: any) => c.entity === 'categories' ? { ...c, before: toEntities(c.before), after: toEntities(c.after) } : c)
+    }));
+    return { ...data, categories, auditLog };
+  },
+  // v5: objetivos de poupança
+  (data: AppData) => ({ ...data, goals: data.goals || [] }),
+  // v6: fornecedor de IA escolhido nas definições (antes vinha de variáveis de ambiente)
+  (data: AppData) => ({ ...data, aiSettings: data.aiSettings || DEFAULT_AI_SETTINGS }),
+  // v7: limite do alerta de saldo baixo da previsão
+  (data: AppData) => ({ ...data, lowBalanceThreshold: data.lowBalanceThreshold ?? 0 }),
+  // v8: identificação do dispositivo e registo de alterações para sincronizar
+  (data: AppData) => ({ ...data, sync: data.sync || createSyncState() }),
+  // v9: membros do agregado; os filtros guardados ganham o filtro por membro
+  (data: AppData) => ({
+    ...data,
+    members: data.members || [],
+    filterPresets: data.filterPresets.map(p => ({ ...p, filters: { ...p.filters, member: p.filters.member ?? 'all' } }))
+  }),
+  // v10: valores guardados em cêntimos inteiros, também no histórico e nos conflitos por resolver
+  (data: AppData) => ({
+    ...data,
+    transactions: data.transactions.map(transactionToMoney),
+    accounts: data.accounts.map(LIST_TO_MONEY.accounts),
+    budgets: data.budgets.map(LIST_TO_MONEY.budgets),
+    recurringRules: data.recurringRules.map(LIST_TO_MONEY.recurringRules),
+    categorizationRules: data.categorizationRules.map(LIST_TO_MONEY.categorizationRules),
+    goals: data.goals.map(LIST_TO_MONEY.goals),
+    filterPresets: data.filterPresets.map(LIST_TO_MONEY.filterPresets),
+    lowBalanceThreshold: toMoney(data.lowBalanceThreshold),
+    auditLog: data.auditLog.map(entry => ({ ...entry, changes: entry.changes.map(changeToMoney) })),
+    sync: {
+      ...data.sync,
+      conflicts: data.sync.conflicts.map(c => ({
+        ...c,
+        kept: conflictValueToMoney(c.field, c.kept),
+        discarded: conflictValueToMoney(c.field, c.discarded)
+      }))
+    }
+  }),
+  // v11: categorias referidas pelo identificador, para que mudar o nome não reescreva os dados
+  categoryIdsFromNames,
+  // v12: categorias, contas, regras e membros também se sincronizam
+  syncByEntity
+];
+
+export const migrate = (data: unknown, fromVersion: number): AppData => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Os dados foram gravados por uma versão mais recente da aplicação (v${fromVersion}).`);
+  }
+  return MIGRATIONS.slice(fromVersion).reduce((d, step) => step(d), data) as AppData;
+};
+
+export const wrapEnvelope = (data: AppData): StorageEnvelope => ({
+  version: SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  data
+});
+
+export const unwrapEnvelope = (raw: unknown): AppData => {
+  const envelope = raw as StorageEnvelope;
+  if (!envelope || typeof envelope !== 'object' || typeof envelope.version !== 'number' || !envelope.data || !Array.isArray(envelope.data.transactions)) {
+    throw new Error('Formato de dados inválido.');
+  }
+  return migrate(envelope.data, envelope.version);
+};
+
+const describeError = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+// Sem chave, os dados cifrados não são lidos: quem chama tem de pedir a frase-passe
+const readPayload = async (raw: unknown, vault: VaultKey | null): Promise<AppData | EncryptedPayload> => {
+  if (!isEncryptedPayload(raw)) return unwrapEnvelope(raw);
+  if (!vault) return raw;
+  return unwrapEnvelope(await decryptJson(raw, vault));
+};
+
+export const loadAppData = async (backend: StorageBackend, vault: VaultKey | null = null): Promise<LoadResult> => {
+  let mainError: string;
+  try {
+    const raw = await backend.read();
+    if (raw === null) {
+      const legacy = await backend.readLegacy();
+      return legacy
+        ? { status: 'migrated', data: migrate(legacy, 0) }
+        : { status: 'new', data: createEmptyData() };
+    }
+    const data = await readPayload(raw, vault);
+    return isEncryptedPayload(data) ? { status: 'locked', data: null, locked: data } : { status: 'ok', data };
+  } catch (error) {
+    console.error("Erro ao ler os dados:", error);
+    mainError = describeError(error);
+  }
+
+  // Ficheiro principal ilegível: tenta as cópias, da mais recente para a mais antiga
+  for (const name of await backend.listBackups().catch(() => [] as string[])) {
+    try {
+      const data = await readPayload(await backend.readBackup(name), vault);
+      if (isEncryptedPayload(data)) return { status: 'locked', data: null, locked: data };
+      return { status: 'recovered', data, message: `Os dados estavam corrompidos (${mainError}). Foi restaurada a cópia de segurança ${name}.` };
+    } catch (error) {
+      console.error(`Cópia ${name} ilegível:`, error);
+    }
+  }
+  return { status: 'corrupted', data: null, message: `Não foi possível ler os dados (${mainError}) nem nenhuma cópia de segurança.` };
+};
+
+export const saveAppData = async (backend: StorageBackend, data: AppData, vault: VaultKey | null = null): Promise<void> => {
+  const envelope = wrapEnvelope(data);
+  await backend.write(vault ? await encryptJson(envelope, vault) : envelope);
+};
+
+// Ao ativar, desativar ou mudar a frase-passe, as cópias de segurança passam a usar
+// a nova chave (ou ficam em claro). Cópias que não se consigam decifrar ficam como estão.
+export const reencryptBackups = async (backend: StorageBackend, from: VaultKey | null, to: VaultKey | null): Promise<number> => {
+  let skipped = 0;
+  for (const name of await backend.listBackups()) {
+    try {
+      const raw = await backend.readBackup(name);
+      const envelope = isEncryptedPayload(raw) ? await decryptJson(raw, from!) : raw;
+      await backend.writeBackup(name, to ? await encryptJson(envelope, to) : envelope as StorageEnvelope);
+    } catch (error) {
+      console.error(`Cópia ${name} não foi convertida:`, error);
+      skipped++;
+    }
+  }
+  // Os dados antigos em claro deixam de ser necessários depois da migração
+  if (to) await backend.clearLegacy();
+  return skipped;
+};
+
+const parseItem = (key: string): any => {
+  const item = localStorage.getItem(key);
+  return item === null ? undefined : JSON.parse(item);
+};
+
+// Chaves usadas antes do envelope versionado
+const readLegacyLocalStorage = (): Partial<AppData> => ({
+  transactions: parseItem('fintrack_transactions'),
+  categories: parseItem('fintrack_categories'),
+  budgets: parseItem('fintrack_budgets'),
+  recurringRules: parseItem('fintrack_recurring_rules'),
+  importProfiles: parseItem('fintrack_import_profiles'),
+  categorizationRules: parseItem('fintrack_categorization_rules'),
+  accounts: parseItem('fintrack_accounts'),
+  exchangeRates: parseItem('fintrack_exchange_rates'),
+  baseCurrency: localStorage.getItem('fintrack_base_currency') || undefined
+});
+
+const hasAnyValue = (data: Partial<AppData>): boolean => Object.values(data).some(v => v !== undefined);
+
+const withoutUndefined = (data: Partial<AppData>): Partial<AppData> =>
+  Object.fromEntries(Object.entries(data).filter(([_, v]) => v !== undefined));
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  read: async () => {
+    const text = localStorage.getItem(DATA_KEY);
+    return text === null ? null : JSON.parse(text);
+  },
+  write: async (envelope) => {
+    // Desloca as cópias (0 é a mais recente) antes de substituir os dados
+    const current = localStorage.getItem(DATA_KEY);
+    if (current !== null) {
+      for (let i = BACKUP_COUNT - 1; i > 0; i--) {
+        const previous = localStorage.getItem(BACKUP_KEY_PREFIX + (i - 1));
+        if (previous !== null) localStorage.setItem(BACKUP_KEY_PREFIX + i, previous);
+      }
+      localStorage.setItem(BACKUP_KEY_PREFIX + 0, current);
+    }
+    localStorage.setItem(DATA_KEY, JSON.stringify(envelope));
+  },
+  listBackups: async () =>
+    Array.from({ length: BACKUP_COUNT }, (_, i) => BACKUP_KEY_PREFIX + i).filter(key => localStorage.getItem(key) !== null),
+  readBackup: async (name) => JSON.parse(localStorage.getItem(name) || 'null'),
+  writeBackup: async (name, payload) => localStorage.setItem(name, JSON.stringify(payload)),
+  readLegacy: async () => {
+    const legacy = readLegacyLocalStorage();
+    return hasAnyValue(legacy) ? withoutUndefined(legacy) : null;
+  },
+  clearLegacy: async () => LEGACY_KEYS.forEach(key => localStorage.removeItem(key))
+});
+
+export const createElectronBackend = (api: any): StorageBackend => ({
+  read: () => api.readJson(DATA_FILE),
+  write: async (envelope) => {
+    const result = await api.writeJson(DATA_FILE, envelope);
+    if (!result?.success) throw new Error(result?.error || 'Erro ao gravar os dados.');
+  },
+  listBackups: () => api.listBackups(DATA_FILE),
+  readBackup: (name) => api.readBackup(name),
+  writeBackup: async (name, payload) => {
+    const result = await api.writeBackup(name, payload);
+    if (!result?.success) throw new Error(result?.error || 'Erro ao gravar a cópia de segurança.');
+  },
+  clearLegacy: async () => {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    await Promise.all(LEGACY_FILES.map(f => api.deleteJson(f)));
+  },
+  readLegacy: async () => {
+    // No desktop os movimentos estavam em ficheiros por tipo e o resto no localStorage
+    const [incomes, expenses, transfers] = await Promise.all(
+      LEGACY_FILES.map(f => api.readJson(f))
+    );
+    const withType = (list: unknown, type: TransactionType) =>
+      (Array.isArray(list) ? list : []).map((t: any) => ({ ...t, type }));
+    const transactions = [
+      ...withType(incomes, TransactionType.INCOME),
+      ...withType(expenses, TransactionType.EXPENSE),
+      ...withType(transfers, TransactionType.TRANSFER)
+    ];
+    const legacy = { ...readLegacyLocalStorage(), transactions: transactions.length > 0 ? transactions : undefined };
+    return hasAnyValue(legacy) ? withoutUndefined(legacy) : null;
+  }
+});
@@ -0,0 +1,139 @@
+import { Money, Subscription, SubscriptionCadence, SubscriptionFlag, Transaction, TransactionType } from "../types";
+import { addMonths, diffInDays, parseISODate, todayISO } from "./dateUtils";
+import { normalizeDescription } from "./duplicateService";
+import { median } from "./forecastService";
+import { fromMoney, scaleMoney, sumMoney } from "./moneyService";
+
+export const SUBSCRIPTION_TAG = 'subscrição';
+
+export const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  monthly: 'Mensal',
+  yearly: 'Anual'
+};
+
+export const FLAG_LABELS: Record<SubscriptionFlag, string> = {
+  'price-increase': 'Preço subiu',
+  doubled: 'Cobrado 2x',
+  stopped: 'Parou'
+};
+
+// Valores até 35% acima do menor contam como o mesmo serviço (aumentos de preço);
+// acima disso é outro serviço do mesmo comerciante
+const AMOUNT_SPREAD = 1.35;
+
+const RECENT_CHANGE_CHARGES = 3;
+
+// Cobranças a menos de uma semana umas das outras pertencem ao mesmo ciclo
+const SAME_CYCLE_DAYS = 7;
+
+interface CadenceSpec {
+  cadence: SubscriptionCadence;
+  min: number;
+  max: number;
+  months: number;
+  minCycles: number;
+}
+
+const CADENCES: CadenceSpec[] = [
+  { cadence: 'monthly', min: 26, max: 35, months: 1, minCycles: 3 },
+  { cadence: 'yearly', min: 350, max: 380, months: 12, minCycles: 2 }
+];
+
+const clusterByAmount = (group: Transaction[]): Transaction[][] => {
+  const clusters: Transaction[][] = [];
+  [...group].sort((a, b) => a.amount - b.amount).forEach(t => {
+    const current = clusters[clusters.length - 1];
+    if (current && t.amount <= current[0].amount * AMOUNT_SPREAD) current.push(t);
+    else clusters.push([t]);
+  });
+  return clusters;
+};
+
+const toCycles = (charges: Transaction[]): Transaction[][] => {
+  const cycles: Transaction[][] = [];
+  charges.forEach(t => {
+    const current = cycles[cycles.length - 1];
+    if (current && diffInDays(current[0].date, t.date) < SAME_CYCLE_DAYS) current.push(t);
+    else cycles.push([t]);
+  });
+  return cycles;
+};
+
+const detect = (charges: Transaction[], key: string, today: string): Subscription | null => {
+  charges.sort((a, b) => a.date.localeCompare(b.date));
+  const cycles = toCycles(charges);
+  const intervals = cycles.slice(1).map((c, i) => diffInDays(cycles[i][0].date, c[0].date));
+  if (intervals.length === 0) return null;
+  const typical = median(intervals);
+  const spec = CADENCES.find(c => typical >= c.min && typical <= c.max);
+  if (!spec || cycles.length < spec.minCycles) return null;
+  if (intervals.filter(i => i >= spec.min && i <= spec.max).length / intervals.length < 0.75) return null;
+
+  const last = charges[charges.length - 1];
+  const flags: SubscriptionFlag[] = [];
+  const changed = [...charges].reverse().find(t => t.amount !== last.amount);
+  // O aumento fica assinalado nas primeiras cobranças ao novo preço
+  if (changed && last.amount > changed.amount && charges.length - 1 - charges.indexOf(changed) <= RECENT_CHANGE_CHARGES) flags.push('price-increase');
+  if (cycles[cycles.length - 1].length > 1) flags.push('doubled');
+  // Sem cobrança meio ciclo depois da data esperada
+  const expected = addMonths(cycles[cycles.length - 1][0].date, spec.months, parseISODate(cycles[cycles.length - 1][0].date).getUTCDate());
+  const stopped = diffInDays(expected, today) > spec.max / 2;
+  if (stopped) flags.push('stopped');
+
+  return {
+    key,
+    description: last.description,
+    categoryId: last.categoryId,
+    cadence: spec.cadence,
+    amount: last.amount,
+    previousAmount: changed ? changed.amount : null,
+    yearlyCost: stopped ? 0 as Money : scaleMoney(last.amount, 12 / spec.months),
+    firstDate: charges[0].date,
+    lastDate: last.date,
+    nextDate: stopped ? null : expected,
+    occurrences: charges.length,
+    transactionIds: charges.map(t => t.id),
+    flags
+  };
+};
+
+// Agrupa as saídas por descrição normalizada e valor e procura cobranças mensais ou anuais;
+// os valores têm de vir na mesma moeda
+export const detectSubscriptions = (transactions: Transaction[], today: string = todayISO()): Subscription[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions
+    .filter(t => t.type === TransactionType.EXPENSE && t.date <= today && normalizeDescription(t.description))
+    .forEach(t => {
+      const key = normalizeDescription(t.description);
+      groups.set(key, [...(groups.get(key) || []), t]);
+    });
+
+  const found: Subscription[] = [];
+  groups.forEach((group, description) => {
+    clusterByAmount(group).forEach(cluster => {
+      const subscription = detect(cluster, `${description}|${Math.round(fromMoney(cluster[0].amount))}`, today);
+      if (subscription) found.push(subscription);
+    });
+  });
+  return found.sort((a, b) => b.yearlyCost - a.yearlyCost || b.lastDate.localeCompare(a.lastDate));
+};
+
+export const totalYearlyCost = (subscriptions: Subscription[]): Money =>
+  sumMoney(subscriptions.map(sub => sub.yearlyCost));
+
+// Pesquisa do histórico pela palavra mais distintiva, já que as referências variam entre cobranças
+export const subscriptionQuery = (subscription: Subscription): string => {
+  const keyword = normalizeDescription(subscription.description).split(' ').sort((a, b) => b.length - a.length)[0];
+  return `"${keyword}" tipo:saida`;
+};
+
+export const tagSubscription = (transactions: Transaction[], subscription: Subscription): Transaction[] => {
+  const ids = new Set(subscription.transactionIds);
+  return transactions.map(t => ids.has(t.id) && !t.tags?.includes(SUBSCRIPTION_TAG) ? { ...t, tags: [...(t.tags || []), SUBSCRIPTION_TAG] } : t);
+};
+
+// Os movimentos divididos à mão mantêm as suas categorias
+export const categorizeSubscription = (transactions: Transaction[], subscription: Subscription, categoryId: string): Transaction[] => {
+  const ids = new Set(subscription.transactionIds);
+  return transactions.map(t => ids.has(t.id) && !t.splits?.length && t.categoryId !== categoryId ? { ...t, categoryId } : t);
+};
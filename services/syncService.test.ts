@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import { Account, AuditChange, Category, RecurrenceFrequency, RecurringRule, SyncedData, SyncState, Transaction, TransactionType } from '../types';
+import { toMoney } from './moneyService';
+import { materializeRecurringRules } from './recurringService';
+import { createEmptyData } from './storageService';
+import { buildChangeset, createSyncState, isChangeset, mergeChangeset, recordChanges, resolveConflict } from './syncService';
+
+const tx = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 't1',
+  type: TransactionType.EXPENSE,
+  categoryId: 'lazer',
+  amount: toMoney(10),
+  date: '2026-01-15',
+  description: 'Cinema',
+  accountId: 'default',
+  ...overrides
+});
+
+const data = (transactions: Transaction[], rest: Partial<SyncedData> = {}): SyncedData =>
+  ({ transactions, categories: [], accounts: [], recurringRules: [], categorizationRules: [], members: [], ...rest });
+
+const change = (before: Transaction | null, after: Transaction | null): AuditChange =>
+  ({ entity: 'transaction', id: (after || before)!.id, before, after });
+
+// Dois dispositivos com o mesmo movimento, já sincronizados em `syncedAt`
+const pair = (syncedAt = '2026-01-01T10:00:00.000Z') => {
+  const a = recordChanges(createSyncState('A'), [change(null, tx())], '2026-01-01T09:00:00.000Z');
+  const b: SyncState = {
+    ...createSyncState('B'),
+    stamps: a.stamps,
+    peers: { [a.deviceId]: { name: 'A', lastSeen: syncedAt } }
+  };
+  return { a: { ...a, peers: { [b.deviceId]: { name: 'B', lastSeen: syncedAt } } }, b };
+};
+
+describe('mergeChangeset', () => {
+  it('acrescenta os movimentos novos do outro dispositivo', () => {
+    const remote = recordChanges(createSyncState('B'), [change(null, tx({ id: 'novo' }))], '2026-01-02T00:00:00.000Z');
+    const result = mergeChangeset(data([]), createSyncState('A'), buildChangeset(data([tx({ id: 'novo' })]), remote, null));
+
+    expect(result.added).toBe(1);
+    expect(result.data.transactions.map(t => t.id)).toEqual(['novo']);
+    expect(result.state.peers[remote.deviceId].name).toBe('B');
+  });
+
+  it('ignora os seus próprios ficheiros', () => {
+    const state = createSyncState('A');
+    const result = mergeChangeset(data([tx()]), state, buildChangeset(data([tx({ amount: toMoney(99) })]), state, null));
+    expect(result.data.transactions).toEqual([tx()]);
+  });
+
+  it('junta campo a campo, ficando o valor mais recente de cada um', () => {
+    const { a, b } = pair();
+    const localState = recordChanges(a, [change(tx(), tx({ amount: toMoney(12) }))], '2026-01-02T00:00:00.000Z');
+    const remoteState = recordChanges(b, [change(tx(), tx({ description: 'Teatro' }))], '2026-01-03T00:00:00.000Z');
+    const result = mergeChangeset(data([tx({ amount: toMoney(12) })]), localState, buildChangeset(data([tx({ description: 'Teatro' })]), remoteState, null));
+
+    expect(result.data.transactions).toEqual([tx({ amount: toMoney(12), description: 'Teatro' })]);
+    expect(result.updated).toBe(1);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('regista um conflito quando os dois lados mudam o mesmo campo', () => {
+    const { a, b } = pair();
+    const localState = recordChanges(a, [change(tx(), tx({ amount: toMoney(12) }))], '2026-01-02T00:00:00.000Z');
+    const remoteState = recordChanges(b, [change(tx(), tx({ amount: toMoney(15) }))], '2026-01-03T00:00:00.000Z');
+    const result = mergeChangeset(data([tx({ amount: toMoney(12) })]), localState, buildChangeset(data([tx({ amount: toMoney(15) })]), remoteState, null));
+
+    expect(result.data.transactions[0].amount).toBe(toMoney(15));
+    expect(result.conflicts).toEqual([expect.objectContaining({ field: 'amount', kept: toMoney(15), discarded: toMoney(12), keptFrom: 'B', discardedFrom: 'A' })]);
+    expect(resolveConflict(result.data, result.conflicts[0]).transactions![0].amount).toBe(toMoney(12));
+  });
+
+  it('apaga quando a remoção é mais recente do que a última alteração local', () => {
+    const { a, b } = pair();
+    const remoteState = recordChanges(b, [change(tx(), null)], '2026-01-03T00:00:00.000Z');
+    const result = mergeChangeset(data([tx()]), a, buildChangeset(data([]), remoteState, null));
+
+    expect(result.deleted).toBe(1);
+    expect(result.data.transactions).toEqual([]);
+    const { at, device } = remoteState.tombstones.transactions.t1;
+    expect(result.state.tombstones.transactions.t1).toMatchObject({ at, device });
+  });
+
+  it('não ressuscita movimentos apagados aqui com dados mais antigos', () => {
+    const { a, b } = pair();
+    const localState = recordChanges(a, [change(tx(), null)], '2026-01-03T00:00:00.000Z');
+    const result = mergeChangeset(data([]), localState, buildChangeset(data([tx()]), b, null));
+
+    expect(result.added).toBe(0);
+    expect(result.data.transactions).toEqual([]);
+  });
+
+  it('só envia o que mudou depois da última exportação', () => {
+    const state = recordChanges(
+      recordChanges(createSyncState('A'), [change(null, tx())], '2026-01-01T00:00:00.000Z'),
+      [change(null, tx({ id: 't2' }))],
+      '2026-01-05T00:00:00.000Z'
+    );
+    const changeset = buildChangeset(data([tx(), tx({ id: 't2' })]), state, '2026-01-02T00:00:00.000Z');
+    expect(changeset.records.map(r => r.id)).toEqual(['t2']);
+  });
+
+  it('junta também categorias, contas, regras e membros', () => {
+    const { a, b } = pair();
+    const conta: Account = { id: 'acc', name: 'Conta', kind: 'checking', openingBalance: toMoney(100), currency: 'EUR' };
+    const cultura: Category = { id: 'cultura', name: 'Cultura', color: '#111', icon: 'tag' };
+    const remoteState = recordChanges(b, [
+      { entity: 'categories', before: [], after: [cultura] },
+      { entity: 'accounts', before: [conta], after: [{ ...conta, name: 'Conta à ordem' }] }
+    ], '2026-01-03T00:00:00.000Z');
+    const remote = data([tx()], { categories: [cultura], accounts: [{ ...conta, name: 'Conta à ordem' }] });
+    const result = mergeChangeset(data([tx()], { accounts: [conta] }), a, buildChangeset(remote, remoteState, null));
+
+    expect(result.data.categories).toEqual([cultura]);
+    expect(result.data.accounts).toEqual([{ ...conta, name: 'Conta à ordem' }]);
+    expect(result.added).toBe(1);
+    expect(result.updated).toBe(1);
+  });
+
+  it('não duplica as ocorrências recorrentes geradas nos dois dispositivos', () => {
+    const renda: RecurringRule = {
+      id: 'renda', type: TransactionType.EXPENSE, categoryId: 'casa', amount: toMoney(700), description: 'Renda',
+      frequency: RecurrenceFrequency.MONTHLY, startDate: '2026-01-01', lastGeneratedDate: '2026-01-01', active: true
+    };
+    const { a, b } = pair();
+    // Cada dispositivo abre a aplicação noutro dia e gera as ocorrências em falta
+    const open = (state: SyncState, at: string) => {
+      const { generated, rules } = materializeRecurringRules([renda], '2026-03-05');
+      const next = data([tx(), ...generated], { recurringRules: rules });
+      return { next, state: recordChanges(state, [{ entity: 'recurringRules', before: [renda], after: rules }, ...generated.map(t => change(null, t))], at) };
+    };
+    const local = open(a, '2026-03-05T08:00:00.000Z');
+    const remote = open(b, '2026-03-05T09:00:00.000Z');
+    const result = mergeChangeset(local.next, local.state, buildChangeset(remote.next, remote.state, null));
+
+    expect(result.data.transactions.map(t => t.id)).toEqual(['t1', 'renda:2026-02-01', 'renda:2026-03-01']);
+    expect(result.data.recurringRules[0].lastGeneratedDate).toBe('2026-03-01');
+    expect([result.added, result.conflicts]).toEqual([0, []]);
+  });
+
+  it('não duplica as categorias iniciais de dispositivos começados do zero', () => {
+    const fresh = (device: string) => {
+      const { categories } = createEmptyData();
+      return { categories, state: createSyncState(device) };
+    };
+    const local = fresh('A');
+    const remote = fresh('B');
+    const cultura: Category = { id: 'cultura', name: 'Cultura', color: '#111', icon: 'tag' };
+    const remoteState = recordChanges(remote.state, [
+      { entity: 'categories', before: remote.categories, after: [...remote.categories, cultura] }
+    ], '2026-01-03T00:00:00.000Z');
+    const result = mergeChangeset(data([], { categories: local.categories }), local.state, buildChangeset(data([], { categories: [...remote.categories, cultura] }), remoteState, null));
+
+    expect(result.data.categories).toEqual([...local.categories, cultura]);
+  });
+
+  it('deixa de fora registos com campos inválidos e os campos que não conhece', () => {
+    const remote = createSyncState('B');
+    const changeset = buildChangeset(data([{ ...tx({ id: 'ok' }), extra: true } as Transaction]), remote, null);
+    const invalid = (values: object) => ({ entity: 'transactions', id: 'mau', values: { ...tx({ id: 'mau' }), ...values }, stamps: {} });
+    const result = mergeChangeset(data([]), createSyncState('A'), {
+      ...changeset,
+      records: [
+        ...changeset.records,
+        invalid({ amount: 12.5 }),
+        invalid({ date: '2026-02-30' }),
+        invalid({ type: 'GIFT' }),
+        invalid({ splits: [{ categoryId: 'lazer', amount: toMoney(3) }] }),
+        { entity: 'budgets', id: 'x', values: null, stamps: {} }
+      ]
+    } as any);
+
+    expect(result.rejected).toBe(5);
+    expect(result.data.transactions).toEqual([tx({ id: 'ok' })]);
+  });
+
+  it('lê os ficheiros das versões que só sincronizavam movimentos', () => {
+    const legacy = {
+      format: 'fintrack-changeset',
+      device: 'b',
+      deviceName: 'B',
+      createdAt: '2026-01-02T00:00:00.000Z',
+      since: null,
+      records: [{ id: 't1', values: tx(), stamps: { '*': { at: '2026-01-01T00:00:00.000Z', device: 'b' } } }]
+    };
+    expect(isChangeset(legacy)).toBe(true);
+    expect(mergeChangeset(data([]), createSyncState('A'), legacy as any).data.transactions).toEqual([tx()]);
+  });
+});
+
+describe('remoções', () => {
+  // A apaga o movimento e B junta a exportação completa de A
+  const deleteAndShare = (peers: SyncState['peers'] = {}) => {
+    const { a, b } = pair();
+    const deleted = recordChanges({ ...a, peers: { ...a.peers, ...peers } }, [change(tx(), null)], '2026-01-03T00:00:00.000Z');
+    const atB = mergeChangeset(data([tx()]), b, buildChangeset(data([]), deleted, null, '2026-01-04T00:00:00.000Z'), '2026-01-04T01:00:00.000Z');
+    return { deleted, atB };
+  };
+
+  it('esquecem-se quando todos os dispositivos confirmam que as receberam', () => {
+    const { deleted, atB } = deleteAndShare();
+    expect(atB.data.transactions).toEqual([]);
+    expect(atB.state.tombstones.transactions.t1).toBeDefined();
+
+    const atA = mergeChangeset(data([]), deleted, buildChangeset(atB.data, atB.state, null, '2026-01-05T00:00:00.000Z'), '2026-01-05T01:00:00.000Z');
+    expect(atA.state.tombstones.transactions.t1).toBeUndefined();
+
+    const back = mergeChangeset(atB.data, atB.state, buildChangeset(atA.data, atA.state, null, '2026-01-06T00:00:00.000Z'), '2026-01-06T01:00:00.000Z');
+    expect(back.state.tombstones.transactions.t1).toBeUndefined();
+    expect(back.data.transactions).toEqual([]);
+  });
+
+  it('ficam enquanto algum dispositivo conhecido não confirmar', () => {
+    const { deleted, atB } = deleteAndShare({ c: { name: 'C', lastSeen: '2026-01-01T10:00:00.000Z' } });
+    const atA = mergeChangeset(data([]), deleted, buildChangeset(atB.data, atB.state, null, '2026-01-05T00:00:00.000Z'), '2026-01-05T01:00:00.000Z');
+    expect(atA.state.tombstones.transactions.t1).toBeDefined();
+  });
+});
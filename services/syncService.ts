@@ -0,0 +1,494 @@
+import { Changeset, RecurrenceFrequency, SyncChange, SyncConflict, SyncedData, SyncEntity, SyncItem, SyncPeer, SyncRecord, SyncStamp, SyncState, SyncTombstone, TransactionSplit, TransactionType } from "../types";
+import { ACCOUNT_KIND_LABELS } from "./accountService";
+import { isIsoDate } from "./importService";
+import { isAmount, sumMoney } from "./moneyService";
+
+export const CHANGESET_FORMAT = 'fintrack-changeset-v2';
+
+// Ficheiros das versões que só sincronizavam movimentos
+const LEGACY_CHANGESET_FORMAT = 'fintrack-changeset';
+
+// Ficheiros de cada dispositivo na pasta partilhada
+export const SYNC_FILE_PREFIX = 'fintrack-sync-';
+
+const CREATED = '*';
+
+export const ENTITY_LABELS: Record<SyncEntity, string> = {
+  transactions: 'Movimento',
+  categories: 'Categoria',
+  accounts: 'Conta',
+  recurringRules: 'Regra recorrente',
+  categorizationRules: 'Regra de categorização',
+  members: 'Membro'
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  type: 'Tipo',
+  categoryId: 'Categoria',
+  amount: 'Valor',
+  date: 'Data',
+  description: 'Descrição',
+  accountId: 'Conta',
+  toAccountId: 'Conta de destino',
+  currency: 'Moeda',
+  tags: 'Etiquetas',
+  splits: 'Divisão',
+  paidBy: 'Pago por',
+  splitBetween: 'Dividido entre',
+  name: 'Nome',
+  parentId: 'Grupo',
+  color: 'Cor',
+  icon: 'Ícone',
+  kind: 'Tipo de conta',
+  openingBalance: 'Saldo inicial',
+  frequency: 'Frequência',
+  startDate: 'Início',
+  endDate: 'Fim',
+  dayOfMonth: 'Dia do mês',
+  active: 'Ativa',
+  pattern: 'Padrão',
+  matchMode: 'Correspondência',
+  minAmount: 'Valor mínimo',
+  maxAmount: 'Valor máximo',
+  enabled: 'Ativa'
+};
+
+// '*' quer dizer que um lado apagou o registo inteiro
+export const conflictFieldLabel = (conflict: SyncConflict): string =>
+  conflict.field === CREATED ? ENTITY_LABELS[conflict.entity] : FIELD_LABELS[conflict.field] || conflict.field;
+
+type Check = (value: unknown) => boolean;
+
+// Um validador por campo; o tipo obriga a declarar todos os campos de cada coleção
+type FieldMap<T> = { [K in Exclude<keyof T, 'id'>]-?: Check };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isString: Check = value => typeof value === 'string';
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isName: Check = value => typeof value === 'string' && value.trim().length > 0;
+const isBoolean: Check = value => typeof value === 'boolean';
+const isCurrency: Check = value => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+const isDayOfMonth: Check = value => typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 31;
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const listOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+
+const isSplit: Check = value =>
+  isObject(value) && isId(value.categoryId) && isAmount(value.amount) && optional(isString)(value.description);
+
+const TRANSACTION_TYPES = Object.values(TransactionType);
+
+// A ordem das chaves é a ordem pela qual as coleções são juntadas
+const SYNC_FIELDS: { [E in SyncEntity]: FieldMap<SyncedData[E][number]> } = {
+  categories: { name: isName, parentId: optional(isId), color: isString, icon: isString },
+  accounts: { name: isName, kind: oneOf(Object.keys(ACCOUNT_KIND_LABELS)), openingBalance: isAmount, currency: isCurrency },
+  members: { name: isName, accountId: optional(isId) },
+  recurringRules: {
+    type: oneOf(TRANSACTION_TYPES),
+    categoryId: isId,
+    amount: isAmount,
+    description: isString,
+    frequency: oneOf(Object.values(RecurrenceFrequency)),
+    accountId: optional(isId),
+    startDate: isIsoDate,
+    endDate: optional(isIsoDate),
+    dayOfMonth: optional(isDayOfMonth),
+    lastGeneratedDate: optional(isIsoDate),
+    active: isBoolean
+  },
+  categorizationRules: {
+    pattern: isString,
+    matchMode: oneOf(['contains', 'regex']),
+    type: optional(oneOf(TRANSACTION_TYPES)),
+    minAmount: optional(isAmount),
+    maxAmount: optional(isAmount),
+    categoryId: isId,
+    enabled: isBoolean
+  },
+  transactions: {
+    type: oneOf(TRANSACTION_TYPES),
+    categoryId: isId,
+    amount: isAmount,
+    date: isIsoDate,
+    description: isString,
+    accountId: isId,
+    toAccountId: optional(isId),
+    currency: optional(isCurrency),
+    recurringRuleId: optional(isId),
+    occurrenceDate: optional(isIsoDate),
+    externalId: optional(isString),
+    tags: optional(listOf(isString)),
+    splits: optional(listOf(isSplit)),
+    paidBy: optional(isId),
+    splitBetween: optional(listOf(isId))
+  }
+};
+
+const SYNC_ENTITIES = Object.keys(SYNC_FIELDS) as SyncEntity[];
+
+const fieldsOf = (entity: SyncEntity): string[] => Object.keys(SYNC_FIELDS[entity]);
+
+const isSyncEntity = (value: unknown): value is SyncEntity => SYNC_ENTITIES.some(e => e === value);
+
+const mapEntities = <T,>(fn: (entity: SyncEntity) => T): Record<SyncEntity, T> =>
+  Object.fromEntries(SYNC_ENTITIES.map(entity => [entity, fn(entity)])) as Record<SyncEntity, T>;
+
+const itemsOf = (data: SyncedData, entity: SyncEntity): SyncItem[] => data[entity];
+
+const valueOf = (item: object, field: string): unknown => (item as Record<string, unknown>)[field];
+
+// Sem valor, o campo sai do registo, como os campos opcionais por preencher
+const withField = <T extends SyncItem>(item: T, field: string, value: unknown): T =>
+  value === undefined ? Object.fromEntries(Object.entries(item).filter(([f]) => f !== field)) as T : { ...item, [field]: value };
+
+// Os movimentos novos ficam no início, como os criados à mão; nas outras listas vão para o fim
+const withNew = (entity: SyncEntity, items: SyncItem[], added: SyncItem[]): SyncItem[] =>
+  entity === 'transactions' ? [...added, ...items] : [...items, ...added];
+
+// As partes de um movimento dividido somam o valor do movimento
+const splitsMatchAmount = (item: object): boolean => {
+  const splits = valueOf(item, 'splits') as TransactionSplit[] | undefined;
+  return !splits || sumMoney(splits.map(l => l.amount)) === valueOf(item, 'amount');
+};
+
+const isValidItem = (entity: SyncEntity, item: object): item is SyncItem =>
+  Object.entries<Check>(SYNC_FIELDS[entity]).every(([field, check]) => check(valueOf(item, field)))
+  && (entity !== 'transactions' || splitsMatchAmount(item));
+
+// Só entram nos dados registos com todos os campos válidos; campos desconhecidos ficam de fora
+const readValues = (entity: SyncEntity, id: string, values: unknown): SyncItem | null => {
+  if (!isObject(values)) return null;
+  const item = Object.fromEntries([['id', id], ...fieldsOf(entity).filter(f => values[f] !== undefined).map(f => [f, values[f]])]);
+  return isValidItem(entity, item) ? item : null;
+};
+
+const isStamp = (value: unknown): value is SyncStamp =>
+  isObject(value) && typeof value.at === 'string' && typeof value.device === 'string';
+
+// Os ficheiros chegam de outros dispositivos: cada registo é conferido antes de tocar nos dados.
+// Os das versões anteriores não indicam a coleção e são sempre movimentos
+const readRecord = (raw: unknown): SyncRecord | null => {
+  if (!isObject(raw) || !isId(raw.id) || !isObject(raw.stamps)) return null;
+  const entity = raw.entity ?? 'transactions';
+  if (!isSyncEntity(entity)) return null;
+  const stamps: Record<string, SyncStamp> = {};
+  for (const [field, stamp] of Object.entries(raw.stamps)) {
+    if (!isStamp(stamp)) return null;
+    if (field === CREATED || fieldsOf(entity).includes(field)) stamps[field] = stamp;
+  }
+  const deleted = raw.deleted;
+  if (deleted !== undefined && !isStamp(deleted)) return null;
+  if (raw.values == null) return { entity, id: raw.id, values: null, stamps, deleted };
+  const values = readValues(entity, raw.id, raw.values);
+  return values && { entity, id: raw.id, values, stamps, deleted };
+};
+
+// Movimentos sem registo de alterações (anteriores à sincronização) perdem sempre
+const NO_STAMP: SyncStamp = { at: '', device: '' };
+
+export const defaultDeviceName = (): string => {
+  if (typeof window === 'undefined') return 'Dispositivo';
+  if ((window as any).electronAPI) return 'Computador';
+  return /android/i.test(navigator.userAgent) ? 'Android' : 'Browser';
+};
+
+export const createSyncState = (deviceName: string = defaultDeviceName()): SyncState => ({
+  deviceId: Math.random().toString(36).substr(2, 9),
+  deviceName,
+  stamps: mapEntities(() => ({})),
+  tombstones: mapEntities(() => ({})),
+  peers: {},
+  lastExport: null,
+  folder: null,
+  conflicts: []
+});
+
+export const syncFileName = (state: SyncState) => `${SYNC_FILE_PREFIX}${state.deviceId}.json`;
+
+const isLater = (a: SyncStamp, b: SyncStamp): boolean =>
+  a.at !== b.at ? a.at > b.at : a.device > b.device;
+
+const latest = (stamps: SyncStamp[]): SyncStamp =>
+  stamps.reduce((max, s) => isLater(s, max) ? s : max, NO_STAMP);
+
+// Só as alterações contam para conflitos: quem altera ou apaga já conhecia a criação
+const latestEdit = (stamps: Record<string, SyncStamp> | undefined): SyncStamp =>
+  latest(Object.entries(stamps || {}).filter(([field]) => field !== CREATED).map(([, s]) => s));
+
+const fieldStamp = (stamps: Record<string, SyncStamp> | undefined, field: string): SyncStamp =>
+  stamps?.[field] || stamps?.[CREATED] || NO_STAMP;
+
+const laterDate = (a: string | undefined, b: string | undefined): string | undefined =>
+  b !== undefined && (a === undefined || b > a) ? b : a;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+interface ItemChange {
+  entity: SyncEntity;
+  id: string;
+  before: SyncItem | null;
+  after: SyncItem | null;
+}
+
+const diffItems = (entity: SyncEntity, before: SyncItem[], after: SyncItem[]): ItemChange[] => {
+  const beforeById = new Map(before.map(i => [i.id, i]));
+  const afterById = new Map(after.map(i => [i.id, i]));
+  return [...new Set([...beforeById.keys(), ...afterById.keys()])]
+    .map(id => ({ entity, id, before: beforeById.get(id) || null, after: afterById.get(id) || null }))
+    .filter(c => !sameValue(c.before, c.after));
+};
+
+const itemChanges = (change: SyncChange): ItemChange[] => {
+  switch (change.entity) {
+    case 'transaction':
+      return [{ entity: 'transactions', id: change.id, before: change.before, after: change.after }];
+    case 'categories':
+    case 'accounts':
+    case 'recurringRules':
+    case 'categorizationRules':
+    case 'members':
+      return diffItems(change.entity, change.before, change.after);
+    // Orçamentos, objetivos e filtros guardados ficam só neste dispositivo
+    default:
+      return [];
+  }
+};
+
+const changedFields = (entity: SyncEntity, before: SyncItem, after: SyncItem): string[] =>
+  fieldsOf(entity).filter(f => !sameValue(valueOf(before, f), valueOf(after, f)));
+
+// Regista as alterações locais; chamado sempre que o histórico, as contas ou os membros mudam
+export const recordChanges = (state: SyncState, changes: SyncChange[], at: string = new Date().toISOString()): SyncState => {
+  const stamp: SyncStamp = { at, device: state.deviceId };
+  const stamps = mapEntities(e => ({ ...state.stamps[e] }));
+  const tombstones = mapEntities(e => ({ ...state.tombstones[e] }));
+  changes.flatMap(itemChanges).forEach(({ entity, id, before, after }) => {
+    if (!after) {
+      delete stamps[entity][id];
+      tombstones[entity][id] = { ...stamp, known: at };
+    } else if (!before) {
+      stamps[entity][id] = { [CREATED]: stamp };
+      delete tombstones[entity][id];
+    } else {
+      stamps[entity][id] = { ...stamps[entity][id], ...Object.fromEntries(changedFields(entity, before, after).map(f => [f, stamp])) };
+    }
+  });
+  return { ...state, stamps, tombstones };
+};
+
+// Estado completo (since = null) ou só o que mudou depois de `since`
+export const buildChangeset = (data: SyncedData, state: SyncState, since: string | null, createdAt: string = new Date().toISOString()): Changeset => {
+  const changedSince = (stamp: SyncStamp) => since === null || stamp.at > since;
+  const records: SyncRecord[] = SYNC_ENTITIES.flatMap(entity => [
+    ...itemsOf(data, entity)
+      .filter(i => changedSince(latest(Object.values(state.stamps[entity][i.id] || {}))))
+      .map(i => ({ entity, id: i.id, values: i, stamps: state.stamps[entity][i.id] || {} })),
+    ...Object.entries(state.tombstones[entity])
+      .filter(([, tombstone]) => changedSince(tombstone))
+      .map(([id, { at, device }]) => ({ entity, id, values: null, stamps: {}, deleted: { at, device } }))
+  ]);
+  const acks = Object.fromEntries(Object.entries(state.peers).flatMap(([id, peer]) => peer.lastFull ? [[id, peer.lastFull]] : []));
+  return { format: CHANGESET_FORMAT, device: state.deviceId, deviceName: state.deviceName, createdAt, since, records, acks };
+};
+
+export const isChangeset = (value: unknown): value is Changeset =>
+  isObject(value) && (value.format === CHANGESET_FORMAT || value.format === LEGACY_CHANGESET_FORMAT) && Array.isArray(value.records);
+
+// Uma remoção pode ser esquecida quando todos os dispositivos conhecidos já juntaram uma
+// exportação completa deste que a incluía: a partir daí nenhum volta a enviar o registo antigo
+const pruneTombstones = (tombstones: SyncState['tombstones'], peers: Record<string, SyncPeer>): SyncState['tombstones'] => {
+  const acks = Object.values(peers).map(peer => peer.acked);
+  const acknowledged = (tombstone: SyncTombstone) => acks.every(acked => acked !== undefined && tombstone.known <= acked);
+  return mapEntities(e => Object.fromEntries(Object.entries(tombstones[e]).filter(([, tombstone]) => !acknowledged(tombstone))));
+};
+
+export interface MergeResult {
+  data: SyncedData;
+  state: SyncState;
+  added: number;
+  updated: number;
+  deleted: number;
+  // Registos com campos inválidos, deixados de fora
+  rejected: number;
+  conflicts: SyncConflict[];
+}
+
+const describeRecord = (entity: SyncEntity, item: SyncItem): string => {
+  const text = (field: string) => String(valueOf(item, field) ?? '');
+  if (entity === 'transactions') return `${text('description') || 'Sem descrição'} (${text('date')})`;
+  const name = entity === 'categorizationRules' ? text('pattern') : entity === 'recurringRules' ? text('description') : text('name');
+  return `${ENTITY_LABELS[entity]}: ${name}`;
+};
+
+// Último a escrever ganha, campo a campo. Há conflito quando os dois lados mudaram
+// o mesmo campo depois da última sincronização entre eles
+export const mergeChangeset = (data: SyncedData, state: SyncState, changeset: Changeset, at: string = new Date().toISOString()): MergeResult => {
+  if (changeset.device === state.deviceId) {
+    return { data, state, added: 0, updated: 0, deleted: 0, rejected: 0, conflicts: [] };
+  }
+  const peer = state.peers[changeset.device];
+  const lastSeen = peer?.lastSeen || '';
+  const remoteName = changeset.deviceName;
+  const byId = mapEntities(e => new Map(itemsOf(data, e).map(i => [i.id, i])));
+  const stamps = mapEntities(e => ({ ...state.stamps[e] }));
+  const tombstones = mapEntities(e => ({ ...state.tombstones[e] }));
+  const conflicts: SyncConflict[] = [];
+  let added = 0, updated = 0, deleted = 0, rejected = 0;
+
+  const concurrent = (local: SyncStamp, remote: SyncStamp) =>
+    local.device === state.deviceId && local.at > lastSeen && remote.device !== state.deviceId && remote.at > lastSeen;
+
+  changeset.records.forEach(raw => {
+    const record = readRecord(raw);
+    if (!record) {
+      rejected++;
+      return;
+    }
+    const { entity, id } = record;
+    const items = byId[entity];
+    const local = items.get(id);
+    const localStamps = stamps[entity][id];
+    const localLatest = latest(Object.values(localStamps || {}));
+    const localEdit = latestEdit(localStamps);
+    const conflict = (item: SyncItem, field: string, kept: unknown, discarded: unknown, localWon: boolean) => conflicts.push({
+      id: Math.random().toString(36).substr(2, 9),
+      entity,
+      recordId: id,
+      label: describeRecord(entity, item),
+      field,
+      kept,
+      discarded,
+      keptFrom: localWon ? state.deviceName : remoteName,
+      discardedFrom: localWon ? remoteName : state.deviceName
+    });
+
+    const values = record.values;
+    if (record.deleted || !values) {
+      const deletion = record.deleted || NO_STAMP;
+      const tombstone = tombstones[entity][id];
+      if (!local) {
+        if (!tombstone || isLater(deletion, tombstone)) tombstones[entity][id] = { ...deletion, known: at };
+        return;
+      }
+      if (isLater(deletion, localLatest)) {
+        if (concurrent(localEdit, deletion)) conflict(local, CREATED, null, local, false);
+        items.delete(id);
+        delete stamps[entity][id];
+        tombstones[entity][id] = { ...deletion, known: at };
+        deleted++;
+      } else if (concurrent(localEdit, deletion)) {
+        conflict(local, CREATED, local, null, true);
+      }
+      return;
+    }
+
+    const remoteLatest = latest(Object.values(record.stamps));
+    const remoteEdit = latestEdit(record.stamps);
+    if (!local) {
+      const tombstone = tombstones[entity][id];
+      // Apagado aqui depois da última alteração do outro lado
+      if (tombstone && !isLater(remoteLatest, tombstone)) {
+        if (concurrent(tombstone, remoteEdit)) conflict(values, CREATED, null, values, true);
+        return;
+      }
+      if (tombstone && concurrent(tombstone, remoteEdit)) conflict(values, CREATED, values, null, false);
+      items.set(id, values);
+      stamps[entity][id] = record.stamps;
+      delete tombstones[entity][id];
+      added++;
+      return;
+    }
+
+    let merged = local;
+    const nextStamps = { ...localStamps };
+    fieldsOf(entity).forEach(field => {
+      const localStamp = fieldStamp(localStamps, field);
+      const remoteStamp = fieldStamp(record.stamps, field);
+      const localValue = valueOf(local, field);
+      const remoteValue = valueOf(values, field);
+      if (sameValue(localValue, remoteValue)) {
+        if (isLater(remoteStamp, localStamp)) nextStamps[field] = remoteStamp;
+        return;
+      }
+      // Empate entre registos sem alterações registadas: decide o valor, para que os dois lados convirjam
+      const remoteWins = isLater(remoteStamp, localStamp)
+        || (!isLater(localStamp, remoteStamp) && JSON.stringify(remoteValue ?? null) > JSON.stringify(localValue ?? null));
+      if (localStamps?.[field] && record.stamps[field] && concurrent(localStamp, remoteStamp)) {
+        conflict(local, field, remoteWins ? remoteValue : localValue, remoteWins ? localValue : remoteValue, !remoteWins);
+      }
+      if (!remoteWins) return;
+      merged = withField(merged, field, remoteValue);
+      nextStamps[field] = remoteStamp;
+    });
+    stamps[entity][id] = nextStamps;
+    if (merged !== local) {
+      items.set(id, merged);
+      updated++;
+    }
+  });
+
+  // Mantém a ordem local e junta os registos novos
+  const next = mapEntities(e => {
+    const current = itemsOf(data, e);
+    const existingIds = new Set(current.map(i => i.id));
+    const existing = current.filter(i => byId[e].has(i.id)).map(i => byId[e].get(i.id)!);
+    return withNew(e, existing, [...byId[e].values()].filter(i => !existingIds.has(i.id)));
+  }) as SyncedData;
+  const peers = {
+    ...state.peers,
+    [changeset.device]: {
+      name: remoteName,
+      lastSeen: laterDate(lastSeen, changeset.createdAt)!,
+      // Uma exportação completa só conta se entrou tudo o que trazia
+      lastFull: changeset.since === null && rejected === 0 ? laterDate(peer?.lastFull, changeset.createdAt) : peer?.lastFull,
+      acked: laterDate(peer?.acked, changeset.acks?.[state.deviceId])
+    }
+  };
+  return {
+    data: next,
+    state: {
+      ...state,
+      stamps,
+      tombstones: pruneTombstones(tombstones, peers),
+      peers,
+      conflicts: [...state.conflicts, ...conflicts]
+    },
+    added,
+    updated,
+    deleted,
+    rejected,
+    conflicts
+  };
+};
+
+// "Usar o outro": repõe o valor descartado. Passa pelo registo de alterações como uma
+// edição local, por isso ganha na próxima sincronização
+export const resolveConflict = (data: SyncedData, conflict: SyncConflict): Partial<SyncedData> => {
+  const items = itemsOf(data, conflict.entity);
+  let next: SyncItem[];
+  if (conflict.field !== CREATED) {
+    next = items.map(i => i.id === conflict.recordId ? withField(i, conflict.field, conflict.discarded) : i);
+  } else if (conflict.discarded === null) {
+    next = items.filter(i => i.id !== conflict.recordId);
+  } else {
+    next = items.some(i => i.id === conflict.recordId) ? items : withNew(conflict.entity, items, [conflict.discarded as SyncItem]);
+  }
+  return { [conflict.entity]: next } as Partial<SyncedData>;
+};
+
+// Na pasta partilhada cada dispositivo escreve o seu estado completo e lê o dos outros
+export interface SyncFolder {
+  choose: () => Promise<string | null>;
+  read: (folder: string) => Promise<{ name: string; content: unknown }[]>;
+  write: (folder: string, name: string, content: unknown) => Promise<void>;
+}
+
+export const createElectronSyncFolder = (api: any): SyncFolder => ({
+  choose: () => api.chooseSyncFolder(),
+  read: (folder) => api.readSyncFolder(folder),
+  write: async (folder, name, content) => {
+    const result = await api.writeSyncFile(folder, name, content);
+    if (!result?.success) throw new Error(result?.error || 'Falha ao escrever na pasta de sincronização.');
+  }
+});
@@ -1,30 +1,657 @@
 
 export enum TransactionType {
   EXPENSE = 'EXPENSE',
-  INCOME = 'INCOME'
+  INCOME = 'INCOME',
+  // Movimento entre contas próprias: não conta como entrada nem saída
+  TRANSFER = 'TRANSFER'
+}
+
+// Valor em cêntimos inteiros, para as somas não acumularem erros de vírgula flutuante.
+// Todos os valores guardados e calculados são Money; só passam a unidades para mostrar.
+export type Money = number & { readonly __cents: unique symbol };
+
+export type AccountKind = 'checking' | 'savings' | 'credit' | 'cash';
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: Money;
+  currency: string;
 }
 
 export interface Transaction {
   id: string;
   type: TransactionType;
-  category: string;
-  amount: number;
+  categoryId: string;
+  amount: Money;
   date: string;
   description: string;
+  accountId: string;
+  // Conta de destino, apenas em transferências
+  toAccountId?: string;
+  // Moeda original do movimento; sem valor, assume-se a moeda da conta
+  currency?: string;
+  recurringRuleId?: string;
+  occurrenceDate?: string;
+  // Identificador atribuído pelo banco (ex.: FITID do OFX)
+  externalId?: string;
+  tags?: string[];
+  // Divisão por várias categorias; as partes somam `amount` e `categoryId` fica com a maior
+  splits?: TransactionSplit[];
+  // Membro do agregado que pagou e membros que dividem o valor em partes iguais
+  paidBy?: string;
+  splitBetween?: string[];
+}
+
+export interface TransactionSplit {
+  categoryId: string;
+  amount: Money;
+  description?: string;
+}
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY'
+}
+
+export interface RecurringRule {
+  id: string;
+  type: TransactionType;
+  categoryId: string;
+  amount: Money;
+  description: string;
+  frequency: RecurrenceFrequency;
+  accountId?: string;
+  startDate: string;
+  endDate?: string;
+  // Dia do mês pretendido (mensal/anual); nos meses curtos usa-se o último dia
+  dayOfMonth?: number;
+  lastGeneratedDate?: string;
+  active: boolean;
 }
 
 // Fix for Recharts ChartDataInput compatibility: added index signature
 export interface CategorySummary {
   name: string;
-  value: number;
+  value: Money;
   color: string;
   [key: string]: any;
 }
 
 export interface FinancialStats {
-  totalIncome: number;
-  totalExpenses: number;
-  balance: number;
+  totalIncome: Money;
+  totalExpenses: Money;
+  balance: Money;
   expenseByCategory: CategorySummary[];
-  categoryBalances: { name: string; balance: number }[];
+  categoryBalances: { name: string; balance: Money }[];
+}
+
+// Limite mensal por categoria, em vigor a partir de `month` (YYYY-MM)
+// até existir outra entrada mais recente para a mesma categoria
+export interface Budget {
+  categoryId: string;
+  month: string;
+  limit: Money;
+  rollover: boolean;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  categoryId: string;
+  month: string;
+  limit: Money;
+  carriedOver: Money;
+  available: Money;
+  spent: Money;
+  percentUsed: number;
+  projected: Money;
+  state: BudgetState;
+}
+
+// Objetivo de poupança, na moeda base. Contam para ele, a partir de `startDate`,
+// o dinheiro que entra na conta ligada ou os movimentos da categoria ligada.
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: Money;
+  deadline: string;
+  startDate: string;
+  // Valor já poupado antes de `startDate`
+  initialAmount: Money;
+  accountId?: string;
+  categoryId?: string;
+}
+
+export type GoalState = 'reached' | 'on-track' | 'behind' | 'overdue';
+
+export interface GoalProgress {
+  goal: SavingsGoal;
+  saved: Money;
+  percent: number;
+  remaining: Money;
+  monthsLeft: number;
+  // Contribuição mensal necessária para chegar ao alvo no prazo
+  requiredMonthly: Money;
+  // Média do saldo líquido (entradas - saídas) dos últimos meses completos
+  averageNet: Money;
+  projectedAmount: Money;
+  projectedDate: string | null;
+  state: GoalState;
+}
+
+// Movimento que se repete a intervalos regulares, detetado no histórico ou vindo de uma regra
+export interface RecurringPattern {
+  key: string;
+  description: string;
+  categoryId: string;
+  // Efeito no saldo: positivo entra, negativo sai
+  amount: Money;
+  intervalDays: number;
+  nextDate: string;
+  occurrences: number;
+  source: 'detected' | 'rule';
+}
+
+export type SubscriptionCadence = 'monthly' | 'yearly';
+
+// 'price-increase': o último valor cobrado subiu; 'doubled': cobrado duas vezes no último ciclo;
+// 'stopped': a cobrança esperada não apareceu
+export type SubscriptionFlag = 'price-increase' | 'doubled' | 'stopped';
+
+export interface Subscription {
+  key: string;
+  description: string;
+  categoryId: string;
+  cadence: SubscriptionCadence;
+  // Último valor cobrado; previousAmount é o valor antes da última alteração
+  amount: Money;
+  previousAmount: Money | null;
+  // Custo de um ano ao preço atual; zero se a cobrança parou
+  yearlyCost: Money;
+  firstDate: string;
+  lastDate: string;
+  nextDate: string | null;
+  occurrences: number;
+  transactionIds: string[];
+  flags: SubscriptionFlag[];
+}
+
+export interface ForecastPoint {
+  date: string;
+  balance: Money;
+  // Limites do intervalo de confiança
+  low: Money;
+  high: Money;
+}
+
+export interface Forecast {
+  points: ForecastPoint[];
+  patterns: RecurringPattern[];
+  // Gasto variável médio por dia, fora dos movimentos recorrentes
+  variableByCategory: { categoryId: string; daily: Money }[];
+  nextIncome: string | null;
+  monthEnd: ForecastPoint | null;
+  // Primeiro dia, até à próxima entrada, em que o saldo previsto fica abaixo do limite
+  alert: ForecastPoint | null;
+}
+
+export type ImportFormat = 'csv' | 'ofx' | 'qif' | 'json';
+
+export type DateFormat = 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd';
+
+export interface CsvMapping {
+  delimiter: string;
+  decimalSeparator: ',' | '.';
+  dateFormat: DateFormat;
+  hasHeader: boolean;
+  skipRows: number;
+  dateColumn: number;
+  descriptionColumn: number;
+  // Valor com sinal numa coluna, ou débito/crédito em colunas separadas
+  amountMode: 'signed' | 'split';
+  amountColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  categoryColumn: number;
+  invertSign: boolean;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mapping: CsvMapping;
+}
+
+// Linha normalizada antes de virar transação; valor positivo = entrada
+export interface ImportedRow {
+  // Linha (CSV, QIF) ou registo (OFX, JSON) de origem, a contar de 1
+  line: number;
+  date: string;
+  amount: Money;
+  description: string;
+  // Nome da categoria no ficheiro; as cópias da própria aplicação trazem o identificador
+  category?: string;
+  categoryId?: string;
+  type?: TransactionType;
+  externalId?: string;
+}
+
+// Problema numa linha importada: 'error' deixa a linha de fora, 'warning' importa-a com um valor por omissão
+export interface ImportIssue {
+  line: number;
+  field: 'date' | 'amount' | 'category' | 'type' | 'record';
+  value: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ImportParseResult {
+  rows: ImportedRow[];
+  issues: ImportIssue[];
+}
+
+export interface DuplicateMatch {
+  // Movimento já existente (ou o primeiro do par) e o suspeito de o repetir
+  original: Transaction;
+  duplicate: Transaction;
+  confidence: number;
+  reason: 'externalId' | 'fuzzy';
+  // O original é outra linha do mesmo ficheiro, ainda não gravada
+  sameImport?: boolean;
+}
+
+export type ImportDecision = 'keep' | 'skip' | 'merge';
+
+// Regras aplicadas pela ordem da lista: a primeira que corresponder ganha
+export interface CategorizationRule {
+  id: string;
+  pattern: string;
+  matchMode: 'contains' | 'regex';
+  type?: TransactionType;
+  minAmount?: Money;
+  maxAmount?: Money;
+  categoryId: string;
+  enabled: boolean;
+}
+
+// Os movimentos, orçamentos, regras, objetivos e filtros referem a categoria pelo `id`,
+// por isso mudar o nome não mexe em mais nada. Só há um nível de subcategorias.
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string;
+  color: string;
+  icon: string;
+}
+
+// Movimento extraído de texto livre (frase, talão ou SMS do banco); null = não reconhecido
+export interface ParsedEntry {
+  amount: Money | null;
+  date: string | null;
+  type: TransactionType;
+  description: string;
+  categoryId: string | null;
+  currency: string | null;
+}
+
+// Categoria proposta para um movimento ainda por categorizar, a confirmar pelo utilizador
+export interface CategorySuggestion {
+  id: string;
+  categoryId: string;
+}
+
+// `from` e `to` são identificadores de categorias
+export interface CategoryChange {
+  transaction: Transaction;
+  from: string;
+  to: string;
+  ruleId: string;
+}
+
+export interface AccountBalance {
+  account: Account;
+  balance: Money;
+}
+
+export interface Member {
+  id: string;
+  name: string;
+  // Conta usada nos acertos de contas
+  accountId?: string;
+}
+
+// Positivo: os outros devem-lhe; negativo: deve aos outros
+export interface MemberBalance {
+  member: Member;
+  paid: Money;
+  share: Money;
+  balance: Money;
+}
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: Money;
+}
+
+// Cotação ao estilo BCE: 1 EUR = `rate` unidades de `currency`, válida a partir de `date`
+export interface ExchangeRate {
+  date: string;
+  currency: string;
+  rate: number;
+}
+
+// Listas vazias e valores null significam "sem filtro"; `search` aceita a sintaxe de pesquisa
+export interface TransactionFilters {
+  search: string;
+  categoryIds: string[];
+  tags: string[];
+  startDate: string;
+  endDate: string;
+  type: TransactionType | 'all';
+  account: string;
+  member: string;
+  minAmount: Money | null;
+  maxAmount: Money | null;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: TransactionFilters;
+}
+
+export type SortField = 'date' | 'amount' | 'category' | 'description';
+
+export interface TransactionSort {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export type Comparison = { op: '>' | '>=' | '<' | '<=' | '='; value: number | string };
+
+// Resultado da análise da caixa de pesquisa (ex.: cat:Lazer amount>50 "jantar")
+export interface ParsedQuery {
+  terms: string[];
+  excludedTerms: string[];
+  categories: string[];
+  excludedCategories: string[];
+  tags: string[];
+  accounts: string[];
+  types: TransactionType[];
+  amount: Comparison[];
+  date: Comparison[];
+  // Filtros cujo valor não se consegue ler (ex.: "valor>1.000"), para avisar em vez de os ignorar
+  ignored: string[];
+}
+
+export type ReportGranularity = 'week' | 'month' | 'year';
+
+// Totais de um período; `balance` é o acumulado desde o primeiro período
+export interface PeriodSummary {
+  period: string;
+  income: Money;
+  expenses: Money;
+  net: Money;
+  balance: Money;
+  savingsRate: number | null;
+}
+
+export interface CategoryTrend {
+  categoryId: string;
+  current: Money;
+  previous: Money;
+  change: Money;
+  changePercent: number | null;
+}
+
+// 'offline' gera a análise localmente, a partir das estatísticas, sem serviço de IA
+export type AiProviderKind = 'gemini' | 'openai' | 'offline';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  apiKey: string;
+  // Apenas para servidores compatíveis com a API da OpenAI (ex.: um modelo local)
+  baseUrl: string;
+}
+
+// Cliente de um modelo de texto: recebe o pedido e devolve a resposta em bruto.
+// Com `json`, pede ao modelo uma resposta só com um objeto JSON.
+export interface AiClient {
+  complete: (prompt: string, options?: { json?: boolean }) => Promise<string>;
+}
+
+// Estatísticas agregadas enviadas à IA em vez dos movimentos, já na moeda base
+export interface InsightStats {
+  currency: string;
+  months: PeriodSummary[];
+  topCategories: Array<{ categoryId: string; amount: Money; share: number }>;
+  // Variação por categoria entre o último mês com movimentos e o anterior
+  trends: CategoryTrend[];
+  averageNet: Money;
+  // Para os nomes enviados à IA e para reconhecer as categorias da resposta
+  categories: Category[];
+}
+
+export type InsightSeverity = 'positive' | 'info' | 'warning' | 'critical';
+
+export interface Insight {
+  title: string;
+  detail: string;
+  severity: InsightSeverity;
+  // Categorias a que a observação se refere; servem para filtrar o histórico
+  categoryIds: string[];
+  // Poupança mensal sugerida, na moeda base
+  suggestedSaving: Money | null;
+}
+
+export interface InsightProvider {
+  kind: AiProviderKind;
+  generate: (stats: InsightStats) => Promise<Insight[]>;
+}
+
+// Funções de consulta que o assistente pode pedir; correm localmente sobre os movimentos
+export type AssistantTool = 'total' | 'byCategory' | 'byMonth' | 'largest';
+
+// Com um tipo escolhido os valores são somas positivas; sem tipo, entradas menos saídas
+export interface AssistantToolResult {
+  total: Money;
+  count: number;
+  rows: Array<{ label: string; value: Money }>;
+}
+
+export interface AssistantToolCall {
+  tool: AssistantTool;
+  filters: TransactionFilters;
+  result: AssistantToolResult;
+}
+
+export interface AssistantAnswer {
+  question: string;
+  answer: string;
+  // Cálculos feitos para chegar à resposta, para se poderem conferir
+  calls: AssistantToolCall[];
+  provider: AiProviderKind;
+  error?: string;
+}
+
+// Estado persistido da aplicação, gravado num único envelope versionado
+export interface AppData {
+  transactions: Transaction[];
+  categories: Category[];
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+  importProfiles: ImportProfile[];
+  categorizationRules: CategorizationRule[];
+  accounts: Account[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  auditLog: AuditEntry[];
+  filterPresets: FilterPreset[];
+  goals: SavingsGoal[];
+  aiSettings: AiSettings;
+  // Saldo abaixo do qual a previsão dá alerta
+  lowBalanceThreshold: Money;
+  sync: SyncState;
+  members: Member[];
+}
+
+export interface StorageEnvelope {
+  version: number;
+  savedAt: string;
+  data: AppData;
+}
+
+// 'recovered': o ficheiro principal estava corrompido e foi usada uma cópia de segurança;
+// 'corrupted': nem o ficheiro nem as cópias puderam ser lidos;
+// 'locked': os dados estão cifrados e é preciso a frase-passe
+export type LoadStatus = 'ok' | 'new' | 'migrated' | 'recovered' | 'corrupted' | 'locked';
+
+export interface LoadResult {
+  status: LoadStatus;
+  data: AppData | null;
+  message?: string;
+  locked?: EncryptedPayload;
+}
+
+export interface SaveState {
+  dirty: boolean;
+  saving: boolean;
+  lastSavedAt: string | null;
+  error: string | null;
+}
+
+// Alteração registada no histórico; `null` em before/after significa criado/apagado
+export type AuditChange =
+  | { entity: 'transaction'; id: string; before: Transaction | null; after: Transaction | null }
+  | { entity: 'categories'; before: Category[]; after: Category[] }
+  // Listas pequenas, guardadas inteiras antes e depois de cada alteração
+  | { entity: 'budgets'; before: Budget[]; after: Budget[] }
+  | { entity: 'recurringRules'; before: RecurringRule[]; after: RecurringRule[] }
+  | { entity: 'categorizationRules'; before: CategorizationRule[]; after: CategorizationRule[] }
+  | { entity: 'goals'; before: SavingsGoal[]; after: SavingsGoal[] }
+  | { entity: 'filterPresets'; before: FilterPreset[]; after: FilterPreset[] };
+
+// Contas e membros não entram no histórico, mas as alterações a eles também se sincronizam
+export type SyncChange =
+  | AuditChange
+  | { entity: 'accounts'; before: Account[]; after: Account[] }
+  | { entity: 'members'; before: Member[]; after: Member[] };
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: string;
+  changes: AuditChange[];
+}
+
+// Momento de uma alteração e dispositivo onde foi feita; o dispositivo desempata
+export interface SyncStamp {
+  at: string;
+  device: string;
+}
+
+// Coleções sincronizadas entre dispositivos, registo a registo
+export interface SyncedData {
+  transactions: Transaction[];
+  categories: Category[];
+  accounts: Account[];
+  recurringRules: RecurringRule[];
+  categorizationRules: CategorizationRule[];
+  members: Member[];
+}
+
+export type SyncEntity = keyof SyncedData;
+
+export type SyncItem = SyncedData[SyncEntity][number];
+
+// Registo tal como viaja entre dispositivos. `stamps` guarda a última alteração de
+// cada campo ('*' = criação, válida para os campos sem alteração própria)
+export interface SyncRecord {
+  entity: SyncEntity;
+  id: string;
+  values: SyncItem | null;
+  stamps: Record<string, SyncStamp>;
+  deleted?: SyncStamp;
+}
+
+// A primeira versão ('fintrack-changeset') só trazia movimentos, sem `entity` nem `acks`
+export interface Changeset {
+  format: 'fintrack-changeset' | 'fintrack-changeset-v2';
+  device: string;
+  deviceName: string;
+  createdAt: string;
+  // Só inclui alterações posteriores a esta data; null = estado completo
+  since: string | null;
+  records: SyncRecord[];
+  // Para cada dispositivo, a data da última exportação completa dele que este já juntou
+  acks?: Record<string, string>;
+}
+
+// Campo alterado nos dois dispositivos desde a última sincronização; ficou o valor mais recente
+export interface SyncConflict {
+  id: string;
+  entity: SyncEntity;
+  recordId: string;
+  label: string;
+  // '*' quando um lado apagou o registo e o outro o alterou
+  field: string;
+  kept: unknown;
+  discarded: unknown;
+  keptFrom: string;
+  discardedFrom: string;
+}
+
+export interface SyncPeer {
+  name: string;
+  // Data do último conjunto de alterações recebido deste dispositivo
+  lastSeen: string;
+  // Data da última exportação completa recebida deste dispositivo
+  lastFull?: string;
+  // Data da última exportação completa deste dispositivo que o outro confirmou ter juntado
+  acked?: string;
+}
+
+// Remoção registada; `known` é quando passou a constar aqui, para saber que exportações a levaram
+export interface SyncTombstone extends SyncStamp {
+  known: string;
+}
+
+export interface SyncState {
+  deviceId: string;
+  deviceName: string;
+  // Por coleção e por registo, a última alteração de cada campo
+  stamps: Record<SyncEntity, Record<string, Record<string, SyncStamp>>>;
+  tombstones: Record<SyncEntity, Record<string, SyncTombstone>>;
+  peers: Record<string, SyncPeer>;
+  lastExport: string | null;
+  // Pasta partilhada (só no desktop)
+  folder: string | null;
+  conflicts: SyncConflict[];
+}
+
+// Partes do estado cobertas pelo anular/refazer
+export interface TrackedData {
+  transactions: Transaction[];
+  categories: Category[];
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+  categorizationRules: CategorizationRule[];
+  goals: SavingsGoal[];
+  filterPresets: FilterPreset[];
+}
+
+// Conteúdo cifrado com AES-GCM; a chave deriva da frase-passe por PBKDF2 com `salt`
+export interface EncryptedPayload {
+  encrypted: true;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
 }